@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+/**
+ * Headless simulation runner - boots the game's physics and abilities in Node and checks balance scenarios.
+ *
+ *   npm run sim                  run every scenario
+ *   npm run sim -- blink         only scenarios whose name contains "blink"
+ *   npm run sim -- --verbose     keep the game's console logging
+ *
+ * Modules load through Vite's SSR loader so `import.meta.env` and TypeScript work as in the browser build.
+ * Exits non-zero when a check fails (CI-friendly). Scenarios that need the track model are
+ * reported as skipped when public/ doesn't have it.
+ */
+import { createServer } from 'vite';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const clientRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const args = process.argv.slice(2);
+const verbose = args.includes('--verbose');
+const filter = args.find(arg => !arg.startsWith('--')) ?? '';
+
+const print = console.log.bind(console);
+if (!verbose) {
+  // The game logs every jump, blink and rocket - keep the report readable
+  console.log = () => {};
+  console.info = () => {};
+  console.warn = () => {};
+}
+
+const server = await createServer({
+  root: clientRoot,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+let failed = 0;
+let skipped = 0;
+try {
+  const { installHeadlessEnvironment } = await server.ssrLoadModule('/src/sim/HeadlessEnvironment.ts');
+  installHeadlessEnvironment();
+
+  const { runScenarios } = await server.ssrLoadModule('/src/sim/scenarios.ts');
+  const report = await runScenarios({
+    filter,
+    loadAsset: async (url) => {
+      const buffer = await readFile(path.join(clientRoot, 'public', url));
+      return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+    }
+  });
+
+  print(`\n🧪 Headless simulation on ${report.trackId}${report.hasTrackModel ? '' : ' (ground plane only - track model not found)'}\n`);
+  for (const scenario of report.scenarios) {
+    if (scenario.skipped) {
+      print(`⏭️  ${scenario.name} (skipped - needs the track model)`);
+      skipped++;
+      continue;
+    }
+
+    print(`${scenario.passed ? '✅' : '❌'} ${scenario.name}`);
+    for (const check of scenario.checks) {
+      print(`   ${check.passed ? '✓' : '✗'} ${check.label}: ${check.actual}${check.passed ? '' : ` (expected ${check.expected})`}`);
+    }
+    if (!scenario.passed) failed++;
+  }
+  const ran = report.scenarios.length - skipped;
+  print(`\n${ran - failed}/${ran} scenarios passed${skipped > 0 ? `, ${skipped} skipped` : ''}`);
+} catch (error) {
+  console.error('❌ Simulation crashed:', error);
+  failed++;
+} finally {
+  await server.close();
+}
+
+process.exit(failed > 0 ? 1 : 0);
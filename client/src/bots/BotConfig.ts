@@ -0,0 +1,66 @@
+import type { PlayerClass } from '../../../shared/protocol';
+
+// Bot racer tuning
+export const BOT_CONFIG = {
+  MAX_BOTS: 7,                // 8 racers with the local player
+  GRID_SPACING: 3,            // m between start grid slots
+  GRID_ROW_SIZE: 4,           // slots per row
+  WAYPOINT_RADIUS: 6,         // m (horizontal) to count an untagged racing line point as reached
+  JUMP_RISE: 2.5,             // m the next point must be above the bot to jump for it
+  JUMP_RISE_DISTANCE: 12,     // m - only jump for points this close
+  STUCK_SPEED: 2,             // m/s of actual movement below which the bot counts as stuck
+  STUCK_JUMP_TIME: 0.5,       // s stuck before jumping
+  STUCK_RESPAWN_TIME: 4,      // s stuck before respawning at the last checkpoint
+  WAYPOINT_TIMEOUT: 20,       // s without reaching a point before respawning
+  CHECKPOINT_DEBOUNCE: 1000,  // ms before the same gate counts again
+  MELEE_ANGLE: 45,            // degrees off the bot's heading a racer may be to swing at it
+  GRAPPLE_PITCH: 50,          // degrees the grapple is aimed above the heading
+  GRAPPLE_HOLD_TIME: 1.2,     // s on the rope before letting go
+  BLAST_FIRE_DELAY: 1         // ticks between the jump and firing at the feet
+} as const;
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface BotDifficultyProfile {
+  reactionTime: number;   // ms between steering decisions
+  lineError: number;      // m of random lateral offset from the racing line
+  turnRate: number;       // rad/s the heading can turn
+  abilityChance: number;  // chance to use the ability at a matching hint
+  meleeChance: number;    // chance per decision to swing at a racer in range
+}
+
+/**
+ * Difficulty presets - line error stays under the checkpoints' half width so gates are still hit
+ */
+export const BOT_DIFFICULTIES: Record<BotDifficulty, BotDifficultyProfile> = {
+  easy: {
+    reactionTime: 400,
+    lineError: 2.5,
+    turnRate: 3,
+    abilityChance: 0.3,
+    meleeChance: 0.2
+  },
+  normal: {
+    reactionTime: 200,
+    lineError: 1.5,
+    turnRate: 5,
+    abilityChance: 0.7,
+    meleeChance: 0.5
+  },
+  hard: {
+    reactionTime: 80,
+    lineError: 0.5,
+    turnRate: 8,
+    abilityChance: 1,
+    meleeChance: 0.9
+  }
+};
+
+export const BOT_NAMES = ['Axel', 'Brakes', 'Crash', 'Dash', 'Echo', 'Fender', 'Gears'];
+
+// Bots cycle through the classes in this order
+export const BOT_CLASSES: PlayerClass[] = ['blast', 'grapple', 'blink'];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return value === 'easy' || value === 'normal' || value === 'hard';
+}
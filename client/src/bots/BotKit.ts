@@ -0,0 +1,240 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { PlayerClass } from '../../../shared/protocol';
+import type { FirstPersonController } from '../controller';
+import { createClassKit, useAbility, updateCooldown, type ClassKit } from '../kits/classKit';
+import { blastJump } from '../kits/blast';
+import { performGrappleRaycast } from '../kits/grapple';
+import { resolveBlinkTarget, BLINK } from '../kits/blink';
+import { SWING } from '../kits/swingConfig';
+import { gameNow } from '../systems/GameClock';
+import { BOT_CONFIG } from './BotConfig';
+
+const LOOK_DOWN = -Math.PI / 2 + 0.01;
+
+export interface BotKitContext {
+  world: RAPIER.World;
+  scene: THREE.Scene;
+  body: RAPIER.RigidBody;
+  camera: THREE.Camera;
+  controller: FirstPersonController;
+}
+
+interface BotSwing {
+  anchor: THREE.Vector3;
+  ropeLength: number;
+  attachTime: number;
+  heading: THREE.Vector3;
+  rope: THREE.Line;
+}
+
+/**
+ * A bot's class ability: the same blast, grapple and blink rules as the player's kits,
+ * driven by direct calls on the bot's own body and controller instead of the shared kit state and game events
+ */
+export class BotKit {
+  readonly kit: ClassKit;
+  private context: BotKitContext;
+  private blastTicks: number | null = null; // ticks since the jump of a pending rocket jump
+  private swing: BotSwing | null = null;
+  private lastBlinkTime = 0;
+  private lastGrappleDetachTime = 0;
+
+  constructor(playerClass: PlayerClass, context: BotKitContext) {
+    this.kit = createClassKit(playerClass);
+    this.context = context;
+  }
+
+  get className(): PlayerClass {
+    return this.kit.className;
+  }
+
+  isReady(): boolean {
+    updateCooldown(this.kit);
+    return this.kit.ability.isReady && this.blastTicks === null && !this.swing;
+  }
+
+  /**
+   * Use the ability heading along yaw; false when it is cooling down or has nothing to aim at
+   */
+  activate(yaw: number): boolean {
+    if (!this.isReady()) return false;
+    const { controller } = this.context;
+
+    switch (this.kit.className) {
+      case 'blast':
+        // Rocket jump: jump now, fire at the feet on the way up
+        if (!controller.getIsGrounded() || !useAbility(this.kit)) return false;
+        this.blastTicks = 0;
+        return true;
+
+      case 'grapple':
+        // Cooldown starts when the swing is released
+        return this.attachSwing(yaw);
+
+      case 'blink':
+        if (!useAbility(this.kit)) return false;
+        return this.blink(yaw);
+    }
+  }
+
+  /**
+   * Hold jump for the tick a rocket jump starts
+   */
+  wantsJump(): boolean {
+    return this.blastTicks === 0;
+  }
+
+  /**
+   * Pitch the bot has to look at while the ability needs it (null = free to look ahead)
+   */
+  getAimPitch(): number | null {
+    return this.blastTicks !== null ? LOOK_DOWN : null;
+  }
+
+  isSwinging(): boolean {
+    return this.swing !== null;
+  }
+
+  getMsSinceBlink(): number {
+    return gameNow() - this.lastBlinkTime;
+  }
+
+  getMsSinceGrappleDetach(): number {
+    return gameNow() - this.lastGrappleDetachTime;
+  }
+
+  /**
+   * Advance a pending rocket and the rope (call after the bot's physics step)
+   */
+  update(): void {
+    if (this.blastTicks !== null) {
+      this.blastTicks++;
+      if (this.blastTicks > BOT_CONFIG.BLAST_FIRE_DELAY) {
+        const { world, body, camera, scene } = this.context;
+        camera.updateMatrixWorld();
+        blastJump(world, body, camera, scene, false);
+        this.blastTicks = null;
+      }
+    }
+
+    if (this.swing) {
+      this.updateSwing(this.swing);
+    }
+  }
+
+  /**
+   * Drop the rope and any pending rocket (respawn), optionally with the ability ready again (race start)
+   */
+  reset(clearCooldown = false): void {
+    this.blastTicks = null;
+    if (this.swing) {
+      this.removeRope(this.swing);
+      this.swing = null;
+      this.context.controller.setSwinging(false);
+    }
+    if (clearCooldown) {
+      this.kit.ability.isReady = true;
+      this.kit.ability.lastUsed = 0;
+    }
+  }
+
+  private attachSwing(yaw: number): boolean {
+    const { world, body, scene, controller } = this.context;
+    const position = toVector(body.translation());
+    const heading = headingFromYaw(yaw);
+    const pitch = THREE.MathUtils.degToRad(BOT_CONFIG.GRAPPLE_PITCH);
+    const direction = heading.clone().multiplyScalar(Math.cos(pitch)).setY(Math.sin(pitch)).normalize();
+
+    const hit = performGrappleRaycast(world, position, direction);
+    if (!hit || hit.point.y <= position.y + 0.5) return false;
+
+    const rope = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([position, hit.point]),
+      new THREE.LineBasicMaterial({ color: SWING.ropeColor })
+    );
+    scene.add(rope);
+
+    this.swing = {
+      anchor: hit.point,
+      ropeLength: Math.max(hit.distance - 0.5, SWING.minRope),
+      attachTime: gameNow(),
+      heading,
+      rope
+    };
+    controller.setSwinging(true);
+    return true;
+  }
+
+  /**
+   * Keep the bot on the rope sphere; let go after the hold time or once past the anchor
+   */
+  private updateSwing(swing: BotSwing): void {
+    const { body, controller } = this.context;
+
+    // The controller's respawn drops the swing state
+    if (!controller.getIsSwinging()) {
+      this.finishSwing(swing);
+      return;
+    }
+
+    const position = toVector(body.translation());
+    const rope = position.clone().sub(swing.anchor);
+    const maxLength = swing.ropeLength + SWING.ropeSlack;
+    if (rope.length() > maxLength) {
+      position.copy(swing.anchor).add(rope.setLength(maxLength));
+      body.setTranslation(position, true);
+    }
+    swing.rope.geometry.setFromPoints([position, swing.anchor]);
+
+    const heldFor = (gameNow() - swing.attachTime) / 1000;
+    const pastAnchor = swing.anchor.clone().sub(position).dot(swing.heading) < 0;
+    if (heldFor >= BOT_CONFIG.GRAPPLE_HOLD_TIME || (pastAnchor && heldFor > 0.3)) {
+      controller.applySwingRelease({ velocity: controller.getVelocity(), reason: 'bot' });
+      controller.setSwinging(false);
+      this.finishSwing(swing);
+    }
+  }
+
+  private finishSwing(swing: BotSwing): void {
+    this.removeRope(swing);
+    this.swing = null;
+    this.lastGrappleDetachTime = gameNow();
+    useAbility(this.kit);
+  }
+
+  private removeRope(swing: BotSwing): void {
+    this.context.scene.remove(swing.rope);
+    swing.rope.geometry.dispose();
+    (swing.rope.material as THREE.Material).dispose();
+  }
+
+  private blink(yaw: number): boolean {
+    const { world, body, controller } = this.context;
+    const position = toVector(body.translation());
+    const direction = headingFromYaw(yaw);
+
+    const target = resolveBlinkTarget(world, position, direction);
+    if (!target.success) return false;
+
+    body.setTranslation(target.position, true);
+    controller.applyBlinkMomentum({
+      impulse: direction.clone().multiplyScalar(BLINK.forwardImpulseStrength),
+      blinkDirection: direction,
+      distance: position.distanceTo(target.position)
+    });
+    this.lastBlinkTime = gameNow();
+    return true;
+  }
+}
+
+/**
+ * Horizontal forward direction the controller moves in for a yaw
+ */
+export function headingFromYaw(yaw: number): THREE.Vector3 {
+  return new THREE.Vector3(-Math.sin(yaw), 0, -Math.cos(yaw));
+}
+
+function toVector(translation: RAPIER.Vector): THREE.Vector3 {
+  return new THREE.Vector3(translation.x, translation.y, translation.z);
+}
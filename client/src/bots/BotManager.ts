@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { MeleeTarget, MeleeCombat } from '../combat';
+import type { TrackManifest, TrackSpawnPoint } from '../track/TrackManifest';
+import type { LapController } from '../systems/LapController';
+import type { CheckpointSystem } from '../systems/CheckpointSystem';
+import type { RaceSession } from '../systems/RaceSession';
+import type { RacerProgress } from '../systems/RacePositions';
+import { BotRacer } from './BotRacer';
+import { RacingLine } from './RacingLine';
+import { gameEvents, type BlastImpulse, type Unsubscribe } from '../systems/GameEvents';
+import { BOT_CONFIG, BOT_CLASSES, BOT_DIFFICULTIES, BOT_NAMES, type BotDifficulty } from './BotConfig';
+
+export interface BotManagerOptions {
+  count: number;
+  difficulty: BotDifficulty;
+  world: RAPIER.World;
+  scene: THREE.Scene;
+  track: TrackManifest;
+  lapController: LapController;         // the player's - bots race the same route
+  checkpointSystem: CheckpointSystem;
+  raceSession: RaceSession;
+  meleeCombat: MeleeCombat;
+  localTarget: MeleeTarget;             // the player, kept up to date by the caller
+}
+
+/**
+ * Spawns bot racers on a grid behind the start, enters them in the race and ticks them with the physics step
+ */
+export class BotManager {
+  private bots: BotRacer[] = [];
+  private options: BotManagerOptions;
+  private unsubscribeBlast: Unsubscribe;
+
+  constructor(options: BotManagerOptions) {
+    this.options = options;
+    const { track, lapController, raceSession, meleeCombat } = options;
+    const racingLine = RacingLine.fromTrack(track, lapController.getCheckpointOrder());
+    const count = Math.min(Math.max(0, Math.floor(options.count)), BOT_CONFIG.MAX_BOTS);
+
+    for (let index = 0; index < count; index++) {
+      const bot = new BotRacer({
+        id: `bot_${index + 1}`,
+        name: `${BOT_NAMES[index % BOT_NAMES.length]} (bot)`,
+        playerClass: BOT_CLASSES[index % BOT_CLASSES.length],
+        difficulty: BOT_DIFFICULTIES[options.difficulty],
+        spawnPoint: gridSlot(track.spawnPoints[0], index),
+        world: options.world,
+        scene: options.scene,
+        track,
+        route: lapController.getRoute(),
+        racingLine,
+        checkpointSystem: options.checkpointSystem,
+        localPlayerId: options.localTarget.id,
+        onLapComplete: (racer, totalLaps) => {
+          raceSession.recordLap(racer.id, totalLaps);
+          if (totalLaps >= raceSession.getLapCount()) {
+            racer.setFinished(true);
+          }
+        }
+      });
+
+      this.bots.push(bot);
+      meleeCombat.addTarget(bot);
+      raceSession.addEntrant({
+        id: bot.id,
+        name: bot.name,
+        playerClass: bot.playerClass,
+        getProgress: () => bot.getRaceProgress()
+      });
+    }
+
+    // Rockets report the racer they hit by body handle
+    this.unsubscribeBlast = gameEvents.on('blastSelfImpulse', this.handleBlastImpulse);
+
+    console.log(`🤖 ${count} ${options.difficulty} bot${count === 1 ? '' : 's'} on the grid`);
+  }
+
+  private handleBlastImpulse = (impulse: BlastImpulse): void => {
+    const bot = this.bots.find(candidate => candidate.rigidBody.handle === impulse.bodyHandle);
+    bot?.controller.applyBlastImpulse(impulse);
+  };
+
+  /**
+   * One fixed physics step for every bot (after the player's step and abilities)
+   */
+  update(deltaTime: number): void {
+    const targets: MeleeTarget[] = [this.options.localTarget, ...this.bots];
+    for (const bot of this.bots) {
+      bot.update(deltaTime, targets);
+    }
+  }
+
+  setInputLocked(locked: boolean): void {
+    this.bots.forEach(bot => bot.setInputLocked(locked));
+  }
+
+  resetForRaceStart(): void {
+    this.bots.forEach(bot => bot.resetForRaceStart());
+  }
+
+  /**
+   * Bots in the race position tracker's format
+   */
+  getRacers(): RacerProgress[] {
+    return this.bots.map(bot => ({
+      id: bot.id,
+      name: bot.name,
+      lapsCompleted: bot.lapController.getProgress().totalLaps,
+      checkpointIndex: bot.lapController.getCheckpointIndex(),
+      position: bot.position
+    }));
+  }
+
+  getBots(): readonly BotRacer[] {
+    return this.bots;
+  }
+
+  destroy(): void {
+    this.unsubscribeBlast();
+    for (const bot of this.bots) {
+      this.options.meleeCombat.removeTarget(bot.id);
+      this.options.raceSession.removeEntrant(bot.id);
+      bot.destroy();
+    }
+    this.bots = [];
+  }
+}
+
+/**
+ * Start slot in the rows behind the track's first spawn point (the player starts on pole)
+ */
+function gridSlot(spawnPoint: TrackSpawnPoint, index: number): TrackSpawnPoint {
+  const yaw = THREE.MathUtils.degToRad(spawnPoint.yaw);
+  const forward = new THREE.Vector3(-Math.sin(yaw), 0, -Math.cos(yaw));
+  const right = new THREE.Vector3(-forward.z, 0, forward.x);
+
+  const row = Math.floor(index / BOT_CONFIG.GRID_ROW_SIZE) + 1;
+  const column = index % BOT_CONFIG.GRID_ROW_SIZE - (BOT_CONFIG.GRID_ROW_SIZE - 1) / 2;
+
+  const { x, y, z } = spawnPoint.position;
+  const position = new THREE.Vector3(x, y, z)
+    .addScaledVector(right, column * BOT_CONFIG.GRID_SPACING)
+    .addScaledVector(forward, -row * BOT_CONFIG.GRID_SPACING);
+
+  return { position: { x: position.x, y: position.y, z: position.z }, yaw: spawnPoint.yaw };
+}
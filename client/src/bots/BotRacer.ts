@@ -0,0 +1,506 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { PlayerClass } from '../../../shared/protocol';
+import {
+  COMBAT_CONFIG,
+  PARRY_CONFIG,
+  findMeleeHits,
+  resolveAttackParameters,
+  resolveDefense
+} from '../../../shared/combat';
+import { FirstPersonController } from '../controller';
+import { createCharacterBody } from '../physics';
+import type { MeleeTarget } from '../combat';
+import type { TrackManifest, TrackSpawnPoint } from '../track/TrackManifest';
+import { LapController, type RouteDefinition } from '../systems/LapController';
+import type { CheckpointData, CheckpointSystem } from '../systems/CheckpointSystem';
+import type { InputCommand } from '../net/ClientPrediction';
+import { CLASS_COLORS } from '../net/RemotePlayer';
+import { gameNow } from '../systems/GameClock';
+import { BotKit, headingFromYaw } from './BotKit';
+import type { RacingLine } from './RacingLine';
+import { BOT_CONFIG, type BotDifficultyProfile } from './BotConfig';
+import { gameEvents } from '../systems/GameEvents';
+
+export interface BotRacerOptions {
+  id: string;
+  name: string;
+  playerClass: PlayerClass;
+  difficulty: BotDifficultyProfile;
+  spawnPoint: TrackSpawnPoint;
+  world: RAPIER.World;
+  scene: THREE.Scene;
+  track: TrackManifest;
+  route: RouteDefinition;
+  racingLine: RacingLine;
+  checkpointSystem: CheckpointSystem;
+  localPlayerId: string;                              // attacker id for hits from the player's MeleeCombat
+  onLapComplete: (bot: BotRacer, totalLaps: number) => void;
+}
+
+/**
+ * AI racer: a kinematic capsule moved by its own FirstPersonController (same movement rules as the player),
+ * steering along the racing line, counting its own laps and fighting anyone it catches up with
+ */
+export class BotRacer implements MeleeTarget {
+  readonly id: string;
+  readonly name: string;
+  readonly position = new THREE.Vector3();
+  readonly rigidBody: RAPIER.RigidBody;
+  readonly controller: FirstPersonController;
+  readonly lapController: LapController;
+
+  private options: BotRacerOptions;
+  private characterController: RAPIER.KinematicCharacterController;
+  private camera = new THREE.PerspectiveCamera();
+  private kit: BotKit;
+  private mesh: THREE.Mesh;
+  private damageFlashTimer?: number;
+
+  // Steering
+  private yaw: number;
+  private desiredYaw: number;
+  private targetIndex = 0;
+  private lineOffset = 0;
+  private nextDecisionTime = 0;
+  private lastJump = false;
+  private usedHints: Set<string> = new Set();
+
+  // Progress and recovery
+  private previousPosition = new THREE.Vector3();
+  private lastCheckpointId: string | null = null;
+  private lastCheckpointTime = 0;
+  private respawnCount = 0;
+  private stuckTime = 0;
+  private timeSinceWaypoint = 0;
+  private inputLocked = false;
+  private finished = false;
+
+  // Combat
+  private health: number = COMBAT_CONFIG.MAX_HEALTH;
+  private lastDamageTime = 0;
+  private lastMeleeTime = 0;
+  private staggeredUntil = 0;
+
+  constructor(options: BotRacerOptions) {
+    this.options = options;
+    this.id = options.id;
+    this.name = options.name;
+
+    const { body, characterController } = createCharacterBody(options.world, options.spawnPoint.position);
+    this.rigidBody = body;
+    this.characterController = characterController;
+
+    this.controller = new FirstPersonController(this.camera, body, characterController, options.world, 'bot');
+    this.controller.setTrackRules(options.spawnPoint, options.track.killzone);
+
+    this.kit = new BotKit(options.playerClass, {
+      world: options.world,
+      scene: options.scene,
+      body,
+      camera: this.camera,
+      controller: this.controller
+    });
+
+    this.lapController = new LapController(
+      (_lapTime, totalLaps) => {
+        this.usedHints.clear();
+        options.onLapComplete(this, totalLaps);
+      },
+      undefined,
+      options.route
+    );
+
+    this.yaw = THREE.MathUtils.degToRad(options.spawnPoint.yaw);
+    this.desiredYaw = this.yaw;
+    this.position.copy(this.controller.getPosition());
+    this.previousPosition.copy(this.position);
+    this.pickLineOffset();
+
+    this.mesh = this.createMesh(options.playerClass);
+    options.scene.add(this.mesh);
+  }
+
+  get playerClass(): PlayerClass {
+    return this.kit.className;
+  }
+
+  /**
+   * One fixed physics step: decide, move through the controller, then abilities and checkpoints
+   * @param targets everyone this bot may swing at (the player and the other bots)
+   */
+  update(deltaTime: number, targets: MeleeTarget[]): void {
+    const now = gameNow();
+    const canRace = !this.inputLocked && !this.finished;
+
+    if (canRace && now >= this.nextDecisionTime) {
+      this.nextDecisionTime = now + this.options.difficulty.reactionTime;
+      this.decide(targets);
+    }
+
+    // Turn toward the planned heading at the difficulty's turn rate
+    const maxTurn = this.options.difficulty.turnRate * deltaTime;
+    this.yaw += THREE.MathUtils.clamp(wrapAngle(this.desiredYaw - this.yaw), -maxTurn, maxTurn);
+
+    const wantsJump = canRace && (this.kit.wantsJump() || this.shouldJump());
+    const jump = wantsJump && !this.lastJump; // the controller only jumps again after jump is released
+    this.lastJump = jump;
+
+    const command: InputCommand = {
+      seq: 0,
+      deltaTime,
+      forward: canRace,
+      back: false,
+      left: false,
+      right: false,
+      jump,
+      slide: false,
+      block: false,
+      yaw: this.yaw,
+      pitch: this.kit.getAimPitch() ?? 0
+    };
+    this.controller.setReplayCommand(command);
+    this.controller.update(deltaTime);
+    this.kit.update();
+
+    this.position.copy(this.controller.getPosition());
+    if (this.controller.getRespawnCount() !== this.respawnCount) {
+      this.onRespawn();
+    } else {
+      this.sweepCheckpoints();
+      this.trackProgress(deltaTime, canRace);
+    }
+    this.previousPosition.copy(this.position);
+
+    this.regenerate(deltaTime);
+    this.mesh.position.copy(this.position);
+    this.mesh.rotation.y = this.yaw;
+  }
+
+  /**
+   * Re-plan the heading and look for a hint to use the ability at or a racer to hit
+   */
+  private decide(targets: MeleeTarget[]): void {
+    const target = this.getSteerTarget();
+    this.desiredYaw = Math.atan2(-(target.x - this.position.x), -(target.z - this.position.z));
+
+    const { abilityHints = [] } = this.options.track;
+    for (const hint of abilityHints) {
+      if (this.usedHints.has(hint.id) || !hint.classes.includes(this.kit.className)) continue;
+      const dx = hint.position.x - this.position.x;
+      const dz = hint.position.z - this.position.z;
+      if (Math.hypot(dx, dz) > hint.radius) continue;
+
+      this.usedHints.add(hint.id);
+      if (Math.random() < this.options.difficulty.abilityChance) {
+        this.kit.activate(this.yaw);
+      }
+    }
+
+    if (Math.random() < this.options.difficulty.meleeChance) {
+      this.tryMelee(targets);
+    }
+  }
+
+  /**
+   * Current racing line point, shifted sideways by this bot's line error
+   */
+  private getSteerTarget(): THREE.Vector3 {
+    const { racingLine } = this.options;
+    const direction = racingLine.directionFrom(this.targetIndex - 1);
+    const side = new THREE.Vector3(-direction.z, 0, direction.x);
+    return racingLine.at(this.targetIndex).position.clone().addScaledVector(side, this.lineOffset);
+  }
+
+  private pickLineOffset(): void {
+    const { lineError } = this.options.difficulty;
+    this.lineOffset = (Math.random() * 2 - 1) * lineError;
+  }
+
+  private advanceTo(index: number): void {
+    this.targetIndex = index % this.options.racingLine.length;
+    this.timeSinceWaypoint = 0;
+    this.pickLineOffset();
+  }
+
+  /**
+   * Jump for points above us, and to get unstuck
+   */
+  private shouldJump(): boolean {
+    if (this.stuckTime > BOT_CONFIG.STUCK_JUMP_TIME) return true;
+
+    const target = this.options.racingLine.at(this.targetIndex).position;
+    const distance = Math.hypot(target.x - this.position.x, target.z - this.position.z);
+    return target.y - this.position.y > BOT_CONFIG.JUMP_RISE && distance < BOT_CONFIG.JUMP_RISE_DISTANCE;
+  }
+
+  /**
+   * Count checkpoints crossed this step against the bot's own lap, in the order they were crossed
+   */
+  private sweepCheckpoints(): void {
+    const checkpoints = this.options.checkpointSystem.findCrossedCheckpoints(this.previousPosition, this.position);
+    checkpoints.forEach(checkpoint => this.crossCheckpoint(checkpoint));
+  }
+
+  private crossCheckpoint(checkpoint: CheckpointData): void {
+    const now = gameNow();
+    if (checkpoint.id === this.lastCheckpointId && now - this.lastCheckpointTime < BOT_CONFIG.CHECKPOINT_DEBOUNCE) return;
+    this.lastCheckpointId = checkpoint.id;
+    this.lastCheckpointTime = now;
+
+    if (!this.lapController.visit(checkpoint.id)) return;
+
+    const { racingLine, route, track } = this.options;
+    const nextIndex = racingLine.indexAfterCheckpoint(checkpoint.id);
+    this.advanceTo(nextIndex);
+
+    // Respawn at the checkpoint just passed, facing along the line (the start grid after the finish)
+    if (checkpoint.id === route.finish) {
+      this.controller.setTrackRules(this.options.spawnPoint, track.killzone);
+    } else {
+      const direction = racingLine.directionFrom(nextIndex - 1);
+      const { x, y, z } = checkpoint.position;
+      this.controller.setTrackRules({
+        position: { x, y: y + 1, z },
+        yaw: THREE.MathUtils.radToDeg(Math.atan2(-direction.x, -direction.z))
+      }, track.killzone);
+    }
+  }
+
+  /**
+   * Reach racing line points and recover when the bot stops making progress
+   */
+  private trackProgress(deltaTime: number, canRace: boolean): void {
+    if (!canRace) {
+      this.stuckTime = 0;
+      this.timeSinceWaypoint = 0;
+      return;
+    }
+
+    const point = this.options.racingLine.at(this.targetIndex);
+    const distance = Math.hypot(point.position.x - this.position.x, point.position.z - this.position.z);
+    if (!point.checkpoint && distance < BOT_CONFIG.WAYPOINT_RADIUS) {
+      this.advanceTo(this.targetIndex + 1);
+    }
+
+    const moved = Math.hypot(this.position.x - this.previousPosition.x, this.position.z - this.previousPosition.z);
+    this.stuckTime = moved / deltaTime < BOT_CONFIG.STUCK_SPEED ? this.stuckTime + deltaTime : 0;
+    this.timeSinceWaypoint += deltaTime;
+
+    if (this.stuckTime > BOT_CONFIG.STUCK_RESPAWN_TIME || this.timeSinceWaypoint > BOT_CONFIG.WAYPOINT_TIMEOUT) {
+      console.log(`🤖 ${this.name} is stuck - respawning`);
+      this.controller.reset('manual');
+      this.onRespawn();
+    }
+  }
+
+  /**
+   * Back on the line after a killzone, KO or stuck respawn: head for the point after the last checkpoint
+   */
+  private onRespawn(): void {
+    this.respawnCount = this.controller.getRespawnCount();
+    this.kit.reset();
+    this.previousPosition.copy(this.controller.getPosition());
+    this.position.copy(this.previousPosition);
+    this.stuckTime = 0;
+
+    const { lastCheckpoint } = this.lapController.getProgress();
+    this.advanceTo(lastCheckpoint ? this.options.racingLine.indexAfterCheckpoint(lastCheckpoint) : 0);
+
+    const target = this.getSteerTarget();
+    this.yaw = Math.atan2(-(target.x - this.position.x), -(target.z - this.position.z));
+    this.desiredYaw = this.yaw;
+  }
+
+  /**
+   * Swing at racers in front, with the same shape, damage and defense rules as the player's melee
+   */
+  private tryMelee(targets: MeleeTarget[]): void {
+    const now = gameNow();
+    if (now < this.staggeredUntil || now - this.lastMeleeTime < COMBAT_CONFIG.MELEE_COOLDOWN) return;
+
+    const velocity = this.controller.getVelocity();
+    const params = resolveAttackParameters(this.kit.className, {
+      speed: Math.hypot(velocity.x, velocity.z),
+      isSwinging: this.kit.isSwinging(),
+      msSinceGrappleDetach: this.kit.getMsSinceGrappleDetach(),
+      msSinceBlink: this.kit.getMsSinceBlink()
+    });
+
+    const origin = this.position.clone().add(new THREE.Vector3(0, 0.8, 0));
+    const direction = headingFromYaw(this.yaw);
+    const inReach = targets.filter(target => {
+      if (target === this) return false;
+      const toTarget = target.position.clone().sub(origin).setY(0);
+      return params.is360Sweep || toTarget.angleTo(direction) <= THREE.MathUtils.degToRad(BOT_CONFIG.MELEE_ANGLE);
+    });
+
+    const hits = findMeleeHits(origin, direction, params, inReach);
+    if (hits.length === 0) return;
+    this.lastMeleeTime = now;
+
+    for (const target of hits) {
+      const defense = resolveDefense(
+        params.damage,
+        params.damage * COMBAT_CONFIG.KNOCKBACK_MULTIPLIER,
+        target.getDefenseStance?.() ?? 'none'
+      );
+
+      if (target instanceof BotRacer) {
+        target.receiveHit(params.damage, direction, this.id);
+      } else {
+        target.takeDamage?.(params.damage, direction);
+      }
+
+      if (defense.parried) {
+        console.log(`🛡️ ${target.id} parried ${this.name}!`);
+        this.staggeredUntil = now + PARRY_CONFIG.STAGGER_DURATION;
+        continue;
+      }
+
+      target.applyKnockback?.(defense.knockbackForce, direction);
+    }
+
+    console.log(`🤖 ${this.name} hit ${hits.map(target => target.id).join(', ')} for ${params.damage} HP`);
+  }
+
+  /**
+   * Hit from the player's melee (MeleeTarget)
+   */
+  takeDamage(damage: number, direction: THREE.Vector3): void {
+    this.receiveHit(damage, direction, this.options.localPlayerId);
+  }
+
+  /**
+   * Bots never block; a KO respawns the bot at its last checkpoint
+   */
+  receiveHit(damage: number, _direction: THREE.Vector3, attackerId: string): void {
+    if (this.finished) return;
+
+    this.health = Math.max(0, this.health - damage);
+    this.lastDamageTime = gameNow();
+    this.flashDamage();
+
+    if (this.health <= 0) {
+      console.log(`💀 ${this.name} KO'd by ${attackerId}`);
+      gameEvents.emit('botKO', { id: this.id, name: this.name, attackerId });
+
+      this.health = COMBAT_CONFIG.MAX_HEALTH;
+      this.controller.reset('ko');
+      this.onRespawn();
+    }
+  }
+
+  applyKnockback(force: number, direction: THREE.Vector3): void {
+    this.controller.applyKnockback(force, direction);
+  }
+
+  getHealthStatus() {
+    return {
+      current: this.health,
+      max: COMBAT_CONFIG.MAX_HEALTH,
+      percentage: (this.health / COMBAT_CONFIG.MAX_HEALTH) * 100
+    };
+  }
+
+  private regenerate(deltaTime: number): void {
+    if (this.health >= COMBAT_CONFIG.MAX_HEALTH) return;
+    if (gameNow() - this.lastDamageTime < COMBAT_CONFIG.HEALTH_REGEN_DELAY) return;
+    this.health = Math.min(COMBAT_CONFIG.MAX_HEALTH, this.health + COMBAT_CONFIG.HEALTH_REGEN_RATE * deltaTime);
+  }
+
+  /**
+   * Freeze driving during the race countdown
+   */
+  setInputLocked(locked: boolean): void {
+    this.inputLocked = locked;
+  }
+
+  /**
+   * Stop racing once the final lap is in
+   */
+  setFinished(finished: boolean): void {
+    this.finished = finished;
+  }
+
+  /**
+   * Back to the grid slot with a fresh lap, full health and the ability ready
+   */
+  resetForRaceStart(): void {
+    this.lapController.reset();
+    this.controller.setTrackRules(this.options.spawnPoint, this.options.track.killzone);
+    this.controller.reset('race-start');
+    this.kit.reset(true);
+    this.health = COMBAT_CONFIG.MAX_HEALTH;
+    this.finished = false;
+    this.usedHints.clear();
+    this.lastCheckpointId = null;
+    this.onRespawn();
+  }
+
+  getRaceProgress(): number {
+    return this.lapController.getRaceProgress();
+  }
+
+  /**
+   * Remove the capsule from the physics world and the scene
+   */
+  destroy(): void {
+    this.kit.reset();
+    this.controller.dispose();
+    if (this.damageFlashTimer) {
+      window.clearTimeout(this.damageFlashTimer);
+    }
+
+    this.options.world.removeCharacterController(this.characterController);
+    this.options.world.removeRigidBody(this.rigidBody);
+    this.options.scene.remove(this.mesh);
+    this.mesh.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  }
+
+  /**
+   * Capsule in the class color with a visor, like remote racers
+   */
+  private createMesh(playerClass: PlayerClass): THREE.Mesh {
+    const mesh = new THREE.Mesh(
+      new THREE.CapsuleGeometry(0.5, 2.0, 8, 16),
+      new THREE.MeshStandardMaterial({ color: CLASS_COLORS[playerClass], roughness: 0.6, metalness: 0.1 })
+    );
+    mesh.castShadow = true;
+    mesh.name = `bot_${this.id}`;
+
+    const visor = new THREE.Mesh(
+      new THREE.BoxGeometry(0.6, 0.2, 0.2),
+      new THREE.MeshBasicMaterial({ color: 0x111111 })
+    );
+    visor.position.set(0, 0.8, -0.45);
+    mesh.add(visor);
+
+    mesh.position.copy(this.position);
+    return mesh;
+  }
+
+  private flashDamage(): void {
+    if (this.damageFlashTimer) {
+      window.clearTimeout(this.damageFlashTimer);
+    }
+
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.setHex(0x440000);
+    this.damageFlashTimer = window.setTimeout(() => {
+      material.emissive.setHex(0x000000);
+    }, 150);
+  }
+}
+
+/**
+ * Shortest signed angle, in (-π, π]
+ */
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import type { TrackManifest } from '../track/TrackManifest';
+import type { CheckpointId } from '../systems/LapController';
+
+export interface RacingLinePoint {
+  position: THREE.Vector3;
+  checkpoint?: CheckpointId; // the point sits inside this checkpoint; bots wait for it to count
+}
+
+/**
+ * Closed loop of waypoints bots drive along, from the start line through every checkpoint back to the finish
+ */
+export class RacingLine {
+  private points: RacingLinePoint[];
+
+  constructor(points: RacingLinePoint[]) {
+    this.points = points;
+  }
+
+  /**
+   * The track's authored line, or the checkpoint centres in lap order when it has none
+   */
+  static fromTrack(track: TrackManifest, checkpointOrder: CheckpointId[]): RacingLine {
+    if (track.racingLine) {
+      return new RacingLine(track.racingLine.map(point => ({
+        position: new THREE.Vector3(point.position.x, point.position.y, point.position.z),
+        checkpoint: point.checkpoint
+      })));
+    }
+
+    const points: RacingLinePoint[] = [];
+    for (const id of checkpointOrder) {
+      const checkpoint = track.checkpoints.find(candidate => candidate.id === id);
+      if (checkpoint) {
+        const { x, y, z } = checkpoint.position;
+        points.push({ position: new THREE.Vector3(x, y, z), checkpoint: id });
+      }
+    }
+    return new RacingLine(points);
+  }
+
+  get length(): number {
+    return this.points.length;
+  }
+
+  /**
+   * Point at any index, wrapping around the loop
+   */
+  at(index: number): RacingLinePoint {
+    const count = this.points.length;
+    return this.points[((index % count) + count) % count];
+  }
+
+  /**
+   * First point after the one tagged with a checkpoint (0 = the start of the line when it isn't tagged)
+   */
+  indexAfterCheckpoint(checkpointId: CheckpointId): number {
+    const index = this.points.findIndex(point => point.checkpoint === checkpointId);
+    return index === -1 ? 0 : (index + 1) % this.points.length;
+  }
+
+  /**
+   * Horizontal unit direction of the segment leaving a point
+   */
+  directionFrom(index: number): THREE.Vector3 {
+    const direction = this.at(index + 1).position.clone().sub(this.at(index).position);
+    direction.y = 0;
+    return direction.lengthSq() > 1e-6 ? direction.normalize() : new THREE.Vector3(0, 0, -1);
+  }
+}
@@ -0,0 +1,99 @@
+import { BLOCK_CONFIG, PARRY_CONFIG, type DefenseStance } from '../../../shared/combat';
+import { gameEvents } from '../systems/GameEvents';
+
+/**
+ * Local player's hold-to-block state (RMB).
+ * Blocking starts on press unless the release lockout is still running;
+ * the first PARRY_CONFIG.WINDOW ms of a press parry instead of block.
+ */
+export class BlockState {
+  private blocking = false;
+  private blockStartTime = 0;
+  private lockoutUntil = 0;
+  private parryWindowEnd = 0;
+  private parryCooldownUntil = 0;
+
+  /**
+   * RMB pressed - returns false if still locked out from the last release
+   */
+  startBlock(): boolean {
+    if (this.blocking) return true;
+
+    const now = Date.now();
+    if (now < this.lockoutUntil) {
+      console.log(`🛡️ Block locked out (${this.lockoutUntil - now}ms remaining)`);
+      return false;
+    }
+
+    this.blocking = true;
+    this.blockStartTime = now;
+
+    // Each press opens a parry window unless one was attempted recently
+    if (now >= this.parryCooldownUntil) {
+      this.parryWindowEnd = now + PARRY_CONFIG.WINDOW;
+      this.parryCooldownUntil = now + PARRY_CONFIG.COOLDOWN;
+    }
+
+    this.dispatchChange();
+    return true;
+  }
+
+  /**
+   * RMB released - starts the lockout
+   */
+  releaseBlock(): void {
+    if (!this.blocking) return;
+
+    this.blocking = false;
+    this.parryWindowEnd = 0;
+    this.lockoutUntil = Date.now() + BLOCK_CONFIG.RELEASE_LOCKOUT;
+    this.dispatchChange();
+  }
+
+  isBlocking(): boolean {
+    return this.blocking;
+  }
+
+  isParrying(): boolean {
+    return this.blocking && Date.now() < this.parryWindowEnd;
+  }
+
+  getDefenseStance(): DefenseStance {
+    if (this.isParrying()) return 'parry';
+    return this.blocking ? 'block' : 'none';
+  }
+
+  /**
+   * How long the current block has been held (ms), 0 when not blocking
+   */
+  getHeldDuration(): number {
+    return this.blocking ? Date.now() - this.blockStartTime : 0;
+  }
+
+  getLockoutRemaining(): number {
+    return Math.max(0, this.lockoutUntil - Date.now());
+  }
+
+  getParryCooldownRemaining(): number {
+    return Math.max(0, this.parryCooldownUntil - Date.now());
+  }
+
+  /**
+   * Drop the block without a lockout (respawn)
+   */
+  reset(): void {
+    const wasBlocking = this.blocking;
+    this.blocking = false;
+    this.lockoutUntil = 0;
+    this.parryWindowEnd = 0;
+    this.parryCooldownUntil = 0;
+    if (wasBlocking) {
+      this.dispatchChange();
+    }
+  }
+
+  private dispatchChange(): void {
+    console.log(this.blocking ? '🛡️ Blocking' : '🛡️ Block released');
+    gameEvents.emit('blockStateChanged', { isBlocking: this.blocking, isParrying: this.isParrying() });
+  }
+}
@@ -4,6 +4,7 @@ import { TargetDummy } from './TargetDummy';
 import type { MeleeCombat } from './MeleeCombat';
 import type { MeleeTarget } from './MeleeCombat';
 import { RacingTargetDummy, type SpeedBoostConfig } from '../data/DummyLoader';
+import { gameEvents } from '../systems/GameEvents';
 
 interface DummyPlacementData {
   position: THREE.Vector3;
@@ -23,6 +24,7 @@ export class DummyPlacementManager {
   private previewMesh?: THREE.Mesh;
   private placementMode = false;
   private editMode = false; // New edit mode for working with all dummies
+  private keyBindings = new AbortController();
   
   // Speed boost configuration for placed dummies
   private speedBoostConfig: SpeedBoostConfig = {
@@ -96,7 +98,7 @@ export class DummyPlacementManager {
           this.placeDummy();
         }
       }
-    });
+    }, { signal: this.keyBindings.signal });
   }
 
   private createPreviewMesh(): void {
@@ -298,9 +300,7 @@ export class DummyPlacementManager {
     }
     
     // Update UI
-    window.dispatchEvent(new CustomEvent('dummyEditModeChanged', {
-      detail: { enabled: this.editMode }
-    }));
+    gameEvents.emit('dummyEditModeChanged', { enabled: this.editMode });
   }
 
   private togglePreviewMode(): void {
@@ -313,9 +313,7 @@ export class DummyPlacementManager {
     console.log(`🔍 Preview mode ${this.placementMode ? 'ON' : 'OFF'}`);
     
     // Update UI
-    window.dispatchEvent(new CustomEvent('dummyPreviewModeChanged', {
-      detail: { enabled: this.placementMode }
-    }));
+    gameEvents.emit('dummyPreviewModeChanged', { enabled: this.placementMode });
   }
 
   private showPlacementFeedback(position: THREE.Vector3): void {
@@ -374,6 +372,8 @@ export class DummyPlacementManager {
    * Clean up all resources when destroying the placement manager
    */
   destroy(): void {
+    this.keyBindings.abort();
+    
     // Clean up all placed dummies
     this.placedDummies.forEach(dummyData => {
       this.meleeCombat.removeTarget(dummyData.id);
@@ -389,8 +389,8 @@ export class DummyPlacementManager {
       this.previewMesh = undefined;
     }
 
-    // Clear loaded dummies reference (don't destroy them, they're owned by DummyLoader)
-    this.loadedDummies.length = 0;
+    // Drop the loaded dummies reference (don't destroy or empty it, the array is DummyLoader's)
+    this.loadedDummies = [];
 
     console.log('🧹 DummyPlacementManager cleaned up - all resources disposed');
   }
@@ -399,11 +399,9 @@ export class DummyPlacementManager {
    * Update UI with current dummy count
    */
   private updateDummyCount(): void {
-    window.dispatchEvent(new CustomEvent('dummyCountChanged', {
-      detail: {
-        loaded: this.loadedDummies.length,
-        placed: this.placedDummies.length
-      }
-    }));
+    gameEvents.emit('dummyCountChanged', {
+      loaded: this.loadedDummies.length,
+      placed: this.placedDummies.length
+    });
   }
 }
\ No newline at end of file
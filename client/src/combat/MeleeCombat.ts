@@ -2,36 +2,27 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import type { PlayerClass } from '../kits/classKit';
 import { getCurrentPlayerKit } from '../kits/classKit';
+import {
+  COMBAT_CONFIG,
+  findMeleeHits,
+  resolveAttackParameters,
+  resolveDefense,
+  PARRY_CONFIG,
+  type AttackContext,
+  type AttackParameters,
+  type DefenseStance
+} from '../../../shared/combat';
+import { gameEvents } from '../systems/GameEvents';
 
-// Combat constants from PRD
-export const COMBAT_CONFIG = {
-  BASE_RANGE: 3.6, // meters (doubled from 1.8m)
-  BASE_CONE_ANGLE: 120, // degrees - increased from 90° for more generous hits
-  MELEE_COOLDOWN: 500, // milliseconds (0.5s)
-  
-  // Class damage values
-  DAMAGE: {
-    blast: 60,
-    grapple: 25, // Base damage (can crit to 70)
-    blink: 30    // Base damage (bonus +20 = 50 total) - reduced from 40
-  },
-  
-  // Class modifiers
-  BLAST_RANGE_MULTIPLIER: 1.25,
-  GRAPPLE_CRIT_DAMAGE: 70, // Increased from 60
-  GRAPPLE_CRIT_WINDOW: 500, // 0.5s after grapple detach
-  BLINK_BONUS_DAMAGE: 20, // Increased from 15 (+20 = 50 total)
-  BLINK_BONUS_WINDOW: 800, // 0.8s after blink
-  
-  // Knockback
-  KNOCKBACK_MULTIPLIER: 0.4
-} as const;
+export { COMBAT_CONFIG };
 
 export interface MeleeTarget {
   id: string;
   position: THREE.Vector3;
   rigidBody?: RAPIER.RigidBody;
+  // Receives the raw hit damage; targets apply their own block reduction
   takeDamage?: (damage: number, direction: THREE.Vector3) => void;
+  getDefenseStance?: () => DefenseStance;
   applyKnockback?: (force: number, direction: THREE.Vector3) => void;
   updateRangeIndicator?: (playerPosition: THREE.Vector3, range: number) => void;
 }
@@ -42,6 +33,7 @@ export class MeleeCombat {
   private playerBody: RAPIER.RigidBody;
   private lastMeleeTime = 0;
   private canMelee = true;
+  private staggeredUntil = 0; // set when our swing gets parried
   
   // For tracking ability timings for bonus damage
   private lastBlinkTime = 0;
@@ -50,6 +42,7 @@ export class MeleeCombat {
   
   // Test targets (for single player testing)
   private testTargets: Map<string, MeleeTarget> = new Map();
+  private events = gameEvents.scope();
 
   constructor(world: RAPIER.World, camera: THREE.Camera, playerBody: RAPIER.RigidBody) {
     this.world = world;
@@ -57,32 +50,30 @@ export class MeleeCombat {
     this.playerBody = playerBody;
     
     // Listen for ability events to track timing
-    window.addEventListener('abilityActivated', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      if (customEvent.detail.className === 'blink') {
+    this.events.on('abilityActivated', ({ className }) => {
+      if (className === 'blink') {
         this.lastBlinkTime = Date.now();
         console.log('⚡ Blink timestamp recorded for damage bonus');
       }
     });
     
     // Listen for grapple state changes
-    window.addEventListener('swingStateChanged', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.isSwingingState = customEvent.detail.isSwinging;
+    this.events.on('swingStateChanged', ({ isSwinging }) => {
+      this.isSwingingState = isSwinging;
       if (!this.isSwingingState) {
         this.lastGrappleDetachTime = Date.now();
         console.log('🪝 Grapple detach timestamp recorded for crit bonus');
       }
     });
     
-    window.addEventListener('grappleDetached', (_event: Event) => {
+    this.events.on('grappleDetached', () => {
       this.lastGrappleDetachTime = Date.now();
       this.isSwingingState = false;
       console.log('🪝 Grapple detach timestamp recorded for crit bonus');
     });
     
     // Listen for swing bottom events (if available)
-    window.addEventListener('grappleSwingBottom', (_event: Event) => {
+    this.events.on('grappleSwingBottom', () => {
       this.isAtSwingBottom = true;
       console.log('🪝 At swing bottom - grapple crit ready!');
       // Reset flag after a short window
@@ -92,6 +83,14 @@ export class MeleeCombat {
     });
   }
 
+  /**
+   * Drop the game event subscriptions and targets
+   */
+  dispose(): void {
+    this.events.dispose();
+    this.testTargets.clear();
+  }
+
   /**
    * Register a target that can be hit by melee attacks
    */
@@ -114,6 +113,12 @@ export class MeleeCombat {
   performMelee(playerVelocity?: THREE.Vector3): boolean {
     const now = Date.now();
     
+    // Parried attackers are staggered
+    if (now < this.staggeredUntil) {
+      console.log(`😵 Staggered (${this.staggeredUntil - now}ms remaining)`);
+      return false;
+    }
+    
     // Check cooldown
     if (!this.canMelee || (now - this.lastMeleeTime) < COMBAT_CONFIG.MELEE_COOLDOWN) {
       console.log('⏳ Melee on cooldown');
@@ -140,6 +145,13 @@ export class MeleeCombat {
       attackParams
     );
     
+    // Let the server re-check the swing against rewound player positions
+    gameEvents.emit('meleeSwing', {
+      origin: cameraPosition.clone(),
+      direction: cameraDirection.clone(),
+      context: this.getAttackContext(playerVelocity)
+    });
+    
     // Apply damage and effects to hit targets
     let totalHits = 0;
     for (const target of hitTargets) {
@@ -161,196 +173,85 @@ export class MeleeCombat {
   /**
    * Calculate attack parameters based on player class and state
    */
-  private calculateAttackParameters(className: PlayerClass, playerVelocity?: THREE.Vector3) {
-    let range = COMBAT_CONFIG.BASE_RANGE;
-    let coneAngle: number = COMBAT_CONFIG.BASE_CONE_ANGLE;
-    let damage: number = COMBAT_CONFIG.DAMAGE[className];
-    let is360Sweep = false;
+  private calculateAttackParameters(className: PlayerClass, playerVelocity?: THREE.Vector3): AttackParameters {
+    const context = this.getAttackContext(playerVelocity);
+    const params = resolveAttackParameters(className, context);
+    const speed = context.speed;
     
-    // Apply class-specific modifiers
+    // Feedback for class modifiers
     switch (className) {
       case 'blast':
-        // +25% range
-        range *= COMBAT_CONFIG.BLAST_RANGE_MULTIPLIER;
         console.log('🔥 Blast class: +25% range boost!');
         break;
         
-                      case 'grapple':
-          // Get velocity first for logging
-          const speed = playerVelocity ? Math.sqrt(playerVelocity.x * playerVelocity.x + playerVelocity.z * playerVelocity.z) : 0;
-          const fullSpeed = playerVelocity ? Math.sqrt(playerVelocity.x * playerVelocity.x + playerVelocity.y * playerVelocity.y + playerVelocity.z * playerVelocity.z) : 0;
-          
-          console.log(`🪝 Grapple attack - Speed: ${speed.toFixed(1)} m/s (3D: ${fullSpeed.toFixed(1)}), Velocity: (${playerVelocity?.x.toFixed(1) || 'N/A'}, ${playerVelocity?.y.toFixed(1) || 'N/A'}, ${playerVelocity?.z.toFixed(1) || 'N/A'}), Swinging: ${this.isSwingingState}, Recently detached: ${(Date.now() - this.lastGrappleDetachTime) < COMBAT_CONFIG.GRAPPLE_CRIT_WINDOW}`);
-          
-          // Add detailed velocity info to combat log
-          window.dispatchEvent(new CustomEvent('combatLogMessage', {
-            detail: { message: `🪝 Grapple - Speed: ${speed.toFixed(1)} m/s, Swinging: ${this.isSwingingState}` }
-          }));
-          
-          // Always use 360° sweep while grappling (much more generous)
-          if (this.isSwingingState) {
-            is360Sweep = true;
-            coneAngle = 360 as number;
-            
-            // Velocity-based damage for grapple
-            if (speed > 8.0) { // If moving fast while swinging
-              damage = COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE; // 70 HP
-              console.log(`🪝 VELOCITY CRIT! (${speed.toFixed(1)} m/s) - 70 HP`);
-              // Add to combat log
-              window.dispatchEvent(new CustomEvent('combatLogMessage', {
-                detail: { message: `🪝 VELOCITY CRIT! (${speed.toFixed(1)} m/s)` }
-              }));
-            } else if (speed > 4.0) { // Medium speed
-              damage = COMBAT_CONFIG.DAMAGE.grapple + 20; // 25 + 20 = 45
-              console.log(`🪝 Speed bonus (${speed.toFixed(1)} m/s) - 45 HP`);
-              // Add to combat log
-              window.dispatchEvent(new CustomEvent('combatLogMessage', {
-                detail: { message: `🪝 Speed bonus (${speed.toFixed(1)} m/s) - 45 HP` }
-              }));
-            } else {
-              console.log(`🪝 Slow swing (${speed.toFixed(1)} m/s) - 25 HP`);
-              // Add to combat log
-              window.dispatchEvent(new CustomEvent('combatLogMessage', {
-                detail: { message: `🪝 Slow swing (${speed.toFixed(1)} m/s) - 25 HP` }
-              }));
-            }
-            
-            console.log('🔄 Grapple 360° swing active!');
-          } else {
-            // Not swinging - check for recent detach bonus or just use velocity
-            const timeSinceGrappleDetach = Date.now() - this.lastGrappleDetachTime;
-            if (timeSinceGrappleDetach < COMBAT_CONFIG.GRAPPLE_CRIT_WINDOW) {
-              damage = COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE;
-              console.log(`🪝 POST-SWING CRIT! (${speed.toFixed(1)} m/s) - 70 HP`);
-              // Add to combat log
-              window.dispatchEvent(new CustomEvent('combatLogMessage', {
-                detail: { message: `🪝 POST-SWING CRIT! (${speed.toFixed(1)} m/s)` }
-              }));
-            } else if (speed > 6.0) {
-              // Even without swinging, reward high velocity
-              damage = COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE;
-              console.log(`🪝 HIGH VELOCITY! (${speed.toFixed(1)} m/s) - 70 HP`);
-              // Add to combat log
-              window.dispatchEvent(new CustomEvent('combatLogMessage', {
-                detail: { message: `🪝 HIGH VELOCITY! (${speed.toFixed(1)} m/s)` }
-              }));
-            } else {
-              console.log(`🪝 Ground attack (${speed.toFixed(1)} m/s) - 25 HP`);
-              // Add to combat log
-              window.dispatchEvent(new CustomEvent('combatLogMessage', {
-                detail: { message: `🪝 Ground attack (${speed.toFixed(1)} m/s) - 25 HP` }
-              }));
-            }
-          }
-          break;
-          
-        case 'blink':
-          // Check for bonus damage window
-          const timeSinceLastBlink = Date.now() - this.lastBlinkTime;
-          if (timeSinceLastBlink < COMBAT_CONFIG.BLINK_BONUS_WINDOW) {
-            damage += COMBAT_CONFIG.BLINK_BONUS_DAMAGE;
-            console.log('⚡ BLINK BONUS! (+20 HP = 50 total)');
-          }
-          break;
+      case 'grapple': {
+        const fullSpeed = playerVelocity ? playerVelocity.length() : 0;
+        console.log(`🪝 Grapple attack - Speed: ${speed.toFixed(1)} m/s (3D: ${fullSpeed.toFixed(1)}), Velocity: (${playerVelocity?.x.toFixed(1) || 'N/A'}, ${playerVelocity?.y.toFixed(1) || 'N/A'}, ${playerVelocity?.z.toFixed(1) || 'N/A'}), Swinging: ${this.isSwingingState}, Recently detached: ${context.msSinceGrappleDetach < COMBAT_CONFIG.GRAPPLE_CRIT_WINDOW}`);
+        
+        // Add detailed velocity info to combat log
+        gameEvents.emit('combatLogMessage', { message: `🪝 Grapple - Speed: ${speed.toFixed(1)} m/s, Swinging: ${this.isSwingingState}` });
+        
+        const grappleMessages: Partial<Record<NonNullable<AttackParameters['bonus']>, string>> = {
+          velocityCrit: `🪝 VELOCITY CRIT! (${speed.toFixed(1)} m/s)`,
+          speedBonus: `🪝 Speed bonus (${speed.toFixed(1)} m/s) - 45 HP`,
+          slowSwing: `🪝 Slow swing (${speed.toFixed(1)} m/s) - 25 HP`,
+          postSwingCrit: `🪝 POST-SWING CRIT! (${speed.toFixed(1)} m/s)`,
+          highVelocity: `🪝 HIGH VELOCITY! (${speed.toFixed(1)} m/s)`,
+          groundAttack: `🪝 Ground attack (${speed.toFixed(1)} m/s) - 25 HP`
+        };
+        const message = params.bonus ? grappleMessages[params.bonus] : undefined;
+        if (message) {
+          console.log(message);
+          gameEvents.emit('combatLogMessage', { message });
+        }
+        
+        if (params.is360Sweep) {
+          console.log('🔄 Grapple 360° swing active!');
+        }
+        break;
+      }
+        
+      case 'blink':
+        if (params.bonus === 'blinkBonus') {
+          console.log('⚡ BLINK BONUS! (+20 HP = 50 total)');
+        }
+        break;
     }
     
+    return params;
+  }
+
+  /**
+   * Attacker state used for class bonuses (also sent to the server for validation)
+   */
+  private getAttackContext(playerVelocity?: THREE.Vector3): AttackContext {
+    const now = Date.now();
     return {
-      range,
-      coneAngle,
-      damage,
-      is360Sweep,
-      className,
-      isCrit: (className === 'grapple' && damage >= COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE) || 
-              (className === 'grapple' && damage > COMBAT_CONFIG.DAMAGE.grapple + 15), // Include speed bonus as crit
-      isBonus: (className === 'blink' && damage > COMBAT_CONFIG.DAMAGE.blink)
+      speed: playerVelocity ? Math.sqrt(playerVelocity.x * playerVelocity.x + playerVelocity.z * playerVelocity.z) : 0,
+      isSwinging: this.isSwingingState,
+      msSinceGrappleDetach: now - this.lastGrappleDetachTime,
+      msSinceBlink: now - this.lastBlinkTime
     };
   }
 
   /**
-   * Perform hit detection using raycast cone sweep
+   * Perform hit detection using the shared cone sweep / 360° check
    */
   private performHitDetection(
     origin: THREE.Vector3,
     direction: THREE.Vector3,
     params: { range: number; coneAngle: number; is360Sweep: boolean }
   ): MeleeTarget[] {
-    const hitTargets: MeleeTarget[] = [];
+    const hitTargets = findMeleeHits(origin, direction, params, this.testTargets.values());
     
-    if (params.is360Sweep) {
-      // 360° sweep - check all targets within range
-      for (const target of this.testTargets.values()) {
-        const distance = origin.distanceTo(target.position);
-        if (distance <= params.range) {
-          console.log(`🎯 360° sweep hit: ${target.id} at ${distance.toFixed(2)}m`);
-          hitTargets.push(target);
-        }
-      }
-    } else {
-      // Cone sweep using multiple raycasts
-      const numRays = 7; // Increased from 5 for better coverage with larger cone
-      const halfAngle = (params.coneAngle * Math.PI / 180) / 2;
-      
-      for (let i = 0; i < numRays; i++) {
-        // Calculate ray direction within the cone
-        const angle = i === 0 ? 0 : ((i - 1) / (numRays - 2) - 0.5) * 2 * halfAngle;
-        
-        // Create ray direction by rotating around camera's up vector
-        const rayDirection = direction.clone();
-        const cameraUp = new THREE.Vector3(0, 1, 0);
-        rayDirection.applyAxisAngle(cameraUp, angle);
-        
-        // Perform raycast
-        this.performSingleRaycast(origin, rayDirection, params.range, hitTargets);
-      }
-      
-      // Additional horizontal spread rays
-      for (let i = 0; i < 5; i++) {
-        const angle = (i - 2) * halfAngle * 0.8; // Increased horizontal spread
-        const rayDirection = direction.clone();
-        const cameraRight = new THREE.Vector3();
-        this.camera.getWorldDirection(cameraRight);
-        cameraRight.cross(new THREE.Vector3(0, 1, 0));
-        rayDirection.applyAxisAngle(cameraRight, angle);
-        
-        this.performSingleRaycast(origin, rayDirection, params.range, hitTargets);
-      }
+    for (const target of hitTargets) {
+      const distance = origin.distanceTo(target.position);
+      console.log(`🎯 ${params.is360Sweep ? '360° sweep' : 'Raycast'} hit: ${target.id} at ${distance.toFixed(2)}m`);
     }
     
     return hitTargets;
   }
 
-  /**
-   * Perform a single raycast and check for target hits
-   */
-  private performSingleRaycast(
-    origin: THREE.Vector3,
-    direction: THREE.Vector3,
-    maxDistance: number,
-    hitTargets: MeleeTarget[]
-  ): void {
-    // For now, we'll use distance-based detection with test targets
-    // In multiplayer, this would use Rapier raycasting
-    
-    for (const target of this.testTargets.values()) {
-      if (hitTargets.includes(target)) continue; // Already hit
-      
-      // Calculate if target is within the ray's effective area
-      const toTarget = target.position.clone().sub(origin);
-      const distance = toTarget.length();
-      
-      if (distance > maxDistance) continue;
-      
-      // Check if target is roughly in the ray direction (within cone)
-      const dotProduct = toTarget.normalize().dot(direction);
-      const angleThreshold = Math.cos(Math.PI / 8); // ~22.5 degrees tolerance
-      
-      if (dotProduct > angleThreshold) {
-        console.log(`🎯 Raycast hit: ${target.id} (distance: ${distance.toFixed(2)}m, dot: ${dotProduct.toFixed(2)})`);
-        hitTargets.push(target);
-      }
-    }
-  }
-
   /**
    * Apply damage and knockback to a target
    */
@@ -359,21 +260,41 @@ export class MeleeCombat {
     attackParams: { damage: number; className: PlayerClass; isCrit?: boolean; isBonus?: boolean },
     attackDirection: THREE.Vector3
   ): void {
-    const damage = attackParams.damage;
-    const knockbackForce = damage * COMBAT_CONFIG.KNOCKBACK_MULTIPLIER;
+    // Blocking defenders take reduced damage and half knockback; parries nullify the hit
+    const defense = resolveDefense(
+      attackParams.damage,
+      attackParams.damage * COMBAT_CONFIG.KNOCKBACK_MULTIPLIER,
+      target.getDefenseStance?.() ?? 'none'
+    );
+    const damage = defense.damage;
+    const knockbackForce = defense.knockbackForce;
+    
+    if (defense.parried) {
+      console.log(`🛡️ PARRIED by ${target.id}!`);
+      this.stagger(PARRY_CONFIG.STAGGER_DURATION);
+      gameEvents.emit('parry', { defenderId: target.id, isLocalDefender: false, isLocalAttacker: true });
+      this.triggerSpecialHitFeedback('staggered');
+      
+      // Raw damage still goes to the target so it can play its own parry reaction
+      target.takeDamage?.(attackParams.damage, attackDirection);
+      return;
+    }
     
     // Generate appropriate log message
     let logMessage = `🗡️ Melee hit ${target.id} for ${damage} HP`;
-    if (attackParams.isCrit) {
+    if (defense.blocked) {
+      logMessage = `🛡️ BLOCKED! ${target.id} took ${damage} HP`;
+      gameEvents.emit('combatLogMessage', { message: `🛡️ ${target.id} blocked (${attackParams.damage} → ${damage} HP)` });
+    } else if (attackParams.isCrit) {
       logMessage = `🪝 GRAPPLE CRIT! Hit ${target.id} for ${damage} HP`;
     } else if (attackParams.isBonus) {
       logMessage = `⚡ BONUS HIT! Hit ${target.id} for ${damage} HP`;
     }
     console.log(logMessage);
     
-    // Apply damage
+    // Apply raw damage - the target applies its own block reduction
     if (target.takeDamage) {
-      target.takeDamage(damage, attackDirection);
+      target.takeDamage(attackParams.damage, attackDirection);
     }
     
     // Apply knockback
@@ -382,36 +303,45 @@ export class MeleeCombat {
     }
     
     // Trigger visual feedback for special hits
-    if (attackParams.isCrit || attackParams.isBonus) {
+    if (!defense.blocked && (attackParams.isCrit || attackParams.isBonus)) {
       this.triggerSpecialHitFeedback(attackParams.isCrit ? 'crit' : 'bonus');
     }
     
     // Dispatch hit event for effects/UI
-    window.dispatchEvent(new CustomEvent('meleeHit', {
-      detail: {
-        targetId: target.id,
-        damage,
-        className: attackParams.className,
-        knockbackForce,
-        direction: attackDirection,
-        isCrit: attackParams.isCrit || false,
-        isBonus: attackParams.isBonus || false
-      }
-    }));
+    gameEvents.emit('meleeHit', {
+      targetId: target.id,
+      damage,
+      className: attackParams.className,
+      knockbackForce,
+      direction: attackDirection,
+      isCrit: attackParams.isCrit || false,
+      isBonus: attackParams.isBonus || false,
+      isBlocked: defense.blocked
+    });
   }
   
   /**
    * Trigger visual feedback for special hits
    */
-  private triggerSpecialHitFeedback(type: 'crit' | 'bonus'): void {
+  private triggerSpecialHitFeedback(type: 'crit' | 'bonus' | 'staggered'): void {
     // Dispatch screen effect event
-    window.dispatchEvent(new CustomEvent('specialHitEffect', {
-      detail: { type, timestamp: Date.now() }
-    }));
+    gameEvents.emit('specialHitEffect', { type, timestamp: Date.now() });
     
     console.log(`💥 Special hit feedback: ${type.toUpperCase()}`);
   }
 
+  /**
+   * Lock out melee after being parried (local prediction or server confirmation)
+   */
+  stagger(duration: number): void {
+    this.staggeredUntil = Math.max(this.staggeredUntil, Date.now() + duration);
+    console.log(`😵 Staggered for ${duration}ms`);
+  }
+  
+  isStaggered(): boolean {
+    return Date.now() < this.staggeredUntil;
+  }
+
   /**
    * Check if the player is currently swinging
    */
@@ -1,6 +1,8 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import type { MeleeTarget } from './MeleeCombat';
+import { resolveDefense, type DefenseStance } from '../../../shared/combat';
+import { gameEvents } from '../systems/GameEvents';
 
 export class TargetDummy implements MeleeTarget {
   public id: string;
@@ -13,6 +15,8 @@ export class TargetDummy implements MeleeTarget {
   private maxHealth = 100;
   private currentHealth = 100;
   private respawnTimer?: number;
+  private defenseStance: DefenseStance = 'none';
+  private shieldMesh?: THREE.Mesh;
   
   // Visual effects
   private damageFlashTimer?: number;
@@ -115,9 +119,16 @@ export class TargetDummy implements MeleeTarget {
    * Handle taking damage from melee attacks
    */
   takeDamage(damage: number, _direction: THREE.Vector3): void {
-    this.currentHealth -= damage;
+    const defense = resolveDefense(damage, 0, this.defenseStance);
+    if (defense.parried) {
+      console.log(`🛡️ Dummy ${this.id} parried the hit!`);
+      this.flashShield();
+      return;
+    }
+    
+    this.currentHealth -= defense.damage;
     
-    console.log(`🎯 Dummy ${this.id} took ${damage} damage (${this.currentHealth}/${this.maxHealth} HP remaining)`);
+    console.log(`🎯 Dummy ${this.id} took ${defense.damage} damage${defense.blocked ? ' (blocked)' : ''} (${this.currentHealth}/${this.maxHealth} HP remaining)`);
     
     // Visual damage feedback
     this.flashDamage();
@@ -128,6 +139,48 @@ export class TargetDummy implements MeleeTarget {
     }
   }
 
+  getDefenseStance(): DefenseStance {
+    return this.defenseStance;
+  }
+  
+  /**
+   * Put the dummy in a block or parry stance (for testing block/parry)
+   */
+  setDefenseStance(stance: DefenseStance): void {
+    this.defenseStance = stance;
+    
+    if (stance !== 'none' && !this.shieldMesh) {
+      const shieldGeometry = new THREE.CircleGeometry(0.6, 16);
+      const shieldMaterial = new THREE.MeshBasicMaterial({
+        color: 0x66ccff,
+        transparent: true,
+        opacity: 0.5,
+        side: THREE.DoubleSide
+      });
+      this.shieldMesh = new THREE.Mesh(shieldGeometry, shieldMaterial);
+      this.shieldMesh.position.set(0, 0.3, 0.7);
+      this.mesh.add(this.shieldMesh);
+    }
+    
+    if (this.shieldMesh) {
+      this.shieldMesh.visible = stance !== 'none';
+      (this.shieldMesh.material as THREE.MeshBasicMaterial).color.setHex(stance === 'parry' ? 0xffffff : 0x66ccff);
+    }
+  }
+  
+  /**
+   * Brief shield flash on a successful parry
+   */
+  private flashShield(): void {
+    if (!this.shieldMesh) return;
+    
+    const material = this.shieldMesh.material as THREE.MeshBasicMaterial;
+    material.opacity = 1.0;
+    window.setTimeout(() => {
+      material.opacity = 0.5;
+    }, 150);
+  }
+
   /**
    * Handle knockback effects
    */
@@ -172,6 +225,8 @@ export class TargetDummy implements MeleeTarget {
   private triggerKO(): void {
     console.log(`💀 Dummy ${this.id} KO'd! Respawning in 3 seconds...`);
     
+    gameEvents.emit('dummyKO', { id: this.id });
+    
     // Visual KO effect - make it very obvious
     const material = this.mesh.material as THREE.MeshStandardMaterial;
     material.color.setHex(0x222222); // Very dark
@@ -284,6 +339,11 @@ export class TargetDummy implements MeleeTarget {
     this.scene.remove(this.mesh);
     this.world.removeRigidBody(this.rigidBody);
     
+    if (this.shieldMesh) {
+      this.shieldMesh.geometry.dispose();
+      (this.shieldMesh.material as THREE.Material).dispose();
+    }
+    
     // Clean up range indicator
     if (this.rangeIndicator) {
       this.scene.remove(this.rangeIndicator);
@@ -1,17 +1,48 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
-import { SPAWN_POS } from './track/ExternalTrack';
+import type { TrackKillzone, TrackSpawnPoint } from './track/TrackManifest';
 import { CheckpointSystem } from './systems/CheckpointSystem';
+import {
+  ClientPrediction,
+  cloneMovementState,
+  type InputCommand,
+  type MovementState,
+  type PredictedController
+} from './net/ClientPrediction';
+import { BlockState } from './combat/BlockState';
+import { BLOCK_CONFIG } from '../../shared/combat';
+import { SpeedModifierStack, SPEED_MODIFIERS, type SpeedModifierSpec } from './systems/SpeedModifiers';
+import { gameEvents, type BlastImpulse, type BlinkMomentum, type SwingRelease } from './systems/GameEvents';
 
-export class FirstPersonController {
+/**
+ * Who drives the controller: the local player (keyboard, mouse and the kits' game events)
+ * or a bot (scripted commands and direct calls, nothing global)
+ */
+export type ControllerDriver = 'player' | 'bot';
+
+export class FirstPersonController implements PredictedController {
+  private driver: ControllerDriver;
   private camera: THREE.Camera;
   private playerBody: RAPIER.RigidBody;
   private controller: RAPIER.KinematicCharacterController;
   private world: RAPIER.World; // Used for physics queries
   private checkpointSystem: CheckpointSystem | null = null;
   
-  // Killzone detection
+  // Killzone detection (rules come from the track manifest)
   private timeInVoid = 0;
+  private killzone: TrackKillzone = {
+    minY: -5,
+    voidY: 1.5,
+    voidTime: 1.0,
+    voidTrackingY: 1.8,
+    emergencyY: 0.8,
+    maxRadius: 200,
+    maxRadiusMinY: 2.0
+  };
+  
+  // Fallback respawn when no checkpoint system is attached
+  private spawnPosition = new THREE.Vector3(0, 2.0, 0);
+  private spawnYaw = 0;
   
   // Movement state
   private keys: { [key: string]: boolean } = {};
@@ -29,11 +60,9 @@ export class FirstPersonController {
   private isBlinkMomentum = false; // Track if current speed boost is from blink
   private blinkMomentumSpeed = 0; // Store the blink momentum speed
   
-  // Speed boost system
+  // Speed boost system - every timed top-speed bonus goes through the modifier stack
   private baseMoveSpeed = 18.0; // Original move speed
-  private isSpeedBoosted = false;
-  private speedBoostEndTime = 0;
-  private currentMoveSpeed = 18.0;
+  private speedModifiers = new SpeedModifierStack();
   
   // Mouse look
   private euler = new THREE.Euler(0, 0, 0, 'YXZ');
@@ -53,47 +82,91 @@ export class FirstPersonController {
   // Momentum preservation for airborne movement
   private preservedMomentum = new THREE.Vector3(); // World-space momentum vector
   
+  // Client-side prediction history for server reconciliation
+  private prediction = new ClientPrediction();
+  private respawnCount = 0;
+  
+  // Hold-to-block (RMB)
+  private blockState = new BlockState();
+  
+  // Race countdown: look around but don't move
+  private inputLocked = false;
+  
+  // Input replay: recorded commands replace the keyboard and mouse
+  private replaying = false;
+  private replayCommand: InputCommand | null = null;
+  private replayRespawnPosition: THREE.Vector3 | null = null;
+  private lastCommand: InputCommand | null = null;
+  
+  // Game event subscriptions and keyboard/mouse listeners, released in dispose()
+  private events = gameEvents.scope();
+  private domListeners = new AbortController();
+  
   constructor(
     camera: THREE.Camera,
     playerBody: RAPIER.RigidBody,
     controller: RAPIER.KinematicCharacterController,
-    world: RAPIER.World
+    world: RAPIER.World,
+    driver: ControllerDriver = 'player'
   ) {
+    this.driver = driver;
     this.camera = camera;
     this.playerBody = playerBody;
     this.controller = controller;
-    this.world = world; // May be used for future physics queries
+    this.world = world;
+    
+    // Bots get their commands and ability impulses from their own kit
+    if (driver === 'bot') return;
     
     this.setupEventListeners();
     this.setupSwingStateListener();
 
     // Listen for blast impulse events
-    window.addEventListener('blastImpulse', (event: Event) => {
-      this.handleBlastImpulse((event as CustomEvent).detail);
+    this.events.on('blastImpulse', impulse => {
+      this.applyBlastImpulse(impulse);
     });
     
-    // Listen for speed boost events from racing dummies
-    window.addEventListener('speedBoostGranted', (event: Event) => {
-      this.handleSpeedBoost((event as CustomEvent).detail);
+    // Listen for speed modifiers (racing dummies, KO rewards, pads)
+    this.events.on('speedModifierGranted', spec => {
+      if (this.replaying) return; // replays apply the recorded modifiers
+      this.addSpeedModifier(spec);
+    });
+    
+    // Slipstream is an untimed modifier held while drafting
+    this.events.on('slipstreamChanged', ({ active }) => {
+      if (this.replaying) return;
+      if (active) {
+        this.addSpeedModifier(SPEED_MODIFIERS.SLIPSTREAM);
+      } else {
+        this.speedModifiers.remove(SPEED_MODIFIERS.SLIPSTREAM.source);
+      }
     });
     
     console.log('FirstPersonController initialized with pointer lock');
   }
   
   private setupEventListeners() {
+    const { signal } = this.domListeners;
+    
     // Keyboard events
     document.addEventListener('keydown', (e) => {
       this.keys[e.code] = true;
       
       // Special keys
-      if (e.code === 'KeyR') {
-        this.reset();
+      if (e.code === 'KeyR' && !this.replaying) {
+        this.reset('manual');
       }
-    });
+    }, { signal });
     
     document.addEventListener('keyup', (e) => {
       this.keys[e.code] = false;
-    });
+    }, { signal });
+    
+    document.addEventListener('mouseup', (e) => {
+      if (e.button === 2) {
+        this.blockState.releaseBlock();
+      }
+    }, { signal });
     
     // Mouse button events for melee combat
     document.addEventListener('mousedown', (e) => {
@@ -101,25 +174,23 @@ export class FirstPersonController {
       
       if (e.button === 0) { // Left mouse button (LMB)
         // Dispatch melee attack event
-        window.dispatchEvent(new CustomEvent('meleeAttack', {
-          detail: { timestamp: Date.now() }
-        }));
+        gameEvents.emit('meleeAttack', { timestamp: Date.now() });
       } else if (e.button === 2) { // Right mouse button (RMB)
-        // Future: blocking functionality
-        console.log('🛡️ RMB pressed (blocking not yet implemented)');
+        // Hold to block
+        this.blockState.startBlock();
       }
-    });
+    }, { signal });
     
     // Prevent context menu on right click
     document.addEventListener('contextmenu', (e) => {
       if (this.isPointerLocked) {
         e.preventDefault();
       }
-    });
+    }, { signal });
     
     // Simple, responsive mouse events with safety bounds
     document.addEventListener('mousemove', (e) => {
-      if (this.isPointerLocked) {
+      if (this.isPointerLocked && !this.replaying) {
         // Add bounds checking to prevent extreme values that could cause glitches
         const deltaX = Math.max(-0.5, Math.min(0.5, e.movementX * this.mouseSensitivity));
         const deltaY = Math.max(-0.5, Math.min(0.5, e.movementY * this.mouseSensitivity));
@@ -133,28 +204,33 @@ export class FirstPersonController {
         // Normalize yaw to prevent accumulation issues
         this.yaw = this.yaw % (2 * Math.PI);
       }
-    });
+    }, { signal });
     
     // Pointer lock
     document.addEventListener('click', () => {
       if (!this.isPointerLocked) {
         document.body.requestPointerLock();
       }
-    });
+    }, { signal });
     
     document.addEventListener('pointerlockchange', () => {
       this.isPointerLocked = document.pointerLockElement === document.body;
-    });
+      
+      // Losing pointer lock swallows the RMB release
+      if (!this.isPointerLocked) {
+        this.blockState.releaseBlock();
+      }
+    }, { signal });
     
     // Ability events
-    window.addEventListener('blastSelfImpulse', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.handleBlastImpulse(customEvent.detail);
+    this.events.on('blastSelfImpulse', impulse => {
+      // Rockets also push bots; only take the ones that hit our own body
+      if (impulse.bodyHandle !== undefined && impulse.bodyHandle !== this.playerBody.handle) return;
+      this.applyBlastImpulse(impulse);
     });
     
-    window.addEventListener('blinkMomentumImpulse', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.handleBlinkMomentumImpulse(customEvent.detail);
+    this.events.on('blinkMomentumImpulse', momentum => {
+      this.applyBlinkMomentum(momentum);
     });
   }
   
@@ -162,23 +238,36 @@ export class FirstPersonController {
   
   private setupSwingStateListener() {
     // Listen for swing state changes from grapple ability
-    window.addEventListener('swingStateChanged', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.isSwinging = customEvent.detail.isSwinging;
+    this.events.on('swingStateChanged', ({ isSwinging }) => {
+      this.isSwinging = isSwinging;
       console.log(`🎯 CONTROLLER: Swing state changed - isSwinging: ${this.isSwinging}`);
     });
     
     // Listen for swing release momentum preservation
-    window.addEventListener('swingReleaseImpulse', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.handleSwingReleaseMomentum(customEvent.detail);
+    this.events.on('swingReleaseImpulse', release => {
+      this.applySwingRelease(release);
     });
   }
   
+  /**
+   * Swing state for a bot's grapple (the player's arrives through swingStateChanged)
+   */
+  setSwinging(isSwinging: boolean): void {
+    this.isSwinging = isSwinging;
+  }
+
+  /**
+   * Drop the game event subscriptions and input listeners (the controller is being replaced)
+   */
+  dispose(): void {
+    this.events.dispose();
+    this.domListeners.abort();
+  }
+  
   /**
    * Handle swing release momentum preservation - similar to blast momentum
    */
-  private handleSwingReleaseMomentum(data: any): void {
+  applySwingRelease(data: SwingRelease): void {
     // Safety check: ignore swing momentum if we're not actually swinging
     // This prevents race conditions after respawn
     if (!this.isSwinging) {
@@ -214,7 +303,7 @@ export class FirstPersonController {
   /**
    * Handle blink momentum impulse for smooth post-teleport movement
    */
-  private handleBlinkMomentumImpulse(data: any): void {
+  applyBlinkMomentum(data: BlinkMomentum): void {
     const impulse = data.impulse; // THREE.Vector3 forward momentum
     const _blinkDirection = data.blinkDirection;
     const _distance = data.distance;
@@ -252,10 +341,37 @@ export class FirstPersonController {
     }
   }
   
+  /**
+   * Apply melee knockback from another player (server confirmed hit)
+   */
+  applyKnockback(force: number, direction: { x: number; y: number; z: number }): void {
+    const push = new THREE.Vector3(direction.x, 0, direction.z);
+    if (push.lengthSq() < 1e-6) return;
+    push.normalize().multiplyScalar(force);
+    
+    // Combine with current horizontal motion so hits redirect rather than stop you
+    const horizontalVelocity = this.direction.clone().multiplyScalar(this.currentSpeed).add(push);
+    const horizontalSpeed = horizontalVelocity.length();
+    if (horizontalSpeed > 0.1) {
+      this.direction.copy(horizontalVelocity.normalize());
+      this.currentSpeed = horizontalSpeed;
+      
+      // Rocket jump state keeps the knockback from being capped back to max speed
+      this.isRocketJumping = true;
+      this.rocketJumpSpeed = horizontalSpeed;
+    }
+    
+    // Small pop so grounded players actually get launched
+    this.velocity.y = Math.max(this.velocity.y, 0) + force * 0.3;
+    this.isGrounded = false;
+    
+    console.log(`💥 Knocked back ${force.toFixed(1)} m/s`);
+  }
+  
   /**
    * Handle blast impulse from blast ability - 3D Directional Rocket Jumping
    */
-  private handleBlastImpulse(data: any): void {
+  applyBlastImpulse(data: BlastImpulse): void {
     const impulse = data.impulse;
     const _explosionPos = data.explosionPosition;
     const _distance = data.distance;
@@ -334,46 +450,41 @@ export class FirstPersonController {
   }
   
   /**
-   * Handle speed boost from racing dummies
+   * Add a timed top-speed modifier
    */
-  private handleSpeedBoost(data: any): void {
-    const { fromVelocity, toVelocity, duration, damage, source } = data;
-    
-    // Apply speed boost
-    this.currentMoveSpeed = toVelocity;
-    this.moveSpeed = toVelocity; // Update actual moveSpeed used in movement calculations
-    this.isSpeedBoosted = true;
-    this.speedBoostEndTime = Date.now() + duration;
+  addSpeedModifier(spec: SpeedModifierSpec): void {
+    const wasBoosted = !this.speedModifiers.isEmpty();
+    this.speedModifiers.add(spec);
     
-    console.log(`🏎️ SPEED BOOST ACTIVE! ${fromVelocity}→${toVelocity} m/s for ${(duration/1000).toFixed(1)}s (${damage} damage from ${source})`);
+    console.log(`🏎️ SPEED MODIFIER: ${spec.source} ${spec.kind === 'additive' ? `+${spec.value} m/s` : `+${Math.round(spec.value * 100)}%`} (${spec.decay}${isFinite(spec.duration) ? `, ${(spec.duration / 1000).toFixed(1)}s` : ''})`);
     
     // Visual feedback - dispatch event for UI
-    window.dispatchEvent(new CustomEvent('speedBoostActive', {
-      detail: { 
-        fromSpeed: fromVelocity, 
-        toSpeed: toVelocity, 
-        duration: duration,
-        damage: damage 
-      }
-    }));
+    if (this.driver === 'bot') return;
+    gameEvents.emit('speedBoostActive', { 
+      fromSpeed: this.baseMoveSpeed, 
+      toSpeed: Math.round(this.speedModifiers.apply(this.baseMoveSpeed)),
+      duration: spec.duration,
+      source: spec.source,
+      wasBoosted
+    });
   }
 
   /**
-   * Update speed boost state (call this in update loop)
+   * Drop every modifier from a source (replays re-applying a recorded slipstream release)
+   */
+  removeSpeedModifier(source: string): void {
+    this.speedModifiers.remove(source);
+  }
+
+  /**
+   * Expire timed modifiers (call this in update loop)
    */
   private updateSpeedBoost(): void {
-    if (this.isSpeedBoosted && Date.now() >= this.speedBoostEndTime) {
-      // Speed boost expired
-      this.isSpeedBoosted = false;
-      this.currentMoveSpeed = this.baseMoveSpeed;
-      this.moveSpeed = this.baseMoveSpeed;
-      
+    if (this.speedModifiers.prune() && this.speedModifiers.isEmpty() && this.driver === 'player') {
       console.log(`⏰ Speed boost expired - back to ${this.baseMoveSpeed} m/s`);
       
       // Dispatch speed boost end event
-      window.dispatchEvent(new CustomEvent('speedBoostEnded', {
-        detail: { normalSpeed: this.baseMoveSpeed }
-      }));
+      gameEvents.emit('speedBoostEnded', { normalSpeed: this.baseMoveSpeed });
     }
   }
   
@@ -394,16 +505,60 @@ export class FirstPersonController {
       return; // Skip rest of update to avoid processing movement
     }
     
+    // Sample input, predict locally and remember the step for reconciliation
+    const command = this.sampleInput(deltaTime);
+    this.lastCommand = command;
+    this.simulate(command);
+    this.prediction.record(command, this.getMovementState());
+    
+    this.updateCamera(deltaTime);
+  }
+  
+  /**
+   * Build a sequenced input command from the current key and mouse state
+   */
+  private sampleInput(deltaTime: number): InputCommand {
+    if ((this.replaying || this.driver === 'bot') && this.replayCommand) {
+      // Look where the recording (or bot) looked so the camera and abilities aim the same way
+      this.yaw = this.replayCommand.yaw;
+      this.pitch = this.replayCommand.pitch;
+      return { ...this.replayCommand, seq: this.prediction.nextSequence(), deltaTime };
+    }
+    
+    const canMove = !this.inputLocked;
+    return {
+      seq: this.prediction.nextSequence(),
+      deltaTime,
+      forward: canMove && !!this.keys['KeyW'],
+      back: canMove && !!this.keys['KeyS'],
+      left: canMove && !!this.keys['KeyA'],
+      right: canMove && !!this.keys['KeyD'],
+      jump: canMove && !!this.keys['Space'],
+      slide: canMove && !!(this.keys['ShiftLeft'] || this.keys['ShiftRight']),
+      block: canMove && this.blockState.isBlocking(),
+      yaw: this.yaw,
+      pitch: this.pitch
+    };
+  }
+  
+  /**
+   * Advance movement by one input command against the KinematicCharacterController.
+   * Used both for live prediction and for replaying inputs after a server correction.
+   */
+  simulate(command: InputCommand): void {
+    const deltaTime = command.deltaTime;
+    const translation = this.playerBody.translation();
+    
     // Check slide state
-    this.isSliding = this.keys['ShiftLeft'] || this.keys['ShiftRight'];
+    this.isSliding = command.slide;
     
     // Calculate movement direction based on camera rotation
     const inputDirection = new THREE.Vector3(0, 0, 0);
     
-    if (this.keys['KeyW']) inputDirection.z -= 1;
-    if (this.keys['KeyS']) inputDirection.z += 1;
-    if (this.keys['KeyA']) inputDirection.x -= 1;
-    if (this.keys['KeyD']) inputDirection.x += 1;
+    if (command.forward) inputDirection.z -= 1;
+    if (command.back) inputDirection.z += 1;
+    if (command.left) inputDirection.x -= 1;
+    if (command.right) inputDirection.x += 1;
     
         // Handle direction and input
     const hasInput = inputDirection.length() > 0;
@@ -415,7 +570,11 @@ export class FirstPersonController {
     }
     
     // Determine target speed based on current state
-    const normalTargetSpeed = this.isSliding ? this.slideSpeed : this.moveSpeed;
+    const blockSpeedMultiplier = command.block ? BLOCK_CONFIG.MOVE_SPEED_MULTIPLIER : 1;
+    const normalTargetSpeed = Math.min(
+      this.speedModifiers.apply(this.isSliding ? this.slideSpeed : this.moveSpeed) * blockSpeedMultiplier,
+      this.maxSpeed
+    );
     
     // Reset rocket jump state when grounded (return to normal speeds)
     if (this.isGrounded && this.isRocketJumping) {
@@ -468,7 +627,7 @@ export class FirstPersonController {
     }
     
     // Apply camera rotation to movement direction
-    this.euler.set(0, this.yaw, 0);
+    this.euler.set(0, command.yaw, 0);
     this.direction.applyEuler(this.euler);
     
     // Handle momentum preservation for airborne rocket jumping
@@ -538,13 +697,13 @@ export class FirstPersonController {
     this.velocity.y = Math.max(this.velocity.y, -50); // Higher terminal velocity
     
     // Handle jumping - only when grounded and not sliding
-    if (this.keys['Space'] && this.isGrounded && this.canJump && !this.isSliding) {
+    if (command.jump && this.isGrounded && this.canJump && !this.isSliding) {
       this.velocity.y = this.jumpVelocity;
       this.canJump = false;
     }
     
     // Reset jump ability when space is released
-    if (!this.keys['Space']) {
+    if (!command.jump) {
       this.canJump = true;
     }
     
@@ -570,15 +729,26 @@ export class FirstPersonController {
     
 
     
-    // Update rigid body position
+    // Update rigid body position; move the collider too so a replayed input right after collides from here
     this.playerBody.setTranslation(newPos, true);
-    
-    // Update camera position and rotation with safety checks
+    this.world.propagateModifiedBodyPositionsToColliders();
+  }
+  
+  /**
+   * Place the camera at the predicted position plus any decaying reconciliation error
+   */
+  private updateCamera(deltaTime: number): void {
+    const position = this.playerBody.translation();
+    const errorOffset = this.prediction.updateErrorOffset(deltaTime);
     const cameraHeight = this.isSliding ? 0.4 : 0.8; // Lower camera when sliding
     
     // Safety check: ensure position values are finite to prevent camera glitches
-    if (isFinite(newPos.x) && isFinite(newPos.y) && isFinite(newPos.z)) {
-      this.camera.position.set(newPos.x, newPos.y + cameraHeight, newPos.z);
+    if (isFinite(position.x) && isFinite(position.y) && isFinite(position.z)) {
+      this.camera.position.set(
+        position.x + errorOffset.x,
+        position.y + cameraHeight + errorOffset.y,
+        position.z + errorOffset.z
+      );
     } else {
       console.warn('⚠️ Invalid camera position detected, skipping update');
     }
@@ -601,24 +771,24 @@ export class FirstPersonController {
    */
   private checkKillzoneConditions(translation: RAPIER.Vector3): boolean {
     // Condition 1: Immediate respawn if fallen very far
-    if (translation.y < -5) {
+    if (translation.y < this.killzone.minY) {
       return true;
     }
     
     // Condition 2: FIXED - Direct void detection (below reasonable track level)
-    // If Y is below 1.5 and we've been there for more than 1 second, respawn
-    if (translation.y < 1.5 && this.timeInVoid > 1.0) {
+    // If Y is below voidY and we've been there for more than voidTime, respawn
+    if (translation.y < this.killzone.voidY && this.timeInVoid > this.killzone.voidTime) {
       return true;
     }
     
     // Condition 3: Emergency respawn if very low regardless of time
-    if (translation.y < 0.8) {
+    if (translation.y < this.killzone.emergencyY) {
       return true;
     }
     
     // Condition 4: Distance-based check (far from track center)
     const distanceFromCenter = Math.sqrt(translation.x * translation.x + translation.z * translation.z);
-    if (distanceFromCenter > 200 && translation.y < 2.0) {
+    if (distanceFromCenter > this.killzone.maxRadius && translation.y < this.killzone.maxRadiusMinY) {
       return true;
     }
     
@@ -633,7 +803,7 @@ export class FirstPersonController {
     
     // FIXED: Accumulate void time if Y is suspiciously low, regardless of grounded state
     // This handles cases where physics detects "grounded" in the void
-    if (translation.y < 1.8 || !this.isGrounded) {
+    if (translation.y < this.killzone.voidTrackingY || !this.isGrounded) {
       this.timeInVoid += deltaTime;
     } else {
       this.timeInVoid = 0;
@@ -664,6 +834,10 @@ export class FirstPersonController {
     return this.isGrounded;
   }
   
+  getIsSwinging(): boolean {
+    return this.isSwinging;
+  }
+  
   getIsSliding(): boolean {
     return this.isSliding;
   }
@@ -688,6 +862,83 @@ export class FirstPersonController {
     return this.blinkMomentumSpeed;
   }
   
+  /**
+   * Snapshot of the movement simulation state (for prediction history)
+   */
+  getMovementState(): MovementState {
+    const translation = this.playerBody.translation();
+    return cloneMovementState({
+      position: new THREE.Vector3(translation.x, translation.y, translation.z),
+      velocity: this.velocity,
+      direction: this.direction,
+      preservedMomentum: this.preservedMomentum,
+      currentSpeed: this.currentSpeed,
+      moveSpeed: this.moveSpeed,
+      isGrounded: this.isGrounded,
+      canJump: this.canJump,
+      isSliding: this.isSliding,
+      isRocketJumping: this.isRocketJumping,
+      rocketJumpSpeed: this.rocketJumpSpeed,
+      isBlinkMomentum: this.isBlinkMomentum,
+      blinkMomentumSpeed: this.blinkMomentumSpeed,
+      timeInVoid: this.timeInVoid
+    });
+  }
+  
+  /**
+   * Rewind the movement simulation to a previously captured state
+   */
+  setMovementState(state: MovementState): void {
+    this.playerBody.setTranslation({ x: state.position.x, y: state.position.y, z: state.position.z }, true);
+    this.world.propagateModifiedBodyPositionsToColliders(); // the replay collides before the next world step
+    this.velocity.copy(state.velocity);
+    this.direction.copy(state.direction);
+    this.preservedMomentum.copy(state.preservedMomentum);
+    this.currentSpeed = state.currentSpeed;
+    this.moveSpeed = state.moveSpeed;
+    this.isGrounded = state.isGrounded;
+    this.canJump = state.canJump;
+    this.isSliding = state.isSliding;
+    this.isRocketJumping = state.isRocketJumping;
+    this.rocketJumpSpeed = state.rocketJumpSpeed;
+    this.isBlinkMomentum = state.isBlinkMomentum;
+    this.blinkMomentumSpeed = state.blinkMomentumSpeed;
+    this.timeInVoid = state.timeInVoid;
+  }
+  
+  /**
+   * Apply an authoritative server position for an acknowledged input
+   */
+  reconcile(ackedInputSeq: number, serverPosition: { x: number; y: number; z: number }): boolean {
+    const corrected = this.prediction.reconcile(this, ackedInputSeq, serverPosition);
+    if (corrected) {
+      gameEvents.emit('movementCorrected', { state: this.getMovementState() });
+    }
+    return corrected;
+  }
+  
+  /**
+   * Sequence number of the most recently applied input command
+   */
+  getLastInputSequence(): number {
+    return this.prediction.getLastSequence();
+  }
+  
+  getSpeedModifiers(): SpeedModifierStack {
+    return this.speedModifiers;
+  }
+  
+  getBlockState(): BlockState {
+    return this.blockState;
+  }
+  
+  /**
+   * Incremented on every respawn so the server accepts the teleport
+   */
+  getRespawnCount(): number {
+    return this.respawnCount;
+  }
+  
   // Debug method
   getDebugInfo() {
     const translation = this.playerBody.translation();
@@ -710,25 +961,92 @@ export class FirstPersonController {
     this.checkpointSystem = checkpointSystem;
   }
   
-    reset() {
+  /**
+   * Track-specific spawn point and out-of-bounds rules
+   */
+  setTrackRules(spawnPoint: TrackSpawnPoint, killzone: TrackKillzone): void {
+    this.spawnPosition.set(spawnPoint.position.x, spawnPoint.position.y, spawnPoint.position.z);
+    this.spawnYaw = THREE.MathUtils.degToRad(spawnPoint.yaw);
+    this.killzone = { ...killzone };
+  }
+  
+  /**
+   * Freeze movement input (race countdown) - mouse look stays active
+   */
+  setInputLocked(locked: boolean): void {
+    this.inputLocked = locked;
+    if (locked) {
+      this.blockState.reset();
+    }
+  }
+  
+  isInputLocked(): boolean {
+    return this.inputLocked;
+  }
+  
+  /**
+   * Drive the controller from recorded commands instead of the keyboard and mouse
+   */
+  setReplayMode(active: boolean): void {
+    this.replaying = active;
+    this.replayCommand = null;
+    this.replayRespawnPosition = null;
+    // Modifiers don't carry across; the recording re-grants its own
+    this.speedModifiers.clear();
+  }
+  
+  isReplaying(): boolean {
+    return this.replaying;
+  }
+  
+  /**
+   * Command the next update() simulates while replaying (or driving a bot)
+   */
+  setReplayCommand(command: InputCommand): void {
+    this.replayCommand = command;
+  }
+  
+  /**
+   * Respawn point while replaying (checkpoints aren't re-detected, the recording tracks them)
+   */
+  setReplayRespawnPosition(position: THREE.Vector3): void {
+    this.replayRespawnPosition = position.clone();
+  }
+  
+  /**
+   * Input command simulated by the last update() (recorded for replays)
+   */
+  getLastCommand(): InputCommand | null {
+    return this.lastCommand;
+  }
+  
+  /**
+   * Point the camera (restoring the live view after a replay)
+   */
+  setLookAngles(yaw: number, pitch: number): void {
+    this.yaw = yaw;
+    this.pitch = pitch;
+  }
+  
+    reset(reason: 'out-of-bounds' | 'ko' | 'race-start' | 'manual' = 'out-of-bounds') {
     // Reset position to last checkpoint or spawn point
-    const respawnPosition = this.checkpointSystem 
-      ? this.checkpointSystem.getLastCheckpointPosition()
-      : SPAWN_POS;
+    const respawnPosition = this.replaying && this.replayRespawnPosition
+      ? this.replayRespawnPosition.clone()
+      : this.checkpointSystem 
+        ? this.checkpointSystem.getLastCheckpointPosition()
+        : this.spawnPosition;
 
 
 
-    // Clean up any active grapple state that might interfere with respawn
-    if (this.isSwinging) {
-      window.dispatchEvent(new CustomEvent('forceReleaseGrapple', {
-        detail: { reason: 'respawn' }
-      }));
-    }
+    if (this.driver === 'player') {
+      // Clean up any active grapple state that might interfere with respawn
+      if (this.isSwinging) {
+        gameEvents.emit('forceReleaseGrapple', { reason: 'respawn' });
+      }
 
-    // Dispatch respawn event for screen flash effect
-    window.dispatchEvent(new CustomEvent('playerRespawn', {
-      detail: { reason: 'out-of-bounds', position: respawnPosition }
-    }));
+      // Dispatch respawn event for screen flash effect
+      gameEvents.emit('playerRespawn', { reason, position: respawnPosition });
+    }
 
     this.playerBody.setTranslation({ x: respawnPosition.x, y: respawnPosition.y, z: respawnPosition.z }, true);
 
@@ -740,7 +1058,7 @@ export class FirstPersonController {
 
     // Reset rotation
     this.pitch = 0;
-    this.yaw = 0;
+    this.yaw = this.spawnYaw;
 
     // Reset movement state
     this.isGrounded = false;
@@ -758,10 +1076,15 @@ export class FirstPersonController {
     // Reset preserved momentum
     this.preservedMomentum.set(0, 0, 0);
     
+    // Drop any held block
+    this.blockState.reset();
+    
+    // Respawning is a teleport - drop prediction history and tell the server
+    this.prediction.clear();
+    this.respawnCount++;
+    
     // Reset speed boost state
-    this.isSpeedBoosted = false;
-    this.currentMoveSpeed = this.baseMoveSpeed;
+    this.speedModifiers.clear();
     this.moveSpeed = this.baseMoveSpeed;
-    this.speedBoostEndTime = 0;
   }
 } 
\ No newline at end of file
@@ -2,9 +2,11 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { TargetDummy } from '../combat/TargetDummy';
 import type { MeleeCombat } from '../combat/MeleeCombat';
-import type { DummyPositionData, DummyPosition } from './DummyPositionTypes';
-import dummyPositionsData from './dummyPositions.json';
+import type { TrackDummy } from '../track/TrackManifest';
 import type { MeleeTarget } from '../combat/MeleeCombat';
+import type { DefenseStance } from '../../../shared/combat';
+import type { SpeedModifierSpec } from '../systems/SpeedModifiers';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface SpeedBoostConfig {
   baseDuration: number; // 3 seconds base
@@ -39,19 +41,17 @@ export class DummyLoader {
   }
 
   /**
-   * Load all dummies from saved positions data
+   * Load all dummies from the track manifest's placements
    */
-  async loadDummies(): Promise<RacingTargetDummy[]> {
+  async loadDummies(dummyPositions: TrackDummy[]): Promise<RacingTargetDummy[]> {
     try {
-      const data = dummyPositionsData as DummyPositionData;
-      
-      console.log(`🎯 Loading ${data.totalDummies} dummies from saved positions...`);
+      console.log(`🎯 Loading ${dummyPositions.length} dummies from track placements...`);
       
       // Clear any existing dummies
       this.clearDummies();
       
       // Create dummies from saved positions
-      for (const dummyPos of data.dummyPositions) {
+      for (const dummyPos of dummyPositions) {
         const position = new THREE.Vector3(
           dummyPos.position.x,
           dummyPos.position.y,
@@ -147,6 +147,12 @@ export class RacingTargetDummy implements MeleeTarget {
   takeDamage(damage: number, direction: THREE.Vector3): void {
     if (!this.isAvailable) return;
     
+    // A parried hit earns nothing
+    if (this.getDefenseStance() === 'parry') {
+      this.targetDummy.takeDamage(damage, direction);
+      return;
+    }
+    
     // Calculate speed boost duration based on damage
     const baseDuration = this.speedBoostConfig.baseDuration;
     const bonusDuration = (damage / this.speedBoostConfig.damageScaling) * 1000; // Convert to ms
@@ -171,6 +177,17 @@ export class RacingTargetDummy implements MeleeTarget {
     console.log(`🏎️ Speed boost granted! Duration: ${(totalDuration/1000).toFixed(1)}s from ${damage} damage`);
   }
 
+  /**
+   * Delegate block state to underlying dummy
+   */
+  getDefenseStance(): DefenseStance {
+    return this.targetDummy.getDefenseStance();
+  }
+
+  setDefenseStance(stance: DefenseStance): void {
+    this.targetDummy.setDefenseStance(stance);
+  }
+
   /**
    * Delegate applyKnockback to underlying dummy
    */
@@ -193,18 +210,18 @@ export class RacingTargetDummy implements MeleeTarget {
    * Grant speed boost to player based on damage dealt
    */
   private grantSpeedBoost(damage: number, duration: number): void {
-    const boostData = {
-      fromVelocity: this.speedBoostConfig.baseVelocity,
-      toVelocity: this.speedBoostConfig.boostedVelocity,
+    const modifier: SpeedModifierSpec = {
+      source: 'dummy-boost',
+      kind: 'additive',
+      value: this.speedBoostConfig.boostedVelocity - this.speedBoostConfig.baseVelocity,
       duration: duration,
-      damage: damage,
-      source: this.id
+      decay: 'step'
     };
     
-    // Dispatch speed boost event for the controller to handle
-    window.dispatchEvent(new CustomEvent('speedBoostGranted', {
-      detail: boostData
-    }));
+    console.log(`🏎️ ${this.id}: ${this.speedBoostConfig.baseVelocity}→${this.speedBoostConfig.boostedVelocity} m/s from ${damage} damage`);
+    
+    // Dispatch speed modifier event for the controller to handle
+    gameEvents.emit('speedModifierGranted', modifier);
   }
 
   /**
@@ -4,6 +4,7 @@ import * as RAPIER from '@dimforge/rapier3d-compat';
 export class DeveloperTools {
   private playerBody: RAPIER.RigidBody;
   private isDevelopment: boolean;
+  private keyListener = new AbortController();
 
   constructor(playerBody: RAPIER.RigidBody) {
     this.playerBody = playerBody;
@@ -26,7 +27,14 @@ export class DeveloperTools {
       } else if (e.code === 'KeyC') {
         this.copyPositionToClipboard();
       }
-    });
+    }, { signal: this.keyListener.signal });
+  }
+
+  /**
+   * Stop listening for the position keys (the match is being torn down)
+   */
+  public dispose() {
+    this.keyListener.abort();
   }
 
   private logCurrentPosition() {
@@ -0,0 +1,337 @@
+import * as THREE from 'three';
+import type { ReplayFile } from '../systems/InputReplay';
+
+// Replay viewer controls
+export const REPLAY_VIEWER_CONFIG = {
+  SPEEDS: [0.1, 0.25, 0.5, 1, 2, 4],
+  SEEK_TICKS_PER_FRAME: 600,  // re-simulation budget while scrubbing
+  FREE_CAMERA_SPEED: 20,      // m/s
+  FREE_CAMERA_FAST: 4,        // Shift multiplier
+  LOOK_SENSITIVITY: 0.003
+} as const;
+
+/**
+ * What the viewer needs from the game to re-run a recording
+ */
+export interface ReplayHost {
+  beginReplay(replay: ReplayFile): void;             // restore the recorded start state and take over the controller
+  runTick(replay: ReplayFile, index: number): void;  // apply the tick's events and run one fixed physics step
+  endReplay(): void;                                 // hand control back to the live session
+}
+
+/**
+ * Plays a recorded input stream back through the real simulation.
+ * Seeking backwards restarts from the first tick and re-simulates - the replay is deterministic,
+ * so there is no state to store per tick.
+ */
+export class ReplayViewer {
+  private host: ReplayHost;
+  private camera: THREE.PerspectiveCamera;
+  private freeCamera: THREE.PerspectiveCamera;
+  private replay: ReplayFile | null = null;
+  private tickIndex = 0;            // next tick to run
+  private seekTarget: number | null = null;
+  private playing = false;
+  private speedIndex = REPLAY_VIEWER_CONFIG.SPEEDS.indexOf(1);
+  private accumulator = 0;
+  private freeCameraEnabled = false;
+  private freeYaw = 0;
+  private freePitch = 0;
+  private heldKeys: Set<string> = new Set();
+
+  private panel!: HTMLDivElement;
+  private playButton!: HTMLButtonElement;
+  private speedButton!: HTMLButtonElement;
+  private cameraButton!: HTMLButtonElement;
+  private slider!: HTMLInputElement;
+  private timeLabel!: HTMLSpanElement;
+
+  private readonly onKeyDown = (event: KeyboardEvent) => this.handleKeyDown(event);
+  private readonly onKeyUp = (event: KeyboardEvent) => this.heldKeys.delete(event.code);
+  private readonly onMouseMove = (event: MouseEvent) => this.handleMouseMove(event);
+
+  constructor(host: ReplayHost, camera: THREE.PerspectiveCamera) {
+    this.host = host;
+    this.camera = camera;
+    this.freeCamera = camera.clone();
+    this.createPanel();
+  }
+
+  private createPanel(): void {
+    this.panel = document.createElement('div');
+    this.panel.style.cssText = `
+      position: fixed;
+      bottom: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      width: 640px;
+      background: rgba(0, 0, 0, 0.85);
+      color: white;
+      padding: 10px 14px;
+      border-radius: 10px;
+      border: 2px solid #00E6FF;
+      font-family: 'Courier New', monospace;
+      font-size: 13px;
+      z-index: 3000;
+      display: none;
+      align-items: center;
+      gap: 10px;
+    `;
+
+    const button = (label: string, title: string, onClick: () => void) => {
+      const element = document.createElement('button');
+      element.textContent = label;
+      element.title = title;
+      element.style.cssText = `
+        background: #333;
+        color: #00E6FF;
+        border: 1px solid #00E6FF;
+        border-radius: 5px;
+        padding: 4px 8px;
+        cursor: pointer;
+        font-family: monospace;
+        min-width: 36px;
+      `;
+      element.addEventListener('click', (event) => {
+        event.stopPropagation();
+        onClick();
+      });
+      return element;
+    };
+
+    const restartButton = button('⏮', 'Restart', () => this.seek(0));
+    this.playButton = button('▶', 'Play/pause (Space)', () => this.togglePlay());
+    const stepButton = button('⏭', 'Step one tick (.)', () => this.stepOnce());
+    this.speedButton = button('1x', 'Playback speed ([ / ])', () => this.cycleSpeed(1));
+    this.cameraButton = button('🎥', 'Free camera (C)', () => this.toggleFreeCamera());
+    const closeButton = button('✕', 'Close replay', () => this.close());
+
+    this.slider = document.createElement('input');
+    this.slider.type = 'range';
+    this.slider.min = '0';
+    this.slider.value = '0';
+    this.slider.style.cssText = 'flex: 1;';
+    this.slider.addEventListener('input', () => this.seek(Number(this.slider.value)));
+    this.slider.addEventListener('click', (event) => event.stopPropagation());
+
+    this.timeLabel = document.createElement('span');
+    this.timeLabel.style.cssText = 'min-width: 150px; text-align: right; color: #aaa;';
+
+    this.panel.append(restartButton, this.playButton, stepButton, this.slider, this.timeLabel, this.speedButton, this.cameraButton, closeButton);
+    document.body.appendChild(this.panel);
+  }
+
+  /**
+   * Start viewing a recording from its first tick
+   */
+  open(replay: ReplayFile): void {
+    if (this.replay) {
+      this.host.endReplay();
+    }
+
+    this.replay = replay;
+    this.slider.max = String(replay.ticks.length);
+    this.host.beginReplay(replay);
+    this.tickIndex = 0;
+    this.seekTarget = null;
+    this.accumulator = 0;
+    this.playing = true;
+
+    this.panel.style.display = 'flex';
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    document.addEventListener('mousemove', this.onMouseMove);
+
+    console.log(`🎬 Replaying ${replay.ticks.length} ticks (${this.formatTime(replay.ticks.length)}) on ${replay.trackId}`);
+    this.refreshPanel();
+  }
+
+  close(): void {
+    if (!this.replay) return;
+
+    this.replay = null;
+    this.playing = false;
+    this.freeCameraEnabled = false;
+    this.heldKeys.clear();
+    this.panel.style.display = 'none';
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    document.removeEventListener('mousemove', this.onMouseMove);
+
+    this.host.endReplay();
+    console.log('🎬 Replay closed');
+  }
+
+  isActive(): boolean {
+    return this.replay !== null;
+  }
+
+  /**
+   * Camera to render with - the free camera when enabled, else the replayed player's view
+   */
+  getCamera(): THREE.Camera {
+    return this.freeCameraEnabled ? this.freeCamera : this.camera;
+  }
+
+  /**
+   * Advance playback (call every frame instead of the live simulation)
+   */
+  update(deltaTime: number): void {
+    const replay = this.replay;
+    if (!replay) return;
+
+    if (this.seekTarget !== null) {
+      // Re-simulate towards the scrub position within a per-frame budget
+      const end = Math.min(this.seekTarget, this.tickIndex + REPLAY_VIEWER_CONFIG.SEEK_TICKS_PER_FRAME);
+      while (this.tickIndex < end) {
+        this.runNextTick();
+      }
+      if (this.tickIndex >= this.seekTarget) {
+        this.seekTarget = null;
+      }
+    } else if (this.playing) {
+      this.accumulator += deltaTime * REPLAY_VIEWER_CONFIG.SPEEDS[this.speedIndex];
+      while (this.accumulator >= replay.fixedTimeStep && this.tickIndex < replay.ticks.length) {
+        this.runNextTick();
+        this.accumulator -= replay.fixedTimeStep;
+      }
+      if (this.tickIndex >= replay.ticks.length) {
+        this.playing = false;
+        this.accumulator = 0;
+      }
+    }
+
+    if (this.freeCameraEnabled) {
+      this.updateFreeCamera(deltaTime);
+    }
+    this.refreshPanel();
+  }
+
+  private runNextTick(): void {
+    this.host.runTick(this.replay!, this.tickIndex);
+    this.tickIndex++;
+  }
+
+  /**
+   * Jump to a tick; going backwards restarts the simulation from the beginning
+   */
+  private seek(target: number): void {
+    const replay = this.replay;
+    if (!replay) return;
+
+    target = THREE.MathUtils.clamp(Math.round(target), 0, replay.ticks.length);
+    if (target < this.tickIndex) {
+      this.host.beginReplay(replay);
+      this.tickIndex = 0;
+    }
+    this.seekTarget = target > this.tickIndex ? target : null;
+    this.accumulator = 0;
+  }
+
+  private togglePlay(): void {
+    const replay = this.replay;
+    if (!replay) return;
+
+    // Play from the top again after reaching the end
+    if (!this.playing && this.tickIndex >= replay.ticks.length) {
+      this.seek(0);
+    }
+    this.playing = !this.playing;
+  }
+
+  private stepOnce(): void {
+    if (!this.replay || this.tickIndex >= this.replay.ticks.length) return;
+    this.playing = false;
+    this.seekTarget = null;
+    this.runNextTick();
+  }
+
+  private cycleSpeed(direction: 1 | -1): void {
+    const count = REPLAY_VIEWER_CONFIG.SPEEDS.length;
+    this.speedIndex = direction > 0
+      ? (this.speedIndex + 1) % count
+      : Math.max(0, this.speedIndex - 1);
+  }
+
+  private toggleFreeCamera(): void {
+    this.freeCameraEnabled = !this.freeCameraEnabled;
+    if (this.freeCameraEnabled) {
+      // Start from wherever the player camera is looking
+      this.freeCamera.position.copy(this.camera.position);
+      const euler = new THREE.Euler().setFromQuaternion(this.camera.quaternion, 'YXZ');
+      this.freeYaw = euler.y;
+      this.freePitch = euler.x;
+    }
+  }
+
+  private updateFreeCamera(deltaTime: number): void {
+    // Track window resizes like the main camera
+    this.freeCamera.aspect = this.camera.aspect;
+    this.freeCamera.updateProjectionMatrix();
+    this.freeCamera.quaternion.setFromEuler(new THREE.Euler(this.freePitch, this.freeYaw, 0, 'YXZ'));
+
+    const move = new THREE.Vector3();
+    if (this.heldKeys.has('KeyW')) move.z -= 1;
+    if (this.heldKeys.has('KeyS')) move.z += 1;
+    if (this.heldKeys.has('KeyA')) move.x -= 1;
+    if (this.heldKeys.has('KeyD')) move.x += 1;
+    if (this.heldKeys.has('KeyE')) move.y += 1;
+    if (this.heldKeys.has('KeyQ')) move.y -= 1;
+    if (move.lengthSq() === 0) return;
+
+    const fast = this.heldKeys.has('ShiftLeft') || this.heldKeys.has('ShiftRight');
+    const speed = REPLAY_VIEWER_CONFIG.FREE_CAMERA_SPEED * (fast ? REPLAY_VIEWER_CONFIG.FREE_CAMERA_FAST : 1);
+    move.normalize().multiplyScalar(speed * deltaTime).applyQuaternion(this.freeCamera.quaternion);
+    this.freeCamera.position.add(move);
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    this.heldKeys.add(event.code);
+    if (event.repeat) return;
+
+    if (event.code === 'Space') {
+      event.preventDefault();
+      this.togglePlay();
+    } else if (event.code === 'Period') {
+      this.stepOnce();
+    } else if (event.code === 'BracketRight') {
+      this.cycleSpeed(1);
+    } else if (event.code === 'BracketLeft') {
+      this.cycleSpeed(-1);
+    } else if (event.code === 'KeyC') {
+      this.toggleFreeCamera();
+    }
+  }
+
+  private handleMouseMove(event: MouseEvent): void {
+    // Look around while pointer-locked or dragging
+    if (!this.freeCameraEnabled || (!document.pointerLockElement && event.buttons === 0)) return;
+
+    this.freeYaw -= event.movementX * REPLAY_VIEWER_CONFIG.LOOK_SENSITIVITY;
+    this.freePitch = THREE.MathUtils.clamp(this.freePitch - event.movementY * REPLAY_VIEWER_CONFIG.LOOK_SENSITIVITY, -Math.PI / 2, Math.PI / 2);
+  }
+
+  private refreshPanel(): void {
+    const replay = this.replay;
+    if (!replay) return;
+
+    this.playButton.textContent = this.playing ? '⏸' : '▶';
+    this.speedButton.textContent = `${REPLAY_VIEWER_CONFIG.SPEEDS[this.speedIndex]}x`;
+    this.cameraButton.style.background = this.freeCameraEnabled ? '#00E6FF' : '#333';
+    this.cameraButton.style.color = this.freeCameraEnabled ? '#001122' : '#00E6FF';
+    if (this.seekTarget === null) {
+      this.slider.value = String(this.tickIndex);
+    }
+    this.timeLabel.textContent = `${this.formatTime(this.tickIndex)} / ${this.formatTime(replay.ticks.length)} #${this.tickIndex}`;
+  }
+
+  private formatTime(ticks: number): string {
+    const seconds = ticks * (this.replay?.fixedTimeStep ?? 1 / 60);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+  }
+
+  dispose(): void {
+    this.close();
+    this.panel.remove();
+  }
+}
@@ -0,0 +1,332 @@
+import type { PlayerClass } from '../../../shared/protocol';
+import { resolveAttackParameters } from '../../../shared/combat';
+import { ABILITY_CONFIGS } from '../kits/classKit';
+import type { LapHistoryStore } from '../systems/LapHistory';
+
+const CLASS_ORDER: PlayerClass[] = ['blast', 'grapple', 'blink'];
+
+const CLASS_COLORS: Record<PlayerClass, string> = {
+  blast: '#FF6600',
+  grapple: '#00E6FF',
+  blink: '#CC66FF'
+};
+
+export const CLASS_PICKER_CONFIG = {
+  PREVIEW_WIDTH: 180,
+  PREVIEW_HEIGHT: 100,
+  PREVIEW_LOOP: 2000 // ms per preview cycle
+} as const;
+
+/**
+ * Pre-race class picker: one card per class with its ability, melee stats, a looping
+ * preview and the personal best on the current track. 1/2/3 or click to select, Enter to race.
+ */
+export class ClassPicker {
+  private lapHistory: LapHistoryStore;
+  private overlay!: HTMLDivElement;
+  private cards = new Map<PlayerClass, HTMLDivElement>();
+  private previews = new Map<PlayerClass, CanvasRenderingContext2D>();
+  private bestLabels = new Map<PlayerClass, HTMLDivElement>();
+  private selected: PlayerClass = 'blast';
+  private pending: { promise: Promise<PlayerClass>; resolve: (playerClass: PlayerClass) => void } | null = null;
+  private keyBindings: AbortController | null = null;
+  private animationFrame: number | null = null;
+  private locked = false;
+
+  constructor(lapHistory: LapHistoryStore) {
+    this.lapHistory = lapHistory;
+    this.createOverlay();
+  }
+
+  private createOverlay(): void {
+    this.overlay = document.createElement('div');
+    this.overlay.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.85);
+      display: none;
+      flex-direction: column;
+      justify-content: center;
+      align-items: center;
+      z-index: 1900;
+      font-family: monospace;
+      color: white;
+    `;
+
+    const title = document.createElement('h2');
+    title.textContent = 'Choose Your Class';
+    title.style.cssText = `
+      margin: 0 0 24px 0;
+      color: #FF0080;
+    `;
+    this.overlay.appendChild(title);
+
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      gap: 16px;
+    `;
+    CLASS_ORDER.forEach((playerClass, index) => row.appendChild(this.createCard(playerClass, index + 1)));
+    this.overlay.appendChild(row);
+
+    const hint = document.createElement('div');
+    hint.textContent = '1 / 2 / 3 or click to choose · Enter to race';
+    hint.style.cssText = `
+      margin-top: 20px;
+      color: #aaaaaa;
+      font-size: 13px;
+    `;
+    this.overlay.appendChild(hint);
+
+    document.body.appendChild(this.overlay);
+  }
+
+  private createCard(playerClass: PlayerClass, key: number): HTMLDivElement {
+    const ability = ABILITY_CONFIGS[playerClass];
+    const color = CLASS_COLORS[playerClass];
+    const melee = resolveAttackParameters(playerClass, {
+      speed: 0,
+      isSwinging: false,
+      msSinceGrappleDetach: Infinity,
+      msSinceBlink: Infinity
+    });
+
+    const card = document.createElement('div');
+    card.style.cssText = `
+      width: ${CLASS_PICKER_CONFIG.PREVIEW_WIDTH + 40}px;
+      background: rgba(0, 17, 34, 0.95);
+      padding: 20px;
+      border-radius: 10px;
+      border: 2px solid #333;
+      cursor: pointer;
+      font-size: 13px;
+      line-height: 1.5;
+    `;
+    card.innerHTML = `
+      <div style="color: #888;">[${key}]</div>
+      <div style="font-size: 18px; font-weight: bold; color: ${color};">${playerClass.toUpperCase()}</div>
+      <div style="font-weight: bold; margin-top: 6px;">${ability.name}</div>
+      <div style="color: #cccccc; min-height: 40px;">${ability.description}</div>
+    `;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = CLASS_PICKER_CONFIG.PREVIEW_WIDTH;
+    canvas.height = CLASS_PICKER_CONFIG.PREVIEW_HEIGHT;
+    canvas.style.cssText = `
+      display: block;
+      margin: 10px 0;
+      background: #001122;
+      border-radius: 5px;
+    `;
+    card.appendChild(canvas);
+    this.previews.set(playerClass, canvas.getContext('2d')!);
+
+    const stats = document.createElement('div');
+    stats.innerHTML = `
+      <div>Cooldown: ${(ability.cooldownDuration / 1000).toFixed(1)}s</div>
+      <div>Melee: ${melee.damage} dmg · ${melee.range.toFixed(1)}m · ${melee.coneAngle}°</div>
+    `;
+    card.appendChild(stats);
+
+    const best = document.createElement('div');
+    best.style.cssText = `
+      margin-top: 6px;
+      color: #00ff00;
+    `;
+    card.appendChild(best);
+    this.bestLabels.set(playerClass, best);
+
+    card.addEventListener('click', () => {
+      this.select(playerClass);
+      this.confirm();
+    });
+
+    this.cards.set(playerClass, card);
+    return card;
+  }
+
+  /**
+   * Show the picker and resolve with the chosen class. While the class is locked
+   * (a production race is running) this resolves straight away with the current class.
+   */
+  choose(trackId: string, current: PlayerClass): Promise<PlayerClass> {
+    if (this.pending) return this.pending.promise;
+    if (this.locked) {
+      console.warn(`🔒 Class is locked to ${current} until the race ends`);
+      return Promise.resolve(current);
+    }
+
+    let resolve!: (playerClass: PlayerClass) => void;
+    const promise = new Promise<PlayerClass>(done => (resolve = done));
+    this.pending = { promise, resolve };
+
+    this.select(current);
+    this.loadBests(trackId);
+    this.bindKeys();
+    if (document.pointerLockElement) {
+      document.exitPointerLock(); // the cards need a cursor
+    }
+    this.overlay.style.display = 'flex';
+    this.animationFrame = requestAnimationFrame(this.drawPreviews);
+
+    return promise;
+  }
+
+  /**
+   * Take the highlighted class and hide the picker
+   */
+  confirm(): void {
+    if (!this.pending) return;
+
+    const { resolve } = this.pending;
+    this.pending = null;
+    this.keyBindings?.abort();
+    this.keyBindings = null;
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    this.overlay.style.display = 'none';
+
+    console.log(`🎽 Racing as ${this.selected}`);
+    resolve(this.selected);
+  }
+
+  isOpen(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Hold the current class for the race (the picker won't open while locked)
+   */
+  setLocked(locked: boolean): void {
+    this.locked = locked;
+  }
+
+  private select(playerClass: PlayerClass): void {
+    this.selected = playerClass;
+    this.cards.forEach((card, cardClass) => {
+      card.style.borderColor = cardClass === playerClass ? CLASS_COLORS[cardClass] : '#333';
+    });
+  }
+
+  private bindKeys(): void {
+    this.keyBindings = new AbortController();
+    // Capture on window so the keys don't also reach the game's own bindings
+    window.addEventListener('keydown', (e) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return; // typing in the menu
+
+      const index = ['Digit1', 'Digit2', 'Digit3'].indexOf(e.code);
+      if (index >= 0) {
+        this.select(CLASS_ORDER[index]);
+      } else if (e.code === 'Enter') {
+        this.confirm();
+      } else {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    }, { capture: true, signal: this.keyBindings.signal });
+  }
+
+  private loadBests(trackId: string): void {
+    this.bestLabels.forEach(label => (label.textContent = 'Best: --'));
+    this.lapHistory.getClassBests(trackId).then(bests => {
+      bests.forEach(record => {
+        const label = this.bestLabels.get(record.playerClass as PlayerClass);
+        if (label) {
+          label.textContent = `Best: ${(record.lapTime / 1000).toFixed(2)}s`;
+        }
+      });
+    }).catch(error => console.warn('💾 Could not load class bests:', error));
+  }
+
+  /**
+   * Loop each class's ability as a side-on sketch (ground line, racer dot)
+   */
+  private drawPreviews = (time: number): void => {
+    const t = (time % CLASS_PICKER_CONFIG.PREVIEW_LOOP) / CLASS_PICKER_CONFIG.PREVIEW_LOOP;
+    const width = CLASS_PICKER_CONFIG.PREVIEW_WIDTH;
+    const height = CLASS_PICKER_CONFIG.PREVIEW_HEIGHT;
+    const groundY = height - 15;
+
+    this.previews.forEach((ctx, playerClass) => {
+      const color = CLASS_COLORS[playerClass];
+      ctx.clearRect(0, 0, width, height);
+
+      ctx.strokeStyle = '#444444';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(0, groundY);
+      ctx.lineTo(width, groundY);
+      ctx.stroke();
+
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color;
+
+      switch (playerClass) {
+        case 'blast': {
+          // Run in, blast off the ground and arc back down
+          const x = 20 + t * (width - 40);
+          const airborne = Math.max(0, (t - 0.3) / 0.7);
+          const y = groundY - 6 - Math.sin(airborne * Math.PI) * (height - 40);
+          if (t > 0.3 && t < 0.55) {
+            const radius = ((t - 0.3) / 0.25) * 30;
+            ctx.globalAlpha = 1 - (t - 0.3) / 0.25;
+            ctx.beginPath();
+            ctx.arc(20 + 0.3 * (width - 40), groundY - 6, radius, 0, Math.PI * 2);
+            ctx.stroke();
+            ctx.globalAlpha = 1;
+          }
+          this.drawRacer(ctx, x, y);
+          break;
+        }
+
+        case 'grapple': {
+          // Hook an anchor and swing underneath it
+          const anchorX = width / 2;
+          const anchorY = 10;
+          const length = groundY - anchorY - 25;
+          const angle = Math.cos(t * Math.PI * 2) * 0.9;
+          const x = anchorX + Math.sin(angle) * length;
+          const y = anchorY + Math.cos(angle) * length;
+          ctx.fillRect(anchorX - 4, anchorY - 4, 8, 8);
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.moveTo(anchorX, anchorY);
+          ctx.lineTo(x, y);
+          ctx.stroke();
+          this.drawRacer(ctx, x, y);
+          break;
+        }
+
+        case 'blink': {
+          // Walk, vanish and reappear further ahead, leaving an afterimage
+          const blinkAt = 0.4;
+          const distance = width * 0.4;
+          const start = 20;
+          const walked = t * (width - 40 - distance);
+          const x = start + walked + (t >= blinkAt ? distance : 0);
+          if (t >= blinkAt && t < blinkAt + 0.3) {
+            ctx.globalAlpha = 1 - (t - blinkAt) / 0.3;
+            this.drawRacer(ctx, start + blinkAt * (width - 40 - distance), groundY - 6);
+            ctx.globalAlpha = 1;
+          }
+          this.drawRacer(ctx, x, groundY - 6);
+          break;
+        }
+      }
+    });
+
+    this.animationFrame = requestAnimationFrame(this.drawPreviews);
+  };
+
+  private drawRacer(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+    ctx.beginPath();
+    ctx.arc(x, y, 6, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
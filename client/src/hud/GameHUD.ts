@@ -1,4 +1,5 @@
-import type { CheckpointId } from '../systems/LapController';
+import * as THREE from 'three';
+import type { CheckpointId, SplitComparison } from '../systems/LapController';
 import { LapController } from '../systems/LapController';
 
 export class GameHUD {
@@ -7,13 +8,29 @@ export class GameHUD {
   private checkpointBar!: HTMLDivElement;
   private lapTimerElement!: HTMLSpanElement;
   private checkpointElements: Map<CheckpointId, HTMLSpanElement> = new Map();
+  private stageElements: HTMLSpanElement[] = [];
+  private stageIndexOf: Map<CheckpointId, number> = new Map();
   private currentCheckpointIndex = 0;
   private pulseInterval: number | null = null;
   
+  // Health display
+  private healthContainer!: HTMLDivElement;
+  private healthBarFill!: HTMLDivElement;
+  private healthText!: HTMLSpanElement;
+  private damageIndicatorLayer!: HTMLDivElement;
+  
+  // Race position display
+  private positionContainer!: HTMLDivElement;
+  private positionElement!: HTMLSpanElement;
+  private gapElement!: HTMLSpanElement;
+  private slipstreamTag!: HTMLDivElement;
+  private connectionTag!: HTMLDivElement;
+  
   constructor(lapController: LapController) {
     this.lapController = lapController;
     
     this.createHUD();
+    this.createHealthBar();
   }
   
   private createHUD(): void {
@@ -47,24 +64,25 @@ export class GameHUD {
       justify-content: center;
     `;
     
-    // Create checkpoint elements
-    const checkpoints: { id: CheckpointId; label: string }[] = [
-      { id: 'A', label: 'A' },
-      { id: 'B', label: 'B' },
-      { id: 'C', label: 'C' },
-      { id: 'FINISH', label: '🏁' }
-    ];
+    // Create one element per route stage (alternate gates share one, the finish is last)
+    const stages = this.lapController.getStages();
+    const checkpoints: { ids: CheckpointId[]; label: string }[] = stages.map((ids, index) => ({
+      ids,
+      label: index === stages.length - 1 ? '🏁' : ids.join('/')
+    }));
     
     checkpoints.forEach((checkpoint, index) => {
       const element = document.createElement('span');
       element.textContent = checkpoint.label;
       element.style.cssText = `
         display: inline-block;
-        width: 35px;
+        min-width: 35px;
+        padding: 0 ${checkpoint.ids.length > 1 ? 8 : 0}px;
+        box-sizing: border-box;
         height: 35px;
         line-height: 35px;
         text-align: center;
-        border-radius: 50%;
+        border-radius: 18px;
         border: 2px solid #666;
         background: rgba(40, 40, 40, 0.8);
         color: #666;
@@ -72,7 +90,11 @@ export class GameHUD {
         transition: all 0.3s ease;
       `;
       
-      this.checkpointElements.set(checkpoint.id, element);
+      checkpoint.ids.forEach(id => {
+        this.checkpointElements.set(id, element);
+        this.stageIndexOf.set(id, index);
+      });
+      this.stageElements.push(element);
       this.checkpointBar.appendChild(element);
       
       // Add arrows between checkpoints (except after the last one)
@@ -98,23 +120,202 @@ export class GameHUD {
     lapTimerContainer.innerHTML = 'Time: <span id="lapTimer">0.00s</span>';
     this.lapTimerElement = lapTimerContainer.querySelector('#lapTimer')!;
     
+    // Create race position (hidden until there are rivals)
+    this.positionContainer = document.createElement('div');
+    this.positionContainer.style.cssText = `
+      text-align: center;
+      font-size: 20px;
+      color: #ffffff;
+      margin-top: 6px;
+      display: none;
+    `;
+    this.positionContainer.innerHTML = '<span></span> <span style="font-size: 14px; color: #aaaaaa;"></span>';
+    [this.positionElement, this.gapElement] = Array.from(this.positionContainer.querySelectorAll('span'));
+    
+    // Slipstream tag (shown while drafting)
+    this.slipstreamTag = document.createElement('div');
+    this.slipstreamTag.textContent = '💨 SLIPSTREAM';
+    this.slipstreamTag.style.cssText = `
+      text-align: center;
+      font-size: 14px;
+      color: #66ccff;
+      margin-top: 4px;
+      display: none;
+    `;
+    
+    // Server connection problems (hidden while joined or offline)
+    this.connectionTag = document.createElement('div');
+    this.connectionTag.style.cssText = `
+      text-align: center;
+      font-size: 14px;
+      margin-top: 4px;
+      display: none;
+    `;
+    
     // Assemble HUD
     this.container.appendChild(this.checkpointBar);
     this.container.appendChild(lapTimerContainer);
+    this.container.appendChild(this.positionContainer);
+    this.container.appendChild(this.slipstreamTag);
+    this.container.appendChild(this.connectionTag);
     document.body.appendChild(this.container);
     
     // Start current checkpoint pulse
     this.startCurrentCheckpointPulse();
   }
   
+  private createHealthBar(): void {
+    this.healthContainer = document.createElement('div');
+    this.healthContainer.style.cssText = `
+      position: fixed;
+      bottom: 30px;
+      left: 50%;
+      transform: translateX(-50%);
+      width: 300px;
+      background: rgba(0, 0, 0, 0.8);
+      padding: 8px 12px;
+      border-radius: 10px;
+      font-family: 'Courier New', monospace;
+      font-size: 16px;
+      font-weight: bold;
+      color: white;
+      z-index: 1000;
+      pointer-events: none;
+      border: 2px solid rgba(255, 255, 255, 0.3);
+    `;
+    
+    const barTrack = document.createElement('div');
+    barTrack.style.cssText = `
+      height: 14px;
+      background: rgba(40, 40, 40, 0.8);
+      border-radius: 7px;
+      overflow: hidden;
+      margin-top: 4px;
+    `;
+    
+    this.healthBarFill = document.createElement('div');
+    this.healthBarFill.style.cssText = `
+      height: 100%;
+      width: 100%;
+      background: #00ff00;
+      transition: width 0.15s ease, background 0.3s ease;
+    `;
+    barTrack.appendChild(this.healthBarFill);
+    
+    const label = document.createElement('div');
+    label.innerHTML = '❤️ HP <span></span>';
+    this.healthText = label.querySelector('span')!;
+    
+    this.healthContainer.appendChild(label);
+    this.healthContainer.appendChild(barTrack);
+    document.body.appendChild(this.healthContainer);
+    
+    // Full-screen layer that holds the damage direction arcs around the crosshair
+    this.damageIndicatorLayer = document.createElement('div');
+    this.damageIndicatorLayer.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      width: 0;
+      height: 0;
+      z-index: 1000;
+      pointer-events: none;
+    `;
+    document.body.appendChild(this.damageIndicatorLayer);
+    
+    this.updateHealth(100, 100);
+  }
+  
+  /**
+   * Show the live race position ("3rd / 6") and the gap to the racer ahead
+   */
+  updatePosition(place: number, totalRacers: number, gapAhead: number | null): void {
+    if (totalRacers < 2) {
+      this.positionContainer.style.display = 'none';
+      return;
+    }
+    
+    this.positionContainer.style.display = 'block';
+    this.positionElement.textContent = `${formatPlace(place)} / ${totalRacers}`;
+    this.positionElement.style.color = place === 1 ? '#ffd700' : '#ffffff';
+    this.gapElement.textContent = gapAhead !== null ? `+${gapAhead.toFixed(1)}m` : 'LEADER';
+  }
+  
+  setSlipstreamActive(active: boolean): void {
+    this.slipstreamTag.style.display = active ? 'block' : 'none';
+  }
+  
+  /**
+   * Show a lost or refused server connection; null hides it again
+   */
+  setConnectionStatus(text: string | null, color = '#ffaa00'): void {
+    this.connectionTag.style.display = text ? 'block' : 'none';
+    this.connectionTag.textContent = text ?? '';
+    this.connectionTag.style.color = color;
+  }
+  
+  /**
+   * Update the health bar (green → yellow → red)
+   */
+  updateHealth(current: number, max: number): void {
+    const percentage = Math.max(0, Math.min(100, (current / max) * 100));
+    this.healthBarFill.style.width = `${percentage}%`;
+    this.healthText.textContent = `${Math.ceil(current)}/${max}`;
+    
+    if (percentage > 60) {
+      this.healthBarFill.style.background = '#00ff00';
+    } else if (percentage > 30) {
+      this.healthBarFill.style.background = '#ffff00';
+    } else {
+      this.healthBarFill.style.background = '#ff3333';
+    }
+  }
+  
+  /**
+   * Show a red arc pointing toward where a hit came from.
+   * `hitDirection` is the attack direction (attacker → us), `cameraYaw` the view yaw.
+   */
+  showDamageIndicator(hitDirection: THREE.Vector3, cameraYaw: number): void {
+    // Direction back toward the attacker, relative to where we're looking
+    const toAttacker = new THREE.Vector3(-hitDirection.x, 0, -hitDirection.z);
+    if (toAttacker.lengthSq() < 1e-6) return;
+    toAttacker.normalize();
+    
+    const forward = new THREE.Vector3(-Math.sin(cameraYaw), 0, -Math.cos(cameraYaw));
+    const right = new THREE.Vector3(Math.cos(cameraYaw), 0, -Math.sin(cameraYaw));
+    const angle = Math.atan2(toAttacker.dot(right), toAttacker.dot(forward));
+    
+    const indicator = document.createElement('div');
+    indicator.style.cssText = `
+      position: absolute;
+      left: -60px;
+      top: -60px;
+      width: 120px;
+      height: 120px;
+      border-radius: 50%;
+      border-top: 8px solid rgba(255, 0, 0, 0.85);
+      box-sizing: border-box;
+      transform: rotate(${angle}rad) scale(1.6);
+      opacity: 1;
+      transition: opacity 0.8s ease;
+    `;
+    this.damageIndicatorLayer.appendChild(indicator);
+    
+    // Fade out and remove
+    setTimeout(() => {
+      indicator.style.opacity = '0';
+      setTimeout(() => {
+        indicator.remove();
+      }, 800);
+    }, 200);
+  }
+  
   private startCurrentCheckpointPulse(): void {
     if (this.pulseInterval) {
       clearInterval(this.pulseInterval);
     }
     
-    const checkpoints: CheckpointId[] = ['A', 'B', 'C', 'FINISH'];
-    const currentCheckpoint = checkpoints[this.currentCheckpointIndex];
-    const element = this.checkpointElements.get(currentCheckpoint);
+    const element = this.stageElements[this.currentCheckpointIndex];
     
     if (!element) return;
     
@@ -139,11 +340,15 @@ export class GameHUD {
   /**
    * Called when a checkpoint is visited
    */
-  onCheckpointVisited(checkpointId: CheckpointId, isValid: boolean): void {
+  onCheckpointVisited(checkpointId: CheckpointId, isValid: boolean, split?: SplitComparison): void {
     const element = this.checkpointElements.get(checkpointId);
     if (!element) return;
     
     if (isValid) {
+      if (split && split.delta !== null) {
+        this.showSplitDelta(split.delta);
+      }
+      
       // Mark checkpoint as completed
       element.style.border = '2px solid #00ff00';
       element.style.background = 'rgba(0, 255, 0, 0.3)';
@@ -151,8 +356,7 @@ export class GameHUD {
       element.style.transform = 'scale(1.0)';
       
       // Update current checkpoint index
-      const checkpoints: CheckpointId[] = ['A', 'B', 'C', 'FINISH'];
-      this.currentCheckpointIndex = checkpoints.indexOf(checkpointId) + 1;
+      this.currentCheckpointIndex = (this.stageIndexOf.get(checkpointId) ?? 0) + 1;
       
       // Flash effect
       setTimeout(() => {
@@ -163,7 +367,7 @@ export class GameHUD {
       }, 50);
       
       // Update pulse for next checkpoint
-      if (checkpointId !== 'FINISH') {
+      if (this.currentCheckpointIndex < this.stageElements.length) {
         this.startCurrentCheckpointPulse();
       } else {
         // Stop pulsing when lap is complete
@@ -190,6 +394,40 @@ export class GameHUD {
     }
   }
   
+  /**
+   * Time-trial style split popup under the checkpoint bar: green when ahead of the best lap, red when behind
+   */
+  private showSplitDelta(delta: number): void {
+    const ahead = delta < 0;
+    const text = `${ahead ? '−' : '+'}${(Math.abs(delta) / 1000).toFixed(2)}`;
+    
+    const popup = document.createElement('div');
+    popup.textContent = text;
+    popup.style.cssText = `
+      position: fixed;
+      top: 130px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: rgba(0, 0, 0, 0.8);
+      color: ${ahead ? '#00ff00' : '#ff4444'};
+      padding: 6px 16px;
+      border-radius: 8px;
+      border: 2px solid ${ahead ? '#00ff00' : '#ff4444'};
+      font-family: 'Courier New', monospace;
+      font-size: 24px;
+      font-weight: bold;
+      z-index: 1000;
+      pointer-events: none;
+      transition: opacity 0.4s ease;
+    `;
+    document.body.appendChild(popup);
+    
+    setTimeout(() => {
+      popup.style.opacity = '0';
+      setTimeout(() => popup.remove(), 400);
+    }, 1500);
+  }
+  
   /**
    * Called when a lap is completed
    */
@@ -244,6 +482,13 @@ export class GameHUD {
     }, 2000);
   }
   
+  /**
+   * Clear checkpoint progress (race restart)
+   */
+  reset(): void {
+    this.resetCheckpointProgress();
+  }
+  
   private resetCheckpointProgress(): void {
     // Reset all checkpoints to default state
     this.checkpointElements.forEach((element) => {
@@ -290,5 +535,23 @@ export class GameHUD {
     if (this.container.parentNode) {
       this.container.parentNode.removeChild(this.container);
     }
+    
+    this.healthContainer.remove();
+    this.damageIndicatorLayer.remove();
+  }
+} 
+
+/**
+ * 1 → "1st", 2 → "2nd", 11 → "11th"
+ */
+function formatPlace(place: number): string {
+  const lastTwo = place % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${place}th`;
+  
+  switch (place % 10) {
+    case 1: return `${place}st`;
+    case 2: return `${place}nd`;
+    case 3: return `${place}rd`;
+    default: return `${place}th`;
   }
-} 
\ No newline at end of file
+}
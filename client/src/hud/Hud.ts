@@ -105,11 +105,12 @@ export class LapHUD {
     }
     
     // Update checkpoint progress
-    const progressText = `${progress.currentSequence.length}/3`;
+    const gates = this.lapController.getStageCount() - 1;
+    const progressText = `${progress.currentSequence.length}/${gates}`;
     this.checkpointProgressElement.textContent = progressText;
     
     // Color code progress
-    if (progress.currentSequence.length === 3) {
+    if (progress.currentSequence.length === gates) {
       this.checkpointProgressElement.style.color = '#00ff00'; // Green when all checkpoints hit
     } else if (progress.currentSequence.length > 0) {
       this.checkpointProgressElement.style.color = '#ffff00'; // Yellow when some checkpoints hit
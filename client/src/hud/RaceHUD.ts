@@ -0,0 +1,221 @@
+import type { RaceResult } from '../../../shared/protocol';
+import { RaceSession } from '../systems/RaceSession';
+import { LapController } from '../systems/LapController';
+
+/**
+ * Race overlays: countdown, round timer / overtime, lap counter and final standings
+ */
+export class RaceHUD {
+  private raceSession: RaceSession;
+  private lapController: LapController;
+  private timerContainer!: HTMLDivElement;
+  private timerElement!: HTMLSpanElement;
+  private lapCounterElement!: HTMLSpanElement;
+  private countdownElement!: HTMLDivElement;
+  private standingsOverlay!: HTMLDivElement;
+  private lastCountdownValue: number | null = null;
+  private goTimeout: number | null = null;
+
+  constructor(raceSession: RaceSession, lapController: LapController) {
+    this.raceSession = raceSession;
+    this.lapController = lapController;
+
+    this.createTimer();
+    this.createCountdown();
+    this.createStandings();
+  }
+
+  private createTimer(): void {
+    this.timerContainer = document.createElement('div');
+    this.timerContainer.style.cssText = `
+      position: fixed;
+      top: 20px;
+      right: 20px;
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      padding: 10px 20px;
+      border-radius: 10px;
+      font-family: 'Courier New', monospace;
+      font-size: 18px;
+      font-weight: bold;
+      text-align: right;
+      z-index: 1000;
+      pointer-events: none;
+      border: 2px solid rgba(255, 255, 255, 0.3);
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.5);
+      display: none;
+    `;
+
+    this.timerElement = document.createElement('span');
+    this.timerElement.style.cssText = `
+      display: block;
+      font-size: 28px;
+      color: #ffffff;
+    `;
+
+    this.lapCounterElement = document.createElement('span');
+    this.lapCounterElement.style.cssText = `
+      display: block;
+      font-size: 14px;
+      color: #cccccc;
+      margin-top: 4px;
+    `;
+
+    this.timerContainer.appendChild(this.timerElement);
+    this.timerContainer.appendChild(this.lapCounterElement);
+    document.body.appendChild(this.timerContainer);
+  }
+
+  private createCountdown(): void {
+    this.countdownElement = document.createElement('div');
+    this.countdownElement.style.cssText = `
+      position: fixed;
+      top: 40%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      color: #ffffff;
+      font-family: 'Courier New', monospace;
+      font-size: 120px;
+      font-weight: bold;
+      text-shadow: 0 0 30px rgba(0, 0, 0, 0.8);
+      z-index: 9999;
+      pointer-events: none;
+      display: none;
+    `;
+    document.body.appendChild(this.countdownElement);
+  }
+
+  private createStandings(): void {
+    this.standingsOverlay = document.createElement('div');
+    this.standingsOverlay.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: rgba(0, 0, 0, 0.9);
+      color: white;
+      padding: 30px 50px;
+      border-radius: 15px;
+      font-family: 'Courier New', monospace;
+      font-size: 20px;
+      min-width: 420px;
+      z-index: 9999;
+      pointer-events: none;
+      border: 3px solid #ffd700;
+      box-shadow: 0 0 30px rgba(255, 215, 0, 0.4);
+      display: none;
+    `;
+    document.body.appendChild(this.standingsOverlay);
+  }
+
+  /**
+   * Refresh countdown and timer (call every frame)
+   */
+  update(): void {
+    const phase = this.raceSession.getPhase();
+
+    if (phase === 'countdown') {
+      const value = Math.ceil(this.raceSession.getCountdownRemaining() / 1000);
+      if (value !== this.lastCountdownValue && value > 0) {
+        this.lastCountdownValue = value;
+        this.showCountdownValue(String(value), '#ffffff');
+      }
+    } else if (phase === 'racing' && this.lastCountdownValue !== null) {
+      // Countdown just ended
+      this.lastCountdownValue = null;
+      this.showCountdownValue('GO!', '#00ff00');
+      this.goTimeout = window.setTimeout(() => {
+        this.countdownElement.style.display = 'none';
+        this.goTimeout = null;
+      }, 800);
+    }
+
+    this.timerContainer.style.display = phase === 'countdown' || phase === 'racing' ? 'block' : 'none';
+    if (phase === 'countdown' || phase === 'racing') {
+      this.updateTimer();
+    }
+  }
+
+  private showCountdownValue(text: string, color: string): void {
+    if (this.goTimeout) {
+      clearTimeout(this.goTimeout);
+      this.goTimeout = null;
+    }
+
+    this.countdownElement.textContent = text;
+    this.countdownElement.style.color = color;
+    this.countdownElement.style.display = 'block';
+
+    // Pop animation
+    this.countdownElement.style.transition = 'none';
+    this.countdownElement.style.transform = 'translate(-50%, -50%) scale(1.5)';
+    requestAnimationFrame(() => {
+      this.countdownElement.style.transition = 'transform 0.3s ease-out';
+      this.countdownElement.style.transform = 'translate(-50%, -50%) scale(1.0)';
+    });
+  }
+
+  private updateTimer(): void {
+    const remaining = this.raceSession.getTimeRemaining();
+
+    if (this.raceSession.isOvertimeActive()) {
+      this.timerElement.textContent = 'OVERTIME';
+      this.timerElement.style.color = '#ff4444';
+    } else {
+      const seconds = (remaining ?? 0) / 1000;
+      this.timerElement.textContent = seconds.toFixed(1) + 's';
+      this.timerElement.style.color = seconds <= 10 ? '#ffaa00' : '#ffffff';
+    }
+
+    const lapCount = this.raceSession.getLapCount();
+    const currentLap = Math.min(this.lapController.getProgress().totalLaps + 1, lapCount);
+    this.lapCounterElement.textContent = `Lap ${currentLap}/${lapCount}`;
+  }
+
+  /**
+   * Final standings, ranked by finish time then progress
+   */
+  showResults(results: RaceResult[], localId: string): void {
+    const rows = results.map(result => {
+      const time = result.finishTime !== null
+        ? (result.finishTime / 1000).toFixed(2) + 's'
+        : `DNF (${Math.round(result.progress * 100) / 100} laps)`;
+      const color = result.id === localId ? '#ffd700' : '#ffffff';
+
+      return `
+        <div style="display: flex; justify-content: space-between; gap: 30px; color: ${color}; margin: 6px 0;">
+          <span>${result.placement}. ${escapeHtml(result.name)}</span>
+          <span>${time}</span>
+        </div>
+      `;
+    }).join('');
+
+    this.standingsOverlay.innerHTML = `
+      <div style="font-size: 32px; font-weight: bold; text-align: center; margin-bottom: 20px; color: #ffd700;">🏆 RACE RESULTS 🏆</div>
+      ${rows}
+      <div style="font-size: 14px; color: #aaaaaa; text-align: center; margin-top: 20px;">Press Enter to race again</div>
+    `;
+    this.standingsOverlay.style.display = 'block';
+  }
+
+  hideResults(): void {
+    this.standingsOverlay.style.display = 'none';
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    if (this.goTimeout) {
+      clearTimeout(this.goTimeout);
+    }
+
+    this.timerContainer.remove();
+    this.countdownElement.remove();
+    this.standingsOverlay.remove();
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
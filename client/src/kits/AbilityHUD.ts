@@ -1,5 +1,6 @@
 import { AbilityManager } from './useAbility';
 import { ABILITY_CONFIGS } from './classKit';
+import { gameNow } from '../systems/GameClock';
 
 /**
  * Enhanced HUD component for displaying ability cooldown state with visual feedback
@@ -15,6 +16,7 @@ export class AbilityHUD {
   private lastAbilityUsedTime: number = 0;
   private flashOverlay!: HTMLDivElement;
   private instructions!: HTMLDivElement;
+  private updateInterval: number | null = null;
 
   constructor(abilityManager: AbilityManager) {
     this.abilityManager = abilityManager;
@@ -273,7 +275,7 @@ export class AbilityHUD {
       this.flashOverlay.style.background = `radial-gradient(circle, ${colors.flashBg}, transparent)`;
 
       // Check if ability was just used
-      const currentTime = Date.now();
+      const currentTime = gameNow();
       if (cooldownState.remainingTime > 0 && !this.wasOnCooldown) {
         this.triggerAbilityUsedEffect();
         this.lastAbilityUsedTime = currentTime;
@@ -328,13 +330,17 @@ export class AbilityHUD {
     };
 
     // Update every ~67ms (15fps) for better performance
-    setInterval(update, 67);
+    this.updateInterval = window.setInterval(update, 67);
   }
 
   /**
-   * Remove the HUD from the DOM
+   * Stop the update loop and remove the HUD from the DOM
    */
   destroy(): void {
+    if (this.updateInterval) {
+      window.clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
     if (this.container && this.container.parentNode) {
       this.container.parentNode.removeChild(this.container);
     }
@@ -1,11 +1,13 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { gameNow } from '../systems/GameClock';
+import { gameEvents } from '../systems/GameEvents';
 
 // ═══ ROCKET JUMP v2 — TRUE TF2 IMPULSE ═══════════════════════════════════════
 const ROCKET = {
   radius: 4,            // metres
   baseImpulse: 36,      // raw force coefficient
-  playerSelfBoost: 2.5, // multiplier when hit body === local player
+  playerSelfBoost: 2.5, // multiplier when hit body === the racer who fired
   airborneBonus: 2.0,   // extra when !isGrounded
   maxSpeed: 100,        // hard clamp (m/s) only if exceeded
 };
@@ -26,6 +28,8 @@ interface ActiveProjectile {
   hasExploded: boolean;
   lastPosition: THREE.Vector3;
   stuckFrames: number;
+  owner: RAPIER.RigidBody;      // racer who fired (gets the self boost)
+  ownerIsLocalPlayer: boolean;  // bots fire rockets too
 }
 
 // Global state for active projectiles
@@ -36,9 +40,10 @@ const activeProjectiles: Set<ActiveProjectile> = new Set();
  */
 export function blastJump(
   world: RAPIER.World,
-  _playerBody: RAPIER.RigidBody,
+  playerBody: RAPIER.RigidBody,
   camera: THREE.Camera,
-  scene: THREE.Scene
+  scene: THREE.Scene,
+  ownerIsLocalPlayer: boolean = true
 ): void {
   // SAFETY CHECK: Validate parameters
   if (!world || !camera || !scene) {
@@ -85,12 +90,14 @@ export function blastJump(
   const projectile: ActiveProjectile = {
     mesh: projectileMesh,
     body: projectileBody,
-    spawnTime: Date.now(),
+    spawnTime: gameNow(),
     world: world,
     scene: scene,
     hasExploded: false,
     lastPosition: muzzle.clone(),
-    stuckFrames: 0
+    stuckFrames: 0,
+    owner: playerBody,
+    ownerIsLocalPlayer
   };
   
   activeProjectiles.add(projectile);
@@ -107,7 +114,7 @@ export function updateBlast(): void {
     return;
   }
   
-  const now = Date.now();
+  const now = gameNow();
   const projectilesToRemove: ActiveProjectile[] = [];
   
   for (const projectile of activeProjectiles) {
@@ -237,14 +244,15 @@ function explodeProjectile(projectile: ActiveProjectile): void {
     
     const falloff = 1 - (dist / ROCKET.radius); // Linear 0-1 falloff
     
-    // Check if this is the local player and if grounded
-    const isLocalPlayer = body.bodyType() === RAPIER.RigidBodyType.KinematicPositionBased;
+    // Racers (player and bots) are kinematic; only the one who fired gets the self boost
+    const isRacer = body.bodyType() === RAPIER.RigidBodyType.KinematicPositionBased;
+    const isOwner = body.handle === projectile.owner.handle;
     const currentVel = body.linvel();
     const grounded = Math.abs(currentVel.y) < 0.1;
     
     // Calculate final impulse magnitude
     let impulseMag = ROCKET.baseImpulse * falloff;
-    if (isLocalPlayer) {
+    if (isOwner) {
       impulseMag *= ROCKET.playerSelfBoost;
       if (!grounded) {
         impulseMag *= ROCKET.airborneBonus;
@@ -257,9 +265,9 @@ function explodeProjectile(projectile: ActiveProjectile): void {
     // Store pre-impulse velocity for debug
     const preVel = { x: currentVel.x, y: currentVel.y, z: currentVel.z };
     
-    if (isLocalPlayer) {
-      // KINEMATIC PLAYER - Send event to controller
-      console.log(`🚀 TF2 KINEMATIC PLAYER: Sending impulse event`);
+    if (isRacer) {
+      // KINEMATIC RACER - Send event to the controller that owns the body
+      console.log(`🚀 TF2 KINEMATIC RACER: Sending impulse event`);
       console.log('🚀', { 
         pre: preVel, 
         impulseVec: { x: impulseVec.x, y: impulseVec.y, z: impulseVec.z },
@@ -268,15 +276,14 @@ function explodeProjectile(projectile: ActiveProjectile): void {
         airborneBonus: !grounded ? ROCKET.airborneBonus : 1
       });
       
-      window.dispatchEvent(new CustomEvent('blastSelfImpulse', {
-        detail: { 
-          impulse: impulseVec,
-          explosionPosition: explosionPos,
-          distance: dist,
-          isDirectional3D: true,
-          isTF2Style: true
-        }
-      }));
+      gameEvents.emit('blastSelfImpulse', { 
+        impulse: impulseVec,
+        explosionPosition: explosionPos,
+        distance: dist,
+        isDirectional3D: true,
+        isTF2Style: true,
+        bodyHandle: body.handle
+      });
     } else {
       // DYNAMIC BODY - Apply impulse directly
       body.applyImpulse({
@@ -298,42 +305,38 @@ function explodeProjectile(projectile: ActiveProjectile): void {
   
   console.log(`💥 TF2 Rocket explosion affected ${affectedCount} bodies within ${ROCKET.radius}m radius`);
   
-  // Safety check - if player falls into kill zone, respawn
-  setTimeout(() => {
-    checkPlayerSafety(projectile.world);
-  }, 100);
+  // Safety check - if player falls into kill zone, respawn (bots have their own killzone checks)
+  if (projectile.ownerIsLocalPlayer) {
+    setTimeout(() => {
+      checkPlayerSafety(projectile.owner);
+    }, 100);
+  }
   
   // Clean up projectile
   cleanupProjectile(projectile);
   
   // Dispatch explosion event
-  window.dispatchEvent(new CustomEvent('rocketExplosion', {
-    detail: {
-      position: explosionPos,
-      radius: ROCKET.radius,
-      force: ROCKET.baseImpulse,
-      affectedCount: affectedCount,
-      isTF2Style: true
-    }
-  }));
+  gameEvents.emit('rocketExplosion', {
+    position: explosionPos,
+    radius: ROCKET.radius,
+    force: ROCKET.baseImpulse,
+    affectedCount: affectedCount,
+    isTF2Style: true
+  });
 }
 
 /**
  * Safety guard - check if player fell into kill zone
  */
-function checkPlayerSafety(world: RAPIER.World): void {
-  world.forEachRigidBody((body) => {
-    if (body.bodyType() === RAPIER.RigidBodyType.KinematicPositionBased) {
-      const bodyPos = body.translation();
-      if (bodyPos.y < -8) {
-        console.log('⚠️ Player fell into kill zone after rocket jump - triggering respawn');
-        // Dispatch respawn event
-        window.dispatchEvent(new CustomEvent('playerRespawn', {
-          detail: { reason: 'killzone', position: bodyPos }
-        }));
-      }
-    }
-  });
+function checkPlayerSafety(playerBody: RAPIER.RigidBody): void {
+  if (!playerBody.isValid()) return;
+  
+  const bodyPos = playerBody.translation();
+  if (bodyPos.y < -8) {
+    console.log('⚠️ Player fell into kill zone after rocket jump - triggering respawn');
+    // Dispatch respawn event
+    gameEvents.emit('playerRespawn', { reason: 'killzone', position: bodyPos });
+  }
 }
 
 /**
@@ -6,6 +6,7 @@
 
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface BlastAbilityContext {
   playerBody: RAPIER.RigidBody;
@@ -62,9 +63,7 @@ export function legacyBlast(context: BlastAbilityContext): void {
   
   // Apply blast to player (kinematic body - handled via event)
   console.log(`💥 BLAST self-impulse: ${selfImpulse.x.toFixed(1)}, ${selfImpulse.y.toFixed(1)}, ${selfImpulse.z.toFixed(1)}`);
-  window.dispatchEvent(new CustomEvent('blastSelfImpulse', {
-    detail: { impulse: selfImpulse }
-  }));
+  gameEvents.emit('blastSelfImpulse', { impulse: selfImpulse });
   
   // Find and blast nearby dynamic bodies
   const nearbyBodies = findNearbyDynamicBodies(world, position, blastRadius, playerBody);
@@ -105,16 +104,14 @@ export function legacyBlast(context: BlastAbilityContext): void {
   console.log(`💥 Affected ${affectedCount} nearby objects within ${blastRadius}m radius`);
   
   // Dispatch event for visual effects
-  window.dispatchEvent(new CustomEvent('abilityUsed', {
-    detail: {
-      ability: 'blast',
-      position: position,
-      force: blastForce,
-      radius: blastRadius,
-      affectedCount: affectedCount,
-      selfImpulse: selfImpulse
-    }
-  }));
+  gameEvents.emit('abilityUsed', {
+    ability: 'blast',
+    position: position,
+    force: blastForce,
+    radius: blastRadius,
+    affectedCount: affectedCount,
+    selfImpulse: selfImpulse
+  });
 }
 
 /**
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface RocketSettings {
   projectileSpeed: number;   // e.g. 50 m/s
@@ -107,14 +108,12 @@ export function blastJump(
   console.log(`🚀 Rocket launched at ${settings.projectileSpeed} m/s from position: ${spawnPosition.x.toFixed(1)}, ${spawnPosition.y.toFixed(1)}, ${spawnPosition.z.toFixed(1)}`);
   
   // Dispatch event for visual effects
-  window.dispatchEvent(new CustomEvent('abilityUsed', {
-    detail: {
-      ability: 'rocketJump',
-      position: spawnPosition,
-      direction: cameraDirection,
-      settings: settings
-    }
-  }));
+  gameEvents.emit('abilityUsed', {
+    ability: 'rocketJump',
+    position: spawnPosition,
+    direction: cameraDirection,
+    settings: settings
+  });
 }
 
 /**
@@ -268,14 +267,12 @@ function explodeProjectile(projectile: ActiveProjectile): void {
           console.log(`🚀 KINEMATIC PLAYER: Sending 3D impulse event (${impulseVec.x.toFixed(1)}, ${impulseVec.y.toFixed(1)}, ${impulseVec.z.toFixed(1)}) with ${airborneBonus}x airborne bonus`);
           
           // Send 3D impulse to controller for manual application
-          window.dispatchEvent(new CustomEvent('blastSelfImpulse', {
-            detail: { 
-              impulse: impulseVec,
-              explosionPosition: explosionPos,
-              distance: dist,
-              isDirectional3D: true
-            }
-          }));
+          gameEvents.emit('blastSelfImpulse', { 
+            impulse: impulseVec,
+            explosionPosition: explosionPos,
+            distance: dist,
+            isDirectional3D: true
+          });
         
       } else {
         // Apply normal impulse to dynamic bodies
@@ -298,14 +295,12 @@ function explodeProjectile(projectile: ActiveProjectile): void {
   cleanupProjectile(projectile);
   
   // Dispatch explosion event
-  window.dispatchEvent(new CustomEvent('rocketExplosion', {
-    detail: {
-      position: explosionPos,
-      radius: projectile.settings.radius,
-      force: projectile.settings.force,
-      affectedCount: affectedCount
-    }
-  }));
+  gameEvents.emit('rocketExplosion', {
+    position: explosionPos,
+    radius: projectile.settings.radius,
+    force: projectile.settings.force,
+    affectedCount: affectedCount
+  });
 }
 
 /**
@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { gameNow } from '../systems/GameClock';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface BlinkAbilityContext {
   playerBody: RAPIER.RigidBody;
@@ -23,6 +25,34 @@ let blinkState: BlinkState = {
   blinkWindowEndTime: 0
 };
 
+// Blinks this session, reported to the server (never reset, so it only counts up)
+let blinkCount = 0;
+
+// Blink parameters
+export const BLINK = {
+  distance: 10.0,              // 10 meters forward (increased from 8m for better traversal)
+  iFramesDuration: 100,        // 0.1 seconds of invincibility
+  regenDisableDuration: 1000,  // 1 second no regen
+  blinkWindowDuration: 500,    // 0.5 second bonus damage window
+  verticalBoost: 0.4,          // Upward component added when holding Space
+  safetyBuffer: 0.5,           // Distance to stop before collision
+  forwardImpulseStrength: 3.0  // Forward momentum after blink
+} as const;
+
+// Killzone boundaries (from controller logic)
+const CRITICAL_KILLZONE = 0.8; // Immediate respawn
+const VOID_THRESHOLD = 1.5; // Void detection threshold
+const SAFE_MIN_HEIGHT = 2.0; // Minimum safe height
+
+/**
+ * Where a blink from this position lands: stopped short of walls, lifted out of the void, or blocked
+ */
+export interface BlinkTarget {
+  position: THREE.Vector3;
+  success: boolean;
+  blockReason: string;
+}
+
 /**
  * Blink Dash - Teleport ability
  * Teleports player forward with brief invincibility and bonus damage window
@@ -39,35 +69,80 @@ export function executeBlink(context: BlinkAbilityContext): void {
   const direction = new THREE.Vector3();
   camera.getWorldDirection(direction);
   
-  // Blink parameters
-  const blinkDistance = 10.0; // 10 meters forward (increased from 8m for better traversal)
-  const iFramesDuration = 100; // 0.1 seconds of invincibility
-  const regenDisableDuration = 1000; // 1 second no regen
-  const blinkWindowDuration = 500; // 0.5 second bonus damage window
-  const verticalBoost = 3.0; // Upward boost when holding Space
-  const safetyBuffer = 0.5; // Distance to stop before collision
-  const forwardImpulseStrength = 3.0; // Forward momentum after blink
-  
-  // Killzone boundaries (from controller logic)
-  const CRITICAL_KILLZONE = 0.8; // Immediate respawn
-  const VOID_THRESHOLD = 1.5; // Void detection threshold
-  const SAFE_MIN_HEIGHT = 2.0; // Minimum safe height
-  
   // Apply vertical boost if Space is held
   const blinkDirection = direction.clone();
   if (isSpacePressed) {
-    blinkDirection.y += 0.4; // Add upward component
+    blinkDirection.y += BLINK.verticalBoost; // Add upward component
     blinkDirection.normalize();
     console.log('⚡ Blink with vertical boost activated');
   }
   
+  const target = resolveBlinkTarget(world, playerPosition, blinkDirection);
+  const finalTargetPosition = target.position;
+  const blockReason = target.blockReason;
+  const blinkSuccess = target.success;
+  
+  if (blinkSuccess) {
+    // Execute the blink
+    playerBody.setTranslation(finalTargetPosition, true);
+    
+    // Apply forward impulse for momentum preservation and feel
+    const forwardImpulse = direction.clone().multiplyScalar(BLINK.forwardImpulseStrength);
+    gameEvents.emit('blinkMomentumImpulse', { 
+      impulse: forwardImpulse,
+      blinkDirection: direction,
+      distance: playerPosition.distanceTo(finalTargetPosition)
+    });
+    
+    // Activate i-frames and other effects
+    const now = gameNow();
+    blinkState.isInIFrames = true;
+    blinkState.iFramesEndTime = now + BLINK.iFramesDuration;
+    blinkState.regenDisabledUntil = now + BLINK.regenDisableDuration;
+    blinkState.blinkWindowEndTime = now + BLINK.blinkWindowDuration;
+    blinkCount++;
+    
+    const actualDistance = playerPosition.distanceTo(finalTargetPosition);
+    console.log(`⚡ BLINK executed to position: ${finalTargetPosition.x.toFixed(1)}, ${finalTargetPosition.y.toFixed(1)}, ${finalTargetPosition.z.toFixed(1)} (${actualDistance.toFixed(1)}m) with forward impulse`);
+    
+    // Visual feedback effect
+    createBlinkEffect(playerPosition, finalTargetPosition);
+    
+  } else {
+    // Blink blocked
+    console.log(`⚡ BLINK blocked - ${blockReason}`);
+    
+    // Dispatch blocked event for feedback
+    gameEvents.emit('blinkBlocked', { 
+      fromPosition: playerPosition, 
+      targetPosition: finalTargetPosition,
+      reason: blockReason
+    });
+  }
+  
+  // Dispatch ability used event
+  gameEvents.emit('abilityUsed', {
+    ability: 'blink',
+    position: playerPosition,
+    targetPosition: finalTargetPosition,
+    success: blinkSuccess,
+    distance: blinkSuccess ? playerPosition.distanceTo(finalTargetPosition) : 0,
+    verticalBoost: isSpacePressed,
+    blockReason: blockReason || undefined
+  });
+}
+
+/**
+ * Find the blink landing spot along a direction (shared by the player's kit and bots)
+ */
+export function resolveBlinkTarget(world: RAPIER.World, playerPosition: THREE.Vector3, blinkDirection: THREE.Vector3): BlinkTarget {
   // Calculate initial target position
   const initialTarget = playerPosition.clone().add(
-    blinkDirection.clone().multiplyScalar(blinkDistance)
+    blinkDirection.clone().multiplyScalar(BLINK.distance)
   );
   
   // Perform raycast to detect collisions
-  const raycastResult = performBlinkRaycast(world, playerPosition, blinkDirection, blinkDistance);
+  const raycastResult = performBlinkRaycast(world, playerPosition, blinkDirection, BLINK.distance);
   
   let finalTargetPosition: THREE.Vector3;
   let blinkSuccess = false;
@@ -75,7 +150,7 @@ export function executeBlink(context: BlinkAbilityContext): void {
   
   if (raycastResult.hit) {
     // Collision detected - position before the hit point
-    const safeDistance = Math.max(0.5, raycastResult.distance - safetyBuffer);
+    const safeDistance = Math.max(0.5, raycastResult.distance - BLINK.safetyBuffer);
     finalTargetPosition = playerPosition.clone().add(
       blinkDirection.clone().multiplyScalar(safeDistance)
     );
@@ -101,63 +176,14 @@ export function executeBlink(context: BlinkAbilityContext): void {
   }
   
   // Perform final collision check at target position
-  if (blinkSuccess && checkBlinkTarget(world, finalTargetPosition)) {
-    // Execute the blink
-    playerBody.setTranslation(finalTargetPosition, true);
-    
-    // Apply forward impulse for momentum preservation and feel
-    const forwardImpulse = direction.clone().multiplyScalar(forwardImpulseStrength);
-    window.dispatchEvent(new CustomEvent('blinkMomentumImpulse', {
-      detail: { 
-        impulse: forwardImpulse,
-        blinkDirection: direction,
-        distance: playerPosition.distanceTo(finalTargetPosition)
-      }
-    }));
-    
-    // Activate i-frames and other effects
-    const now = Date.now();
-    blinkState.isInIFrames = true;
-    blinkState.iFramesEndTime = now + iFramesDuration;
-    blinkState.regenDisabledUntil = now + regenDisableDuration;
-    blinkState.blinkWindowEndTime = now + blinkWindowDuration;
-    
-    const actualDistance = playerPosition.distanceTo(finalTargetPosition);
-    console.log(`⚡ BLINK executed to position: ${finalTargetPosition.x.toFixed(1)}, ${finalTargetPosition.y.toFixed(1)}, ${finalTargetPosition.z.toFixed(1)} (${actualDistance.toFixed(1)}m) with forward impulse`);
-    
-    // Visual feedback effect
-    createBlinkEffect(playerPosition, finalTargetPosition);
-    
-  } else {
-    // Blink blocked
+  if (blinkSuccess && !checkBlinkTarget(world, finalTargetPosition)) {
     blinkSuccess = false;
-    if (!blockReason) {
-      blockReason = 'target collision';
-    }
-    console.log(`⚡ BLINK blocked - ${blockReason}`);
-    
-    // Dispatch blocked event for feedback
-    window.dispatchEvent(new CustomEvent('blinkBlocked', {
-      detail: { 
-        fromPosition: playerPosition, 
-        targetPosition: finalTargetPosition,
-        reason: blockReason
-      }
-    }));
+  }
+  if (!blinkSuccess && !blockReason) {
+    blockReason = 'target collision';
   }
   
-  // Dispatch ability used event
-  window.dispatchEvent(new CustomEvent('abilityUsed', {
-    detail: {
-      ability: 'blink',
-      position: playerPosition,
-      targetPosition: finalTargetPosition,
-      success: blinkSuccess,
-      distance: blinkSuccess ? playerPosition.distanceTo(finalTargetPosition) : 0,
-      verticalBoost: isSpacePressed,
-      blockReason: blockReason || undefined
-    }
-  }));
+  return { position: finalTargetPosition, success: blinkSuccess, blockReason };
 }
 
 /**
@@ -230,20 +256,18 @@ function createBlinkEffect(fromPos: THREE.Vector3, toPos: THREE.Vector3): void {
   console.log(`⚡ Blink effect: ${fromPos.x.toFixed(1)},${fromPos.y.toFixed(1)},${fromPos.z.toFixed(1)} → ${toPos.x.toFixed(1)},${toPos.y.toFixed(1)},${toPos.z.toFixed(1)}`);
   
   // Dispatch event for visual effects system
-  window.dispatchEvent(new CustomEvent('blinkEffect', {
-    detail: {
-      fromPosition: fromPos,
-      toPosition: toPos,
-      timestamp: Date.now()
-    }
-  }));
+  gameEvents.emit('blinkEffect', {
+    fromPosition: fromPos,
+    toPosition: toPos,
+    timestamp: gameNow()
+  });
 }
 
 /**
  * Update blink state (call from game loop)
  */
 export function updateBlink(): void {
-  const now = Date.now();
+  const now = gameNow();
   
   // Update i-frames
   if (blinkState.isInIFrames && now >= blinkState.iFramesEndTime) {
@@ -258,21 +282,21 @@ export function updateBlink(): void {
  * Check if player is currently in invincibility frames
  */
 export function isInIFrames(): boolean {
-  return blinkState.isInIFrames && Date.now() < blinkState.iFramesEndTime;
+  return blinkState.isInIFrames && gameNow() < blinkState.iFramesEndTime;
 }
 
 /**
  * Check if regeneration should be disabled
  */
 export function isRegenDisabled(): boolean {
-  return Date.now() < blinkState.regenDisabledUntil;
+  return gameNow() < blinkState.regenDisabledUntil;
 }
 
 /**
  * Check if we're in the bonus damage window after blink
  */
 export function isInBlinkWindow(): boolean {
-  return Date.now() < blinkState.blinkWindowEndTime;
+  return gameNow() < blinkState.blinkWindowEndTime;
 }
 
 /**
@@ -282,6 +306,10 @@ export function getBlinkState(): BlinkState {
   return blinkState;
 }
 
+export function getBlinkCount(): number {
+  return blinkCount;
+}
+
 /**
  * Reset blink state (useful for respawn, etc.)
  */
@@ -1,4 +1,10 @@
-export type PlayerClass = 'blast' | 'grapple' | 'blink';
+import type { PlayerClass } from '../../../shared/protocol';
+import { ABILITY_COOLDOWNS } from '../../../shared/combat';
+import { gameNow } from '../systems/GameClock';
+import { gameEvents } from '../systems/GameEvents';
+
+// Class union is part of the shared network protocol
+export type { PlayerClass };
 
 export interface AbilityState {
   cooldownTime: number;
@@ -21,17 +27,17 @@ export interface AbilityConfig {
 // Ability configurations for each class
 export const ABILITY_CONFIGS: Record<PlayerClass, AbilityConfig> = {
   blast: {
-    cooldownDuration: 3000, // 3 seconds
+    cooldownDuration: ABILITY_COOLDOWNS.blast, // 3 seconds
     name: 'Blast Jump',
     description: 'Radial impulse that launches you and nearby players'
   },
   grapple: {
-    cooldownDuration: 1200, // 1.2 seconds
+    cooldownDuration: ABILITY_COOLDOWNS.grapple, // 1.2 seconds
     name: 'Grapple Swing',
     description: 'Shoot a grappling hook to swing from anchor points'
   },
   blink: {
-    cooldownDuration: 2500, // 2.5 seconds
+    cooldownDuration: ABILITY_COOLDOWNS.blink, // 2.5 seconds
     name: 'Blink Dash',
     description: 'Teleport forward with brief invincibility frames'
   }
@@ -55,7 +61,7 @@ export function createClassKit(className: PlayerClass): ClassKit {
  * Updates the ability state after use
  */
 export function useAbility(kit: ClassKit): boolean {
-  const now = Date.now();
+  const now = gameNow();
   
   if (!kit.ability.isReady) {
     return false; // Still on cooldown
@@ -73,7 +79,7 @@ export function useAbility(kit: ClassKit): boolean {
 export function updateCooldown(kit: ClassKit): void {
   if (kit.ability.isReady) return;
   
-  const now = Date.now();
+  const now = gameNow();
   const timeSinceUse = now - kit.ability.lastUsed;
   
   if (timeSinceUse >= kit.ability.cooldownTime) {
@@ -87,7 +93,7 @@ export function updateCooldown(kit: ClassKit): void {
 export function getRemainingCooldown(kit: ClassKit): number {
   if (kit.ability.isReady) return 0;
   
-  const now = Date.now();
+  const now = gameNow();
   const timeSinceUse = now - kit.ability.lastUsed;
   const remaining = kit.ability.cooldownTime - timeSinceUse;
   
@@ -113,9 +119,7 @@ export function setPlayerClass(className: PlayerClass): void {
   currentPlayerKit = createClassKit(className);
   
   // Dispatch custom event for class change
-  window.dispatchEvent(new CustomEvent('playerClassChanged', {
-    detail: { className, kit: currentPlayerKit }
-  }));
+  gameEvents.emit('playerClassChanged', { className, kit: currentPlayerKit });
 }
 
 export function getCurrentPlayerKit(): ClassKit {
@@ -2,6 +2,8 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { SWING } from './swingConfig';
 import { getCurrentPlayerKit, getRemainingCooldown } from './classKit';
+import { gameNow } from '../systems/GameClock';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface GrappleAbilityContext {
   playerBody: RAPIER.RigidBody;
@@ -42,9 +44,7 @@ const tempVector2 = new THREE.Vector3();
 const tempVector3 = new THREE.Vector3();
 
 // Listen for forced grapple release (during respawn, etc.)
-window.addEventListener('forceReleaseGrapple', (event: Event) => {
-  const customEvent = event as CustomEvent;
-  const reason = customEvent.detail?.reason || 'forced';
+gameEvents.on('forceReleaseGrapple', ({ reason }) => {
   
   if (swingState.isSwinging) {
     // Create a dummy context for cleanup - we only need scene for visual cleanup
@@ -119,8 +119,8 @@ export function executeGrapple(context: GrappleAbilityContext): void {
     swingState.isSwinging = true;
     swingState.anchorPoint = anchorPoint.clone();
     swingState.ropeLength = Math.max(hit.distance - 0.5, SWING.minRope);
-    swingState.attachTime = Date.now();
-    swingState.lastInputTime = Date.now();
+    swingState.attachTime = gameNow();
+    swingState.lastInputTime = gameNow();
     
     // Create visuals
     createSwingVisuals(scene, anchorPoint, playerPosition);
@@ -142,14 +142,20 @@ export function executeGrapple(context: GrappleAbilityContext): void {
 }
 
 /**
- * Perform raycast for grapple targeting
+ * Perform raycast for grapple targeting (bots aim their grapple with it too)
  */
-function performGrappleRaycast(world: RAPIER.World, origin: THREE.Vector3, direction: THREE.Vector3) {
+export function performGrappleRaycast(world: RAPIER.World, origin: THREE.Vector3, direction: THREE.Vector3) {
   // Offset ray start to avoid self-collision
   const rayOrigin = origin.clone().add(direction.clone().multiplyScalar(0.5));
   
   const ray = new RAPIER.Ray(rayOrigin, direction);
-  const hit = world.castRay(ray, SWING.maxDistance, true);
+  // Skip the player's own capsule - the offset origin is still inside it
+  const hit = world.castRay(
+    ray,
+    SWING.maxDistance,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS | RAPIER.QueryFilterFlags.EXCLUDE_KINEMATIC
+  );
   
   if (hit) {
     const hitPoint = ray.pointAt(hit.timeOfImpact);
@@ -291,7 +297,7 @@ function handleAirControl(context: GrappleAbilityContext, deltaTime: number): vo
   
   // Update input time for auto-release
   if (hasInput) {
-    swingState.lastInputTime = Date.now();
+    swingState.lastInputTime = gameNow();
   }
 }
 
@@ -301,7 +307,7 @@ function handleAirControl(context: GrappleAbilityContext, deltaTime: number): vo
 function checkAutoRelease(context: GrappleAbilityContext): void {
   if (!swingState.isSwinging) return;
   
-  const currentTime = Date.now();
+  const currentTime = gameNow();
   const timeSinceInput = (currentTime - swingState.lastInputTime) / 1000;
   
   // Auto-release after no input
@@ -353,8 +359,8 @@ function releaseSwing(reason: string, context: GrappleAbilityContext): void {
   swingState.attachTime = 0;
   swingState.lastInputTime = 0;
   
-  // Capture current momentum before notifying controller
-  const currentVel = context.playerBody.linvel();
+  // Capture current momentum before notifying controller (forced releases pass no body - nothing to carry)
+  const currentVel = context.playerBody?.linvel() ?? { x: 0, y: 0, z: 0 };
   let releaseVelocity = new THREE.Vector3(currentVel.x, currentVel.y, currentVel.z);
   
   // SWING ARC MOMENTUM BOOST: Add extra upward momentum at bottom of swing arc
@@ -372,19 +378,15 @@ function releaseSwing(reason: string, context: GrappleAbilityContext): void {
       releaseVelocity.y += arcBoost;
       
       // Dispatch swing bottom event for combat system
-      window.dispatchEvent(new CustomEvent('grappleSwingBottom', {
-        detail: { timestamp: Date.now(), horizontalSpeed }
-      }));
+      gameEvents.emit('grappleSwingBottom', { timestamp: gameNow(), horizontalSpeed });
     }
   }
   
   // Send swing momentum to controller (like blast impulse)
-  window.dispatchEvent(new CustomEvent('swingReleaseImpulse', {
-    detail: { 
-      velocity: releaseVelocity,
-      reason: reason
-    }
-  }));
+  gameEvents.emit('swingReleaseImpulse', { 
+    velocity: releaseVelocity,
+    reason: reason
+  });
   
   // Notify controller
   notifySwingState(false);
@@ -395,7 +397,7 @@ function releaseSwing(reason: string, context: GrappleAbilityContext): void {
   
   if (remainingCooldown <= 0) {
     // Set proper cooldown using the ability system
-    kit.ability.lastUsed = Date.now();
+    kit.ability.lastUsed = gameNow();
     kit.ability.isReady = false;
     console.log(`🪝 Grapple cooldown applied after swing release (${reason})`);
   } else {
@@ -405,9 +407,7 @@ function releaseSwing(reason: string, context: GrappleAbilityContext): void {
   console.log(`🪝 Swing released (${reason})`);
   
   // Dispatch grapple detach event for combat system
-  window.dispatchEvent(new CustomEvent('grappleDetached', {
-    detail: { reason, timestamp: Date.now() }
-  }));
+  gameEvents.emit('grappleDetached', { reason, timestamp: gameNow() });
 }
 
 /**
@@ -511,9 +511,7 @@ function updateRopeVisual(context: GrappleAbilityContext): void {
 // Helper functions
 
 function notifySwingState(isSwinging: boolean): void {
-  window.dispatchEvent(new CustomEvent('swingStateChanged', {
-    detail: { isSwinging }
-  }));
+  gameEvents.emit('swingStateChanged', { isSwinging });
 }
 
 /**
@@ -548,6 +546,18 @@ export function onKeyUp(event: KeyboardEvent): void {
   pressedKeys.delete(event.code);
 }
 
+/**
+ * Air control keys for this physics tick, taken from the controller's input command
+ */
+export function setAirControlInput(input: { forward: boolean; back: boolean; left: boolean; right: boolean; jump: boolean }): void {
+  pressedKeys.clear();
+  if (input.forward) pressedKeys.add('KeyW');
+  if (input.back) pressedKeys.add('KeyS');
+  if (input.left) pressedKeys.add('KeyA');
+  if (input.right) pressedKeys.add('KeyD');
+  if (input.jump) pressedKeys.add('Space');
+}
+
 // State accessors
 export function getGrappleState(): GrappleState {
   return swingState;
@@ -594,6 +604,7 @@ export function cleanupGrappleSystem(scene: THREE.Scene): void {
   swingState.ropeLength = 0;
   swingState.attachTime = 0;
   swingState.lastInputTime = 0;
+  pressedKeys.clear();
 
   console.log('🧹 Grapple system cleaned up - all resources disposed');
 }
@@ -607,7 +618,7 @@ export function isSwinging(): boolean {
  */
 function debugSwing(): void {
   if (swingState.isSwinging && swingState.anchorPoint) {
-    const currentTime = Date.now();
+    const currentTime = gameNow();
     const swingDuration = (currentTime - swingState.attachTime) / 1000;
     const timeSinceInput = (currentTime - swingState.lastInputTime) / 1000;
     
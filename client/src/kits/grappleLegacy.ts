@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface GrappleAbilityContext {
   playerBody: RAPIER.RigidBody;
@@ -78,16 +79,12 @@ export function executeGrapple(context: GrappleAbilityContext): void {
     console.log(`🪝 Swing attached @ (${anchorPoint.x.toFixed(1)}, ${anchorPoint.y.toFixed(1)}, ${anchorPoint.z.toFixed(1)}) distance: ${hit.distance.toFixed(1)}m`);
     
     // Notify controller of swing state
-    window.dispatchEvent(new CustomEvent('swingStateChanged', {
-      detail: { isSwinging: true }
-    }));
+    gameEvents.emit('swingStateChanged', { isSwinging: true });
   } else {
     console.log('🪝 Swing missed - no valid anchor point found');
     
     // Put ability on whiff cooldown (0.5s)
-    window.dispatchEvent(new CustomEvent('abilityWhiffed', {
-      detail: { ability: 'grapple', cooldown: 0.5 }
-    }));
+    gameEvents.emit('abilityWhiffed', { ability: 'grapple', cooldown: 0.5 });
   }
 }
 
@@ -164,9 +161,7 @@ function releaseGrapple(context: GrappleAbilityContext): void {
   console.log('🪝 Swing released');
   
   // Notify controller of swing state change
-  window.dispatchEvent(new CustomEvent('swingStateChanged', {
-    detail: { isSwinging: false }
-  }));
+  gameEvents.emit('swingStateChanged', { isSwinging: false });
 }
 
 /**
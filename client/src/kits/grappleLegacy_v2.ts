@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
+import { gameEvents } from '../systems/GameEvents';
 
 export interface GrappleAbilityContext {
   playerBody: RAPIER.RigidBody;
@@ -72,9 +73,7 @@ export function executeGrapple(context: GrappleAbilityContext): void {
       console.log(`🚫 Grapple blocked: hit point Y=${anchorPoint.y.toFixed(1)} too low (player Y=${playerPosition.y.toFixed(1)})`);
       
       // Whiff cooldown for floor attempts
-      window.dispatchEvent(new CustomEvent('abilityWhiffed', {
-        detail: { ability: 'grapple', cooldown: 0.5 }
-      }));
+      gameEvents.emit('abilityWhiffed', { ability: 'grapple', cooldown: 0.5 });
       return;
     }
     
@@ -98,9 +97,7 @@ export function executeGrapple(context: GrappleAbilityContext): void {
     }
     
     // Notify controller of swing state (speed override)
-    window.dispatchEvent(new CustomEvent('swingStateChanged', {
-      detail: { isSwinging: true }
-    }));
+    gameEvents.emit('swingStateChanged', { isSwinging: true });
     
     console.log(`✅ Swing dist ${hit.distance.toFixed(1)}m, ropeLength ${grappleState.ropeLength.toFixed(1)}m`);
     
@@ -108,9 +105,7 @@ export function executeGrapple(context: GrappleAbilityContext): void {
     console.log('🪝 Grapple missed - no valid anchor point');
     
     // Whiff cooldown
-    window.dispatchEvent(new CustomEvent('abilityWhiffed', {
-      detail: { ability: 'grapple', cooldown: 0.5 }
-    }));
+    gameEvents.emit('abilityWhiffed', { ability: 'grapple', cooldown: 0.5 });
   }
 }
 
@@ -191,9 +186,7 @@ function detachGrapple(context: GrappleAbilityContext): void {
   grappleState.attachTime = 0;
   
   // Notify controller (restore normal maxSpeed)
-  window.dispatchEvent(new CustomEvent('swingStateChanged', {
-    detail: { isSwinging: false }
-  }));
+  gameEvents.emit('swingStateChanged', { isSwinging: false });
   
   console.log('🪝 Swing released');
 }
@@ -8,10 +8,13 @@ import {
   getRemainingCooldown,
   getCooldownProgress
 } from './classKit';
-import { executeBlast, updateBlast, type BlastAbilityContext } from './blast';
+import { executeBlast, updateBlast, resetBlastState, type BlastAbilityContext } from './blast';
 import { legacyBlast, updateLegacyBlast, type BlastAbilityContext as LegacyBlastContext } from './blastLegacy';
-import { executeGrapple, updateGrapple, onKeyDown as grappleKeyDown, onKeyUp as grappleKeyUp, isSwinging, type GrappleAbilityContext } from './grapple';
-import { executeBlink, updateBlink, type BlinkAbilityContext } from './blink';
+import { executeGrapple, updateGrapple, setAirControlInput, isSwinging, cleanupGrappleSystem, type GrappleAbilityContext } from './grapple';
+import { executeBlink, updateBlink, resetBlinkState, type BlinkAbilityContext } from './blink';
+import { gameNow } from '../systems/GameClock';
+import type { InputCommand } from '../net/ClientPrediction';
+import { gameEvents, type GameEventMap } from '../systems/GameEvents';
 
 export interface AbilityContext {
   playerBody: RAPIER.RigidBody;
@@ -32,6 +35,11 @@ export function isValidAbilityContext(context: any): context is AbilityContext {
     context.scene;
 }
 
+/**
+ * Movement keys held during a physics tick (from the controller's input command)
+ */
+export type AbilityTickInput = Pick<InputCommand, 'forward' | 'back' | 'left' | 'right' | 'jump'>;
+
 export interface AbilityCooldownState {
   isReady: boolean;
   remainingTime: number;
@@ -48,9 +56,12 @@ export class AbilityManager {
   private cooldownState: AbilityCooldownState;
   private keyDownHandler: (event: KeyboardEvent) => void;
   private updateInterval: number | null = null;
-  private animationFrame: number | null = null;
-  private pressedKeys: Set<string> = new Set(); // Track currently pressed keys
+  private tickInput: AbilityTickInput = { forward: false, back: false, left: false, right: false, jump: false };
   private useLegacyBlast: boolean = false; // Dev toggle for blast type
+  private inputLocked: boolean = false; // Race countdown
+  private liveInputEnabled: boolean = true; // Off while a replay drives the abilities
+  private activationQueued: boolean = false; // E pressed, fires on the next physics tick
+  private events = gameEvents.scope();
 
   constructor() {
     this.cooldownState = {
@@ -68,29 +79,43 @@ export class AbilityManager {
    * Initialize the ability manager with game context
    */
   initialize(context: AbilityContext): void {
+    this.shutdown();
     this.context = context;
     this.startUpdateLoop();
   }
 
+  /**
+   * Detach from the match: stop the cooldown loop and clear the kits' rockets, swing and blink state
+   * (call before its physics world is freed; initialize() attaches to the next one)
+   */
+  shutdown(): void {
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+    
+    if (this.context) {
+      resetBlastState();
+      cleanupGrappleSystem(this.context.scene);
+      resetBlinkState();
+    }
+    this.context = null;
+    this.activationQueued = false;
+  }
+
   /**
    * Clean up event listeners and intervals - with error handling
    */
   destroy(): void {
     try {
       window.removeEventListener('keydown', this.keyDownHandler);
-      window.removeEventListener('keyup', this.handleKeyUp.bind(this));
-      window.removeEventListener('playerClassChanged', this.handleClassChange as EventListener);
+      this.events.dispose();
       
       if (this.updateInterval) {
         clearInterval(this.updateInterval);
         this.updateInterval = null;
       }
       
-      if (this.animationFrame) {
-        cancelAnimationFrame(this.animationFrame);
-        this.animationFrame = null;
-      }
-      
       console.log('✅ AbilityManager destroyed successfully');
     } catch (error) {
       console.error('⚠️ Error during AbilityManager cleanup:', error);
@@ -131,7 +156,7 @@ export class AbilityManager {
           playerBody: ctx.playerBody,
           world: ctx.world,
           camera: ctx.camera,
-          isSpacePressed: this.pressedKeys.has('Space')
+          isSpacePressed: this.tickInput.jump
         } as BlinkAbilityContext);
       
       default:
@@ -139,6 +164,28 @@ export class AbilityManager {
     }
   }
 
+  /**
+   * Fire the ability on the next physics tick (keeps activations in lockstep with the simulation)
+   */
+  queueActivation(): void {
+    this.activationQueued = true;
+  }
+
+  /**
+   * Ignore the keyboard (a replay is feeding recorded activations instead)
+   */
+  setLiveInputEnabled(enabled: boolean): void {
+    this.liveInputEnabled = enabled;
+    this.activationQueued = false; // a pending press belongs to the previous input source
+  }
+
+  /**
+   * Block ability use (race countdown)
+   */
+  setInputLocked(locked: boolean): void {
+    this.inputLocked = locked;
+  }
+
   /**
    * Handle ability activation
    */
@@ -148,6 +195,13 @@ export class AbilityManager {
       return false;
     }
 
+    if (this.inputLocked) {
+      console.log('🔒 Abilities locked until the race starts');
+      return false;
+    }
+
+    // Readiness is evaluated at activation time, not on the HUD interval
+    updateCurrentPlayerKit();
     const kit = getCurrentPlayerKit();
     
     // SPECIAL HANDLING FOR GRAPPLE: No cooldown until swing is released
@@ -180,12 +234,10 @@ export class AbilityManager {
       handler(this.context);
       
       // Dispatch success event
-      window.dispatchEvent(new CustomEvent('abilityActivated', {
-        detail: {
-          className: kit.className,
-          timestamp: Date.now()
-        }
-      }));
+      gameEvents.emit('abilityActivated', {
+        className: kit.className,
+        timestamp: gameNow()
+      });
       
       console.log(`✨ ${kit.className.toUpperCase()} ability activated`);
       return true;
@@ -200,18 +252,12 @@ export class AbilityManager {
    * Handle keyboard input
    */
   private handleKeyDown(event: KeyboardEvent): void {
-    // Track pressed keys
-    this.pressedKeys.add(event.code);
-    
-    // Forward air control keys to grapple system
-    if (['KeyA', 'KeyD', 'KeyW', 'KeyS', 'Space'].includes(event.code)) {
-      grappleKeyDown(event);
-    }
+    if (!this.liveInputEnabled) return;
     
     // Only listen for 'E' key
     if (event.code === 'KeyE' && !event.repeat) {
       event.preventDefault();
-      this.activateAbility();
+      this.queueActivation();
     }
     
     // Dev mode: Toggle blast type with 'L' key
@@ -222,24 +268,11 @@ export class AbilityManager {
     }
   }
 
-  /**
-   * Handle keyboard release
-   */
-  private handleKeyUp(event: KeyboardEvent): void {
-    // Remove released keys
-    this.pressedKeys.delete(event.code);
-    
-    // Forward air control keys to grapple system
-    if (['KeyA', 'KeyD', 'KeyW', 'KeyS', 'Space'].includes(event.code)) {
-      grappleKeyUp(event);
-    }
-  }
-
   /**
    * Handle class change events
    */
-  private handleClassChange(event: CustomEvent): void {
-    console.log(`🔄 Player class changed to: ${event.detail.className}`);
+  private handleClassChange({ className }: GameEventMap['playerClassChanged']): void {
+    console.log(`🔄 Player class changed to: ${className}`);
   }
 
   /**
@@ -247,46 +280,58 @@ export class AbilityManager {
    */
   private setupEventListeners(): void {
     window.addEventListener('keydown', this.keyDownHandler);
-    window.addEventListener('keyup', this.handleKeyUp.bind(this));
-    window.addEventListener('playerClassChanged', this.handleClassChange as EventListener);
+    this.events.on('playerClassChanged', this.handleClassChange);
   }
 
   /**
-   * Start the update loop for cooldowns and ability states
+   * Start the update loop for cooldowns (HUD state)
    */
   private startUpdateLoop(): void {
-    // Update cooldown state regularly
     this.updateInterval = setInterval(() => {
-      this.updateCooldownState();
+      // Replays run on recorded time - wall-clock checks would end cooldowns early
+      if (this.liveInputEnabled) {
+        this.updateCooldownState();
+      }
     }, 50); // 20fps updates
+  }
 
-    // Update ability-specific states in animation frame
-    const updateAbilityStates = () => {
-      if (this.context) {
-        // Update blast state - PERFORMANCE FIX: Only run active system, not both
-        updateBlast();
-        // DISABLED: Legacy blast updates to prevent duplicate computation
-        // Legacy blast still available for rollback but doesn't consume CPU
-        // if (import.meta.env.DEV) {
-        //   updateLegacyBlast();
-        // }
-        
-        // Update grapple physics and visuals
-        updateGrapple({
-          playerBody: this.context.playerBody,
-          world: this.context.world,
-          camera: this.context.camera,
-          scene: this.context.scene
-        } as GrappleAbilityContext);
-        
-        // Update blink state
-        updateBlink();
-      }
-      
-      this.animationFrame = requestAnimationFrame(updateAbilityStates);
-    };
+  /**
+   * Advance ability simulation by one fixed physics tick (rockets, swing physics, blink windows).
+   * Runs in lockstep with physicsWorld.step so recorded inputs replay identically.
+   */
+  update(input: AbilityTickInput): void {
+    if (!this.context) return;
+    
+    this.tickInput = { ...input };
+    this.updateCooldownState();
+    
+    // Aim from this tick's camera, not whatever the last rendered frame left behind
+    this.context.camera.updateMatrixWorld();
+    
+    if (this.activationQueued) {
+      this.activationQueued = false;
+      this.activateAbility();
+    }
+    
+    // Update blast state - PERFORMANCE FIX: Only run active system, not both
+    updateBlast();
+    // DISABLED: Legacy blast updates to prevent duplicate computation
+    // Legacy blast still available for rollback but doesn't consume CPU
+    // if (import.meta.env.DEV) {
+    //   updateLegacyBlast();
+    // }
+    
+    // Update grapple physics and visuals (air control follows the tick's movement keys)
+    setAirControlInput(input);
+    updateGrapple({
+      playerBody: this.context.playerBody,
+      world: this.context.world,
+      camera: this.context.camera,
+      scene: this.context.scene
+    } as GrappleAbilityContext);
     
-    updateAbilityStates();
+    // Update blink state
+    updateBlink();
   }
 
   /**
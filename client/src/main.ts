@@ -1,11 +1,11 @@
 import './style.css';
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
-import initPhysics from './physics';
+import initPhysics, { SWING_TEST_CEILING, createSwingTestCeilingCollider } from './physics';
 import type { PhysicsWorld } from './physics';
 import { DebugUI } from './ui';
 import { GameMenu } from './menu';
-import { LapController } from './systems/LapController';
+import { LapController, buildRouteStages } from './systems/LapController';
 import { CheckpointSystem } from './systems/CheckpointSystem';
 import { LapHUD } from './hud/Hud';
 import { GameHUD } from './hud/GameHUD';
@@ -15,6 +15,31 @@ import { AbilityHUD } from './kits/AbilityHUD';
 import { MeleeCombat, TargetDummy, type MeleeTarget } from './combat';
 import { DummyPlacementManager } from './combat/DummyPlacementManager';
 import { DummyLoader } from './data/DummyLoader';
+import { NetClient } from './net/NetClient';
+import { PlayerHealth } from './systems/PlayerHealth';
+import { RaceSession, RACE_CONFIG } from './systems/RaceSession';
+import { RaceHUD } from './hud/RaceHUD';
+import { ClassPicker } from './hud/ClassPicker';
+import { RacePositionTracker, progressToCheckpoint, type RacerProgress } from './systems/RacePositions';
+import { SlipstreamSystem } from './systems/Slipstream';
+import { LapHistoryStore } from './systems/LapHistory';
+import { GhostPlayer, downloadGhostFile, validateGhostFile, type GhostRecording } from './systems/Ghost';
+import { SPEED_MODIFIERS } from './systems/SpeedModifiers';
+import { pinGameTime } from './systems/GameClock';
+import { InputRecorder, tickToCommand, deserializeMovementState, serializeMovementState, downloadReplayFile, validateReplayFile, toVec3, type ReplayEvent, type ReplayFile } from './systems/InputReplay';
+import { ReplayViewer, type ReplayHost } from './dev/ReplayViewer';
+import { resetBlastState } from './kits/blast';
+import { loadTrackManifest } from './track/TrackRegistry';
+import { buildTrackRoute } from './track/TrackManifest';
+import { BotManager } from './bots/BotManager';
+import { isRegenDisabled, getBlinkCount } from './kits/blink';
+import { isSwinging } from './kits/grapple';
+import { resolveDefense, type DefenseStance } from '../../shared/combat';
+import type { PlayerClass } from '../../shared/protocol';
+import type { MovementState } from './net/ClientPrediction';
+import { gameEvents } from './systems/GameEvents';
+import { SystemRegistry, type GameMode } from './systems/SystemRegistry';
+import { matchSettingsFromUrl, type MatchSettings } from './systems/MatchSettings';
 
 // Archive confirmation
 console.info("🗄️ Legacy swing archived:", ["grappleLegacy_v2.ts"]);
@@ -83,11 +108,11 @@ const fixedTimeStep = 1 / 60; // 60 Hz physics
 let accumulator = 0;
 
 /**
- * Add ceiling at Y=35 with grey-white checkerboard pattern for swing testing
+ * Add ceiling at Y=35 with grey-white checkerboard pattern for swing testing (returns the mesh for teardown)
  */
-function addSwingTestCeiling(scene: THREE.Scene, world?: RAPIER.World): void {
-  const ceilingY = 35;
-  const ceilingSize = 600; // 600x600 units (expanded for grapple accommodation)
+function addSwingTestCeiling(scene: THREE.Scene, world?: RAPIER.World): THREE.Mesh {
+  const ceilingY = SWING_TEST_CEILING.Y;
+  const ceilingSize = SWING_TEST_CEILING.SIZE; // 600x600 units (expanded for grapple accommodation)
   
   // Create ceiling geometry
   const ceilingGeometry = new THREE.PlaneGeometry(ceilingSize, ceilingSize);
@@ -129,16 +154,14 @@ function addSwingTestCeiling(scene: THREE.Scene, world?: RAPIER.World): void {
   
   // Create physics collider for the ceiling (CRITICAL for grapple!)
   if (world) {
-    const ceilingBody = world.createRigidBody(
-      RAPIER.RigidBodyDesc.fixed().setTranslation(0, ceilingY, 0)
-    );
-    const ceilingCollider = RAPIER.ColliderDesc.cuboid(ceilingSize / 2, 0.1, ceilingSize / 2);
-    world.createCollider(ceilingCollider, ceilingBody);
+    createSwingTestCeilingCollider(world);
     
     console.log(`🏗️ Added ceiling at Y=${ceilingY} with ${ceilingSize}x${ceilingSize} checkerboard pattern + collision`);
   } else {
     console.log(`🏗️ Added ceiling at Y=${ceilingY} with ${ceilingSize}x${ceilingSize} checkerboard pattern (no collision)`);
   }
+  
+  return ceiling;
 }
 
 /**
@@ -298,185 +321,1208 @@ let movementTrail: MovementTrail | null = null;
 // Initialize screen flash system
 const screenFlash = new ScreenFlash();
 
+// The first match comes from the URL (e.g. ?track=lowpoly_racetrack&bots=3, or ?room=lobby&name=Sean), later ones from the menu
+const urlParams = new URLSearchParams(window.location.search);
+let matchSettings: MatchSettings = matchSettingsFromUrl(urlParams, getCurrentPlayerKit().className);
+let track = loadTrackManifest(matchSettings.trackId);
+const netClient = new NetClient(scene);
+
+// Local player's health pool (server authoritative when in a room)
+const playerHealth = new PlayerHealth();
+
+// Solo race rules (lap count set per match); rooms run their race on the server
+const LOCAL_RACER_ID = 'local';
+const raceSession = new RaceSession();
+let raceHUD: RaceHUD | null = null;
+
+// Solo bot racers
+let botManager: BotManager | null = null;
+
+// The local player as the bots' melee target, with the same block and parry rules as a server-confirmed hit
+const localMeleeTarget: MeleeTarget = {
+  id: LOCAL_RACER_ID,
+  position: new THREE.Vector3(),
+  getDefenseStance: () => physicsWorld?.fpsController.getBlockState().getDefenseStance() ?? 'none',
+  takeDamage: (damage, direction) => {
+    const defense = resolveDefense(damage, 0, localMeleeTarget.getDefenseStance?.() ?? 'none');
+    if (defense.parried) {
+      gameEvents.emit('specialHitEffect', { type: 'parry', timestamp: Date.now() });
+      gameEvents.emit('parry', { defenderId: LOCAL_RACER_ID, isLocalDefender: true, isLocalAttacker: false });
+      return;
+    }
+    playerHealth.takeDamage(defense.damage, direction);
+  },
+  applyKnockback: (force, direction) => {
+    physicsWorld?.fpsController.applyKnockback(force, direction);
+    recordReplayEvent({ type: 'knockback', force, direction: toVec3(direction) });
+  }
+};
+
+// Personal bests and lap history persisted on this device (shown in the menu's records panel)
+const lapHistory = new LapHistoryStore();
+
+// Class picked before each race (production builds hold it until the race ends)
+const classPicker = new ClassPicker(lapHistory);
+
+// Race against the personal-best ghost (or one imported from a teammate's file)
+const ghostPlayer = new GhostPlayer(scene);
+let importedGhost: GhostRecording | null = null;
+
+// Session input recording (F9 saves it for a bug report, F10 opens one in the replay viewer)
+const inputRecorder = new InputRecorder();
+let lastRespawnPoint: THREE.Vector3 | null = null;
+
 // gameMenu is used via event handlers
 
 // Handle reset event from menu
-window.addEventListener('game-reset', () => {
+gameEvents.on('game-reset', () => {
   if (physicsWorld) {
-    physicsWorld.fpsController.reset();
+    physicsWorld.fpsController.reset('manual');
   }
 });
 
 // Listen for respawn events to trigger red flash
-window.addEventListener('playerRespawn', () => {
+gameEvents.on('playerRespawn', ({ reason }) => {
   screenFlash.flash('red', 400);
+  
+  // Controller respawns (out of bounds, KO) come back at full health
+  if (reason === 'out-of-bounds' || reason === 'ko' || reason === 'race-start' || reason === 'manual') {
+    playerHealth.reset();
+  }
+  
+  // Respawning clears speed modifiers; re-evaluate the draft from scratch
+  slipstream?.reset();
+});
+
+// KO → respawn at the previous checkpoint
+gameEvents.on('playerKO', () => {
+  physicsWorld?.fpsController.reset('ko');
 });
 
-// Initialize physics and checkpoint system
+// Health bar and damage direction indicators
+gameEvents.on('playerHealthChanged', ({ current, max, damage, direction }) => {
+  gameHUD?.updateHealth(current, max);
+  
+  if (damage > 0 && direction && physicsWorld) {
+    gameHUD?.showDamageIndicator(direction, physicsWorld.fpsController.getRotation().y);
+  }
+});
+
+// Match state owned by the systems below (null between matches)
 let physicsWorld: PhysicsWorld | null = null;
 let lapController: LapController | null = null;
 let checkpointSystem: CheckpointSystem | null = null;
 let lapHUD: LapHUD | null = null;
 let gameHUD: GameHUD | null = null;
+let racePositions: RacePositionTracker | null = null;
+let slipstream: SlipstreamSystem | null = null;
 let meleeCombat: MeleeCombat | null = null;
 let targetDummies: MeleeTarget[] = [];
+let dummyStance: DefenseStance = 'none';
 let dummyPlacementManager: DummyPlacementManager | null = null;
 let dummyLoader: DummyLoader | null = null;
 
-initPhysics(scene, camera).then((world) => {
-  physicsWorld = world;
+/**
+ * The match's systems. Registration order is init order (dependencies first) and update order within a phase
+ */
+const systems = new SystemRegistry();
+
+// Race phases (countdown → racing → overtime → results) lock input before the frame's physics
+systems.register({
+  name: 'race-session',
+  phase: 'input',
+  init: ({ mode }) => {
+    if (mode === 'solo') {
+      raceSession.addEntrant({
+        id: LOCAL_RACER_ID,
+        name: urlParams.get('name') || 'You',
+        playerClass: getCurrentPlayerKit().className,
+        getProgress: () => lapController?.getRaceProgress() ?? 0
+      });
+    }
+  },
+  update: () => raceSession.update(),
+  dispose: () => raceSession.removeEntrant(LOCAL_RACER_ID)
+});
+
+// Fixed-step player physics and abilities (bots are stepped in the same tick)
+systems.register({
+  name: 'physics',
+  phase: 'simulation',
+  init: ({ physics }) => {
+    abilityManager.initialize({
+      playerBody: physics.playerBody,
+      world: physics.world,
+      camera: camera,
+      scene: scene
+    });
+  },
+  update: (_deltaTime, { physics }) => runLiveTick(physics),
+  dispose: () => abilityManager.shutdown()
+});
+
+// Ceiling for grapple testing (its collider goes with the physics world)
+let swingTestCeiling: THREE.Mesh | null = null;
+systems.register({
+  name: 'swing-test-ceiling',
+  phase: 'render',
+  init: ({ physics }) => {
+    swingTestCeiling = addSwingTestCeiling(scene, physics.world);
+  },
+  dispose: () => {
+    if (!swingTestCeiling) return;
+    
+    scene.remove(swingTestCeiling);
+    swingTestCeiling.geometry.dispose();
+    const material = swingTestCeiling.material as THREE.MeshLambertMaterial;
+    material.map?.dispose();
+    material.dispose();
+    swingTestCeiling = null;
+  }
+});
+
+// Health regen
+systems.register({
+  name: 'health',
+  phase: 'postPhysics',
+  update: deltaTime => playerHealth.update(deltaTime)
+});
+
+// Server connection: send local state, interpolate remote racers, apply server-confirmed combat
+const networkEvents = gameEvents.scope();
+systems.register({
+  name: 'network',
+  phase: 'postPhysics',
+  modes: ['multiplayer'],
+  init: ({ physics }) => {
+    // Forward melee swings to the server for the authoritative hit check
+    networkEvents.on('meleeSwing', ({ origin, direction, context }) => {
+      netClient.sendMeleeAttack(origin, direction, context);
+    });
+    
+    // Server-confirmed hits on us push us through our own controller
+    networkEvents.on('serverHit', ({ isLocalTarget, knockbackForce, direction, health }) => {
+      if (isLocalTarget) {
+        playerHealth.setHealth(health, new THREE.Vector3(direction.x, direction.y, direction.z));
+        physics.fpsController.applyKnockback(knockbackForce, direction);
+        recordReplayEvent({ type: 'knockback', force: knockbackForce, direction });
+      }
+    });
+    
+    // KO sends the victim back to their last checkpoint
+    networkEvents.on('serverKO', ({ isLocalTarget, isLocalAttacker, targetId, attackerId }) => {
+      const nameOf = (id: string) => netClient.getRemotePlayers().find(remote => remote.id === id)?.name ?? 'You';
+      
+      gameEvents.emit('combatLogMessage', { message: `💀 ${nameOf(attackerId)} KO'd ${isLocalTarget ? 'you' : nameOf(targetId)}` });
+      
+      if (isLocalTarget) {
+        playerHealth.knockOut(attackerId);
+      } else if (isLocalAttacker) {
+        console.log(`💀 KO on ${nameOf(targetId)}!`);
+        grantKOReward();
+      }
+    });
+    
+    // Server-confirmed parries: stagger our swing, or celebrate our parry
+    networkEvents.on('serverParry', ({ isLocalAttacker, isLocalDefender, staggerDuration, defenderId, attackerId }) => {
+      if (isLocalAttacker) {
+        meleeCombat?.stagger(staggerDuration);
+        gameEvents.emit('specialHitEffect', { type: 'staggered', timestamp: Date.now() });
+      } else if (isLocalDefender) {
+        gameEvents.emit('specialHitEffect', { type: 'parry', timestamp: Date.now() });
+      }
+      
+      if (isLocalAttacker || isLocalDefender) {
+        gameEvents.emit('parry', { defenderId, attackerId, isLocalDefender, isLocalAttacker });
+      }
+    });
+    
+    netClient.setLocalController(physics.fpsController);
+    netClient.connect({
+      roomId: matchSettings.roomId!,
+      name: urlParams.get('name') || 'Racer',
+      playerClass: getCurrentPlayerKit().className,
+      lapCount: raceSession.getLapCount(),
+      stageCount: buildRouteStages(buildTrackRoute(track)).mainLine.length
+    });
+  },
+  update: (deltaTime, { physics }) => {
+    if (!netClient.isConnected()) return;
+    
+    const controller = physics.fpsController;
+    const position = physics.devTools.getCurrentPosition();
+    const velocity = controller.getVelocity();
+    const rotation = controller.getRotation();
+    netClient.update(deltaTime, {
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { x: rotation.x, y: rotation.y, z: 0 },
+      velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+      progress: lapController?.getRaceProgress() ?? 0,
+      inputSeq: controller.getLastInputSequence(),
+      respawns: controller.getRespawnCount(),
+      regenDisabled: isRegenDisabled(),
+      defenseStance: controller.getBlockState().getDefenseStance(),
+      isSwinging: isSwinging(),
+      blinks: getBlinkCount()
+    });
+  },
+  dispose: () => {
+    networkEvents.dispose();
+    netClient.disconnect();
+  }
+});
+
+// Melee combat: local swings, and remote racers, dummies and bots as targets
+const meleeEvents = gameEvents.scope();
+systems.register({
+  name: 'melee',
+  phase: 'postPhysics',
+  init: ({ physics }) => {
+    meleeCombat = new MeleeCombat(physics.world, camera, physics.playerBody);
+    
+    // PvP: remote racers are melee targets alongside the dummies
+    meleeEvents.on('remotePlayerJoined', ({ player }) => {
+      meleeCombat?.addTarget(player);
+    });
+    
+    meleeEvents.on('remotePlayerLeft', ({ id }) => {
+      meleeCombat?.removeTarget(id);
+    });
+    
+    // Solo: knocking out a dummy earns the same reward as a server KO
+    meleeEvents.on('dummyKO', () => grantKOReward());
+    
+    // ...and so does knocking out a bot
+    meleeEvents.on('botKO', ({ name, attackerId }) => {
+      const isLocalAttacker = attackerId === LOCAL_RACER_ID;
+      const attackerName = isLocalAttacker ? 'You' : botManager?.getBots().find(bot => bot.id === attackerId)?.name ?? attackerId;
+      
+      gameEvents.emit('combatLogMessage', { message: `💀 ${attackerName} KO'd ${name}` });
+      
+      if (isLocalAttacker) {
+        grantKOReward();
+      }
+    });
+    
+    // Handle melee attack events from mouse input
+    meleeEvents.on('meleeAttack', () => {
+      if (!meleeCombat) return;
+      
+      // Can't swing while holding block or during the race countdown
+      if (physics.fpsController.getBlockState().isBlocking()) return;
+      if (physics.fpsController.isInputLocked()) return;
+      
+      // Get the current velocity from the controller (same source as debug UI)
+      meleeCombat.performMelee(physics.fpsController.getVelocity());
+    });
+  },
+  dispose: () => {
+    meleeEvents.dispose();
+    meleeCombat?.dispose();
+    meleeCombat = null;
+  }
+});
+
+// Racing dummies from the track manifest, plus the level-design placement tool
+systems.register({
+  name: 'dummies',
+  phase: 'postPhysics',
+  init: ({ physics }) => {
+    if (!meleeCombat) return;
+    
+    dummyPlacementManager = new DummyPlacementManager(scene, physics.world, camera, meleeCombat);
+    dummyLoader = new DummyLoader(scene, physics.world, meleeCombat);
+    
+    // Load racing dummies from saved positions
+    if (import.meta.env.DEV) {
+      const loader = dummyLoader;
+      loader.loadDummies(track.dummies).then((loadedDummies) => {
+        if (dummyLoader !== loader) return; // torn down while loading
+        
+        console.log(`🏎️ Loaded ${loadedDummies.length} racing dummies with speed boost mechanics`);
+        targetDummies = loadedDummies;
+        
+        // Pass loaded dummies to placement manager for editing
+        if (dummyPlacementManager) {
+          dummyPlacementManager.setLoadedDummies(loadedDummies);
+          console.log(`🔧 Edit mode ready! Use Ctrl+Alt+F to toggle editing of JSON dummies`);
+        }
+      });
+    }
+  },
+  update: () => dummyPlacementManager?.update(),
+  dispose: () => {
+    dummyPlacementManager?.destroy();
+    dummyLoader?.clearDummies();
+    dummyPlacementManager = null;
+    dummyLoader = null;
+    targetDummies = [];
+  }
+});
+
+// Record this lap's ghost and replay the one being chased
+systems.register({
+  name: 'ghosts',
+  phase: 'postPhysics',
+  update: (_deltaTime, { physics }) => {
+    if (!lapController) return;
+    
+    const position = physics.devTools.getCurrentPosition();
+    const rotation = physics.fpsController.getRotation();
+    lapController.recordGhostFrame(position.clone(), rotation.y, rotation.x, getCurrentPlayerKit().className);
+    ghostPlayer.update(lapController.getProgress().currentLapTime);
+  },
+  dispose: () => ghostPlayer.load(null)
+});
+
+// Lap timing and checkpoint triggers along the track route
+systems.register({
+  name: 'checkpoints',
+  phase: 'postPhysics',
+  init: ({ physics }) => {
+    lapController = new LapController(
+      (lapTime, totalLaps, splits, ghost) => {
+        if (import.meta.env.DEV) {
+          console.log(`🏁 Lap ${totalLaps} completed in ${(lapTime / 1000).toFixed(2)}s`);
+        }
+        lapHUD?.flashLapComplete(lapTime);
+        gameHUD?.onLapComplete(lapTime, totalLaps);
+        raceSession.recordLap(LOCAL_RACER_ID, totalLaps);
+        lapHistory.addLap({
+          trackId: track.id,
+          playerClass: getCurrentPlayerKit().className,
+          lapTime,
+          splits,
+          date: Date.now(),
+          ghost
+        }).catch(error => console.warn('💾 Could not save lap:', error));
+        
+        // Only the final lap finishes a networked race
+        if (totalLaps >= raceSession.getLapCount()) {
+          netClient.notifyRaceFinished();
+        }
+      },
+      (checkpoint, isValid, split) => {
+        if (import.meta.env.DEV) {
+          console.log(`${isValid ? '✓' : '✗'} Checkpoint ${checkpoint} ${isValid ? 'valid' : 'invalid'}`);
+        }
+        lapHUD?.flashCheckpoint(checkpoint, isValid);
+        gameHUD?.onCheckpointVisited(checkpoint, isValid, split);
+      },
+      buildTrackRoute(track)
+    );
+    
+    loadPersonalBest();
+    
+    checkpointSystem = new CheckpointSystem(scene, physics.world, lapController, track);
+    
+    // Set checkpoint system on the FPS controller for respawning
+    physics.fpsController.setCheckpointSystem(checkpointSystem);
+  },
+  update: (_deltaTime, { physics }) => {
+    if (!checkpointSystem) return;
+    
+    checkpointSystem.update(physics.devTools.getCurrentPosition().clone());
+    recordRespawnPoint();
+  },
+  dispose: () => {
+    checkpointSystem?.dispose();
+    checkpointSystem = null;
+    lapController = null;
+  }
+});
+
+// Live race ordering along the checkpoint centerline, and drafting behind the nearest rival
+systems.register({
+  name: 'race-positions',
+  phase: 'postPhysics',
+  init: () => {
+    if (!checkpointSystem) return;
+    
+    racePositions = new RacePositionTracker(checkpointSystem.getRoutePositions());
+    slipstream = new SlipstreamSystem(camera, scene);
+  },
+  update: (deltaTime, { physics }) => {
+    if (!racePositions || !lapController) return;
+    
+    const localId = getLocalRacerId();
+    racePositions.update(collectRacers(localId, physics.devTools.getCurrentPosition().clone()));
+    slipstream?.update(deltaTime, racePositions, localId);
+  },
+  dispose: () => {
+    slipstream?.dispose();
+    slipstream = null;
+    racePositions = null;
+  }
+});
+
+// Solo bot racers, stepped inside runLiveTick with the player
+systems.register({
+  name: 'bots',
+  phase: 'simulation',
+  modes: ['solo'],
+  init: ({ physics }) => {
+    if (matchSettings.bots <= 0 || !lapController || !checkpointSystem || !meleeCombat) return;
+    
+    botManager = new BotManager({
+      count: matchSettings.bots,
+      difficulty: matchSettings.botDifficulty,
+      world: physics.world,
+      scene,
+      track,
+      lapController,
+      checkpointSystem,
+      raceSession,
+      meleeCombat,
+      localTarget: localMeleeTarget
+    });
+  },
+  dispose: () => {
+    botManager?.destroy();
+    botManager = null;
+  }
+});
+
+// Fading trail behind the player in the class colour
+systems.register({
+  name: 'trail',
+  phase: 'render',
+  init: () => {
+    movementTrail = new MovementTrail(scene);
+  },
+  update: (_deltaTime, { physics }) => {
+    movementTrail?.update(physics.devTools.getCurrentPosition(), getCurrentPlayerKit().className);
+  },
+  dispose: () => {
+    movementTrail?.clear();
+    movementTrail = null;
+  }
+});
+
+// Screen shake and hit flashes for special hits
+systems.register({
+  name: 'visual-feedback',
+  phase: 'render',
+  init: () => setupVisualFeedback(camera, renderer),
+  update: () => updateVisualFeedback(camera),
+  dispose: () => teardownVisualFeedback()
+});
+
+// Melee range rings on the dummies
+systems.register({
+  name: 'range-indicators',
+  phase: 'render',
+  update: (_deltaTime, { physics }) => {
+    if (!meleeCombat) return;
+    
+    const playerPosition = physics.devTools.getCurrentPosition().clone();
+    
+    // Get current melee range based on class
+    let meleeRange = 3.6; // Base doubled range
+    if (getCurrentPlayerKit().className === 'blast') {
+      meleeRange *= 1.25; // +25% for blast
+    }
+    
+    // Update range indicators on all dummies
+    targetDummies.forEach(dummy => {
+      dummy.updateRangeIndicator?.(playerPosition, meleeRange);
+    });
+    
+    // Update placed dummies range indicators too
+    dummyPlacementManager?.getPlacedDummies().forEach(dummy => {
+      dummy.updateRangeIndicator?.(playerPosition, meleeRange);
+    });
+  }
+});
+
+systems.register({
+  name: 'renderer',
+  phase: 'render',
+  update: () => renderer.render(scene, camera)
+});
+
+// Ability cooldown (updates itself)
+systems.register({
+  name: 'ability-hud',
+  phase: 'ui',
+  init: () => {
+    abilityHUD = new AbilityHUD(abilityManager);
+  },
+  dispose: () => {
+    abilityHUD?.destroy();
+    abilityHUD = null;
+  }
+});
+
+// Race countdown, timer and standings
+systems.register({
+  name: 'race-hud',
+  phase: 'ui',
+  init: () => {
+    if (lapController) {
+      raceHUD = new RaceHUD(raceSession, lapController);
+    }
+  },
+  update: () => raceHUD?.update(),
+  dispose: () => {
+    raceHUD?.dispose();
+    raceHUD = null;
+  }
+});
+
+// Debug panel: movement readouts and melee state
+systems.register({
+  name: 'debug-ui',
+  phase: 'ui',
+  update: (_deltaTime, { physics }) => {
+    const controller = physics.fpsController;
+    debugUI.update(
+      controller.getVelocity(),
+      controller.getIsGrounded(),
+      controller.getIsSliding(),
+      physics.devTools.getCurrentPosition(),
+      controller.getCurrentSpeed(),
+      controller.getIsRocketJumping(),
+      controller.getRocketJumpSpeed(),
+      controller.getIsBlinkMomentum(),
+      controller.getBlinkMomentumSpeed()
+    );
+    
+    if (meleeCombat) {
+      const meleeState = meleeCombat.getMeleeState();
+      debugUI.updateCombat({
+        currentClass: getCurrentPlayerKit().className,
+        meleeCooldown: meleeState.cooldownRemaining,
+        canMelee: meleeState.canMelee,
+        nearestTargetHealth: meleeCombat.getNearestTargetInfo(physics.devTools.getCurrentPosition().clone())
+      });
+    }
+  }
+});
+
+// Lap HUD (debug)
+systems.register({
+  name: 'lap-hud',
+  phase: 'ui',
+  init: () => {
+    if (lapController) {
+      lapHUD = new LapHUD(lapController, debugUI.getContainer());
+    }
+  },
+  update: () => lapHUD?.update(),
+  dispose: () => {
+    lapHUD?.dispose();
+    lapHUD = null;
+  }
+});
+
+// Game HUD (main UI)
+systems.register({
+  name: 'game-hud',
+  phase: 'ui',
+  init: () => {
+    if (lapController) {
+      gameHUD = new GameHUD(lapController);
+    }
+  },
+  update: () => {
+    if (!gameHUD) return;
+    
+    const localPosition = racePositions?.getPosition(getLocalRacerId());
+    if (localPosition && racePositions) {
+      gameHUD.updatePosition(localPosition.place, racePositions.getStandings().length, localPosition.gapAhead);
+    }
+    gameHUD.update();
+  },
+  dispose: () => {
+    gameHUD?.dispose();
+    gameHUD = null;
+  }
+});
+
+// Add developer class switching (keys 1, 2, 3)
+if (import.meta.env.DEV) {
+  console.log('🎮 Ability System initialized:');
+  console.log('  ⚡ Press E to use ability');
+  console.log('  🔥 Press 1 for Blast class');
+  console.log('  🪝 Press 2 for Grapple class');
+  console.log('  ✨ Press 3 for Blink class');
+  console.log('  🚀 Press L to toggle Rocket Jump / Legacy Blast');
+  console.log('🗡️ Melee Combat initialized:');
+  console.log('  🖱️ Left Click (LMB) to melee attack');
+  console.log('  🛡️ Hold Right Click (RMB) to block');
+  console.log('  B - Cycle dummy stance (none / block / parry)');
+  console.log('  🎯 Target dummies spawned for testing');
+  console.log('🎯 Dummy Placement System ready:');
+  console.log('  F - Place dummy at current position (supports midair!)');
+  console.log('  Shift+F - Remove last placed dummy');
+  console.log('  Ctrl+F - Export dummy positions');
+  console.log('  Ctrl+Shift+F - Remove nearest dummy');
+  console.log('  Alt+F - Toggle placement preview mode');
+  console.log(`⚙️ Systems: ${systems.getSystemNames().join(', ')} (toggleSystem('<name>') from the console)`);
   
-  // Initialize ability system with game context
-  abilityManager.initialize({
-    playerBody: world.playerBody,
-    world: world.world,
-    camera: camera,
-    scene: scene
+  window.addEventListener('keydown', (event) => {
+    if (replayViewer?.isActive()) return; // the recording decides the class
+    
+    if (event.code === 'Digit1') {
+      setPlayerClass('blast');
+      console.log('🔥 Switched to Blast class');
+    } else if (event.code === 'Digit2') {
+      setPlayerClass('grapple');
+      console.log('🪝 Switched to Grapple class');
+    } else if (event.code === 'Digit3') {
+      setPlayerClass('blink');
+      console.log('✨ Switched to Blink class');
+    } else if (event.code === 'KeyB') {
+      // Cycle dummy stance (none → block → parry) to test block/parry
+      const stances: DefenseStance[] = ['none', 'block', 'parry'];
+      dummyStance = stances[(stances.indexOf(dummyStance) + 1) % stances.length];
+      targetDummies.forEach(dummy => {
+        if ('setDefenseStance' in dummy) {
+          (dummy as MeleeTarget & { setDefenseStance: (stance: DefenseStance) => void }).setDefenseStance(dummyStance);
+        }
+      });
+      console.log(`🛡️ Dummy stance: ${dummyStance}`);
+    }
   });
   
-  // Initialize ability HUD
-  abilityHUD = new AbilityHUD(abilityManager);
+  // Switch a system off and on mid-match, e.g. toggleSystem('trail')
+  (window as any).toggleSystem = (name: string) => {
+    systems.setEnabled(name, !systems.isRunning(name));
+    console.log(`⚙️ ${name}: ${systems.isRunning(name) ? 'on' : 'off'}`);
+  };
+}
+
+/**
+ * Build a match from its settings: track and physics world, then every system for its mode
+ */
+async function startMatch(settings: MatchSettings): Promise<void> {
+  const previousTrackId = track.id;
+  track = loadTrackManifest(settings.trackId);
+  matchSettings = { ...settings, trackId: track.id }; // unknown maps fall back to the default
+  if (track.id !== previousTrackId) {
+    clearImportedGhost(); // ghosts only race on the track they were recorded on
+  }
   
-  // Initialize lap controller with callbacks
-  lapController = new LapController(
-    (lapTime, totalLaps) => {
-      if (import.meta.env.DEV) {
-        console.log(`🏁 Lap ${totalLaps} completed in ${(lapTime / 1000).toFixed(2)}s`);
-      }
-      lapHUD?.flashLapComplete(lapTime);
-      gameHUD?.onLapComplete(lapTime, totalLaps);
-    },
-    (checkpoint, isValid) => {
-      if (import.meta.env.DEV) {
-        console.log(`${isValid ? '✓' : '✗'} Checkpoint ${checkpoint} ${isValid ? 'valid' : 'invalid'}`);
-      }
-      lapHUD?.flashCheckpoint(checkpoint, isValid);
-      gameHUD?.onCheckpointVisited(checkpoint, isValid);
-    }
-  );
+  gameMenu.setLapHistory(lapHistory, track.id);
+  raceSession.setLapCount(track.route?.type === 'sprint' ? 1 : settings.laps ?? RACE_CONFIG.DEFAULT_LAP_COUNT);
+  matchSettings.playerClass = await classPicker.choose(track.id, settings.playerClass);
+  setPlayerClass(matchSettings.playerClass);
+  
+  const world = await initPhysics(scene, camera, track);
+  physicsWorld = world;
+  
+  const mode: GameMode = settings.roomId ? 'multiplayer' : 'solo';
+  systems.init({ mode, physics: world });
+  
+  // Solo: race against the clock
+  if (mode === 'solo') {
+    raceSession.start();
+  }
+  
+  replayViewer ??= new ReplayViewer(replayHost, camera);
+  startInputRecording();
+  
+  gameEvents.emit('matchStarted', { settings: matchSettings });
+}
+
+/**
+ * Tear the running match down to an empty scene: systems last-first, then the physics world and track
+ */
+function endMatch(): void {
+  if (!physicsWorld) return;
   
-  // Initialize checkpoint system
-  checkpointSystem = new CheckpointSystem(scene, world.world, lapController);
+  if (replayViewer?.isActive()) {
+    replayViewer.close();
+  }
+  raceSession.cancel();
+  systems.dispose();
   
-  // Set checkpoint system on the FPS controller for respawning
-  world.fpsController.setCheckpointSystem(checkpointSystem);
+  physicsWorld.dispose();
+  physicsWorld = null;
   
-  // Initialize lap HUD (debug)
-  lapHUD = new LapHUD(lapController, debugUI.getContainer());
+  accumulator = 0;
+  lastRespawnPoint = null;
+  playerHealth.reset();
+  console.log('🧹 Match torn down');
+}
+
+// Match changes run one at a time (a request waits for the previous match to finish loading)
+let matchTransition: Promise<void> = Promise.resolve();
+
+function requestMatch(settings: MatchSettings): void {
+  matchTransition = matchTransition
+    .then(() => {
+      endMatch();
+      return startMatch(settings);
+    })
+    .catch(error => console.error('❌ Could not start the match:', error));
+}
+
+// Switch map, class or mode from the menu (an open picker keeps its highlighted class for the match being left)
+gameEvents.on('matchRequested', settings => {
+  classPicker.confirm();
+  requestMatch(settings);
+});
+
+/**
+ * PRD: a KO grants +30% speed decaying linearly over 5 s
+ */
+function grantKOReward(): void {
+  gameEvents.emit('speedModifierGranted', SPEED_MODIFIERS.KO_REWARD);
+}
+
+function getLocalRacerId(): string {
+  return netClient.getPlayerId() ?? LOCAL_RACER_ID;
+}
+
+/**
+ * Everyone on track: the local player plus bots and remote racers
+ */
+function collectRacers(localId: string, localPosition: THREE.Vector3): RacerProgress[] {
+  if (!lapController) return [];
   
-  // Initialize game HUD (main UI)
-  gameHUD = new GameHUD(lapController);
+  const checkpointCount = lapController.getStageCount();
+  const racers: RacerProgress[] = [{
+    id: localId,
+    name: urlParams.get('name') || 'You',
+    lapsCompleted: lapController.getProgress().totalLaps,
+    checkpointIndex: lapController.getCheckpointIndex(),
+    position: localPosition
+  }];
   
-  // Initialize melee combat system
-  meleeCombat = new MeleeCombat(world.world, camera, world.playerBody);
+  racers.push(...(botManager?.getRacers() ?? []));
   
-  // Initialize dummy placement manager for level design
-  dummyPlacementManager = new DummyPlacementManager(scene, world.world, camera, meleeCombat);
+  netClient.getRemotePlayers().forEach(remote => {
+    racers.push({
+      id: remote.id,
+      name: remote.name,
+      ...progressToCheckpoint(remote.progress, checkpointCount),
+      position: remote.position
+    });
+  });
   
-  // Initialize dummy loader for loading saved dummies
-  dummyLoader = new DummyLoader(scene, world.world, meleeCombat);
+  return racers;
+}
+
+/**
+ * Lock input during countdowns; a new countdown puts everyone back on the start line
+ */
+function setRaceInputLocked(locked: boolean): void {
+  physicsWorld?.fpsController.setInputLocked(locked);
+  abilityManager.setInputLocked(locked);
+  botManager?.setInputLocked(locked);
+}
+
+function resetForRaceStart(): void {
+  slipstream?.reset();
+  lapController?.reset();
+  loadPersonalBest();
+  gameHUD?.reset();
+  physicsWorld?.fpsController.reset('race-start');
+  botManager?.resetForRaceStart();
+  startInputRecording();
+}
+
+/**
+ * Seed the lap timer's best (and the splits deltas compare against) with the stored record for the current class on this track
+ */
+function loadPersonalBest(): void {
+  const playerClass = getCurrentPlayerKit().className;
+  lapHistory.getBestLap(track.id, playerClass).then(best => {
+    lapController?.setBestLap(best ? best.lapTime : Infinity, best?.splits);
+    ghostPlayer.load(importedGhost ?? best?.ghost ?? null);
+  }).catch(error => console.warn('💾 Could not load personal best:', error));
+}
+
+// A new personal best becomes the ghost to chase
+gameEvents.on('lapRecorded', ({ record, isPersonalBest }) => {
+  if (isPersonalBest && record.ghost && !importedGhost) {
+    ghostPlayer.load(record.ghost);
+  }
+});
+
+gameEvents.on('abilityActivated', ({ className }) => {
+  lapController?.recordGhostAbility(className);
+});
+
+gameEvents.on('ghostExportRequested', () => {
+  const playerClass = getCurrentPlayerKit().className;
+  lapHistory.getBestLap(track.id, playerClass).then(best => {
+    if (best?.ghost) {
+      downloadGhostFile(track.id, best.ghost);
+    } else {
+      console.warn(`👻 No ${playerClass} ghost recorded on ${track.id} yet`);
+    }
+  }).catch(error => console.warn('💾 Could not load personal best:', error));
+});
+
+gameEvents.on('ghostImportRequested', ({ data, fileName }) => {
+  const result = validateGhostFile(data);
+  if (!result.ok) {
+    console.warn(`👻 ${fileName} is not a valid ghost:\n  ${result.errors.join('\n  ')}`);
+    return;
+  }
+  if (result.file.trackId !== track.id) {
+    console.warn(`👻 ${fileName} was recorded on ${result.file.trackId}, not ${track.id}`);
+    return;
+  }
   
-  // Initialize visual feedback system
-  setupVisualFeedback(camera, renderer);
+  importedGhost = result.file.recording;
+  ghostPlayer.load(importedGhost);
+  gameEvents.emit('importedGhostChanged', { fileName });
+});
+
+// Back to chasing our own personal best
+gameEvents.on('ghostClearRequested', () => {
+  clearImportedGhost();
+  loadPersonalBest();
+});
+
+function clearImportedGhost(): void {
+  if (!importedGhost) return;
   
-  // Load racing dummies from saved positions
-  if (dummyLoader && import.meta.env.DEV) {
-    dummyLoader.loadDummies().then((loadedDummies) => {
-      console.log(`🏎️ Loaded ${loadedDummies.length} racing dummies with speed boost mechanics`);
-      targetDummies = loadedDummies;
+  importedGhost = null;
+  gameEvents.emit('importedGhostChanged', { fileName: null });
+}
+
+// Bests are per class
+gameEvents.on('playerClassChanged', () => loadPersonalBest());
+
+gameEvents.on('racePhaseChanged', ({ phase }) => {
+  setRaceInputLocked(raceSession.isInputLocked());
+  setClassLocked(phase === 'countdown' || phase === 'racing');
+  
+  if (phase === 'countdown') {
+    raceHUD?.hideResults();
+    resetForRaceStart();
+  } else if (phase === 'racing') {
+    lapController?.startLapClock();
+  }
+});
+
+gameEvents.on('slipstreamChanged', ({ active }) => {
+  gameHUD?.setSlipstreamActive(active);
+});
+
+gameEvents.on('connectionStatusChanged', ({ status, message }) => {
+  if (status === 'joined') {
+    gameHUD?.setConnectionStatus(null);
+  } else if (status === 'reconnecting') {
+    gameHUD?.setConnectionStatus('📡 Reconnecting to server...');
+  } else {
+    gameHUD?.setConnectionStatus(`📡 Not connected: ${message}`, '#ff4444');
+  }
+});
+
+gameEvents.on('raceResults', ({ results }) => {
+  raceHUD?.showResults(results, LOCAL_RACER_ID);
+});
+
+// Server rooms drive the same countdown lock
+gameEvents.on('roomStateChanged', ({ room, previousPhase }) => {
+  raceSession.setLapCount(room.lapCount); // the room's first racer set the race length
+  if (room.phase === previousPhase) return;
+  
+  setRaceInputLocked(room.phase === 'countdown');
+  setClassLocked(room.phase === 'countdown' || room.phase === 'racing');
+  if (room.phase === 'countdown') {
+    resetForRaceStart();
+  } else if (room.phase === 'racing') {
+    lapController?.startLapClock();
+  }
+});
+
+/**
+ * Production races keep the class they started with; DEV builds can still switch mid-race
+ */
+function setClassLocked(locked: boolean): void {
+  classPicker.setLocked(locked && !import.meta.env.DEV);
+}
+
+// Race again from the standings screen (solo), picking the class first
+window.addEventListener('keydown', (event: KeyboardEvent) => {
+  if (event.code === 'Enter' && !matchSettings.roomId && raceSession.getPhase() === 'results' && !replayViewer?.isActive()) {
+    classPicker.choose(track.id, getCurrentPlayerKit().className).then(playerClass => {
+      if (raceSession.getPhase() !== 'results') return; // a new match started meanwhile
       
-      // Pass loaded dummies to placement manager for editing
-      if (dummyPlacementManager) {
-        dummyPlacementManager.setLoadedDummies(loadedDummies);
-        console.log(`🔧 Edit mode ready! Use Ctrl+Alt+F to toggle editing of JSON dummies`);
-      }
+      matchSettings.playerClass = playerClass;
+      setPlayerClass(playerClass);
+      raceSession.start();
     });
   }
+});
+
+/**
+ * One fixed physics step of the live session, recorded for replays.
+ * The game clock is pinned so cooldowns and timers see the same time the recording stores.
+ */
+function runLiveTick(world: PhysicsWorld): void {
+  const now = Date.now();
+  pinGameTime(now);
+  inputRecorder.beginTick(now);
   
-  // Create test target dummies for combat testing (disabled - using racing dummies instead)
-  // if (import.meta.env.DEV) {
-  //   // Create dummies around the spawn area for testing
-  //   const dummyPositions = [
-  //     new THREE.Vector3(5, 2, 5),   // Front-right
-  //     new THREE.Vector3(-5, 2, 5),  // Front-left
-  //     new THREE.Vector3(0, 2, 8),   // Front center
-  //     new THREE.Vector3(8, 2, 0),   // Right side
-  //     new THREE.Vector3(-8, 2, 0),  // Left side
-  //   ];
-  //   
-  //   dummyPositions.forEach((pos, index) => {
-  //     const dummy = new TargetDummy(scene, world.world, pos, `dummy_${index}`);
-  //     targetDummies.push(dummy);
-  //     meleeCombat!.addTarget(dummy);
-  //   });
-  //   
-  //   console.log(`🎯 Created ${targetDummies.length} target dummies for combat testing`);
-  // }
-  
-  // Handle melee attack events from mouse input
-  window.addEventListener('meleeAttack', () => {
-    if (meleeCombat && physicsWorld) {
-      // Get the current velocity from the controller (same source as debug UI)
-      const currentVelocity = physicsWorld.fpsController.getVelocity();
-      meleeCombat.performMelee(currentVelocity);
-    }
-  });
+  world.step(fixedTimeStep);
+  const command = world.fpsController.getLastCommand();
+  if (command) {
+    abilityManager.update(command);
+  }
   
-  // Add developer class switching (keys 1, 2, 3)
-  if (import.meta.env.DEV) {
-    console.log('🎮 Ability System initialized:');
-    console.log('  ⚡ Press E to use ability');
-    console.log('  🔥 Press 1 for Blast class');
-    console.log('  🪝 Press 2 for Grapple class');
-    console.log('  ✨ Press 3 for Blink class');
-    console.log('  🚀 Press L to toggle Rocket Jump / Legacy Blast');
-    console.log('🗡️ Melee Combat initialized:');
-    console.log('  🖱️ Left Click (LMB) to melee attack');
-    console.log('  🎯 Target dummies spawned for testing');
-    console.log('🎯 Dummy Placement System ready:');
-    console.log('  F - Place dummy at current position (supports midair!)');
-    console.log('  Shift+F - Remove last placed dummy');
-    console.log('  Ctrl+F - Export dummy positions');
-    console.log('  Ctrl+Shift+F - Remove nearest dummy');
-    console.log('  Alt+F - Toggle placement preview mode');
-    
-    window.addEventListener('keydown', (event) => {
-      if (event.code === 'Digit1') {
-        setPlayerClass('blast');
-        console.log('🔥 Switched to Blast class');
-      } else if (event.code === 'Digit2') {
-        setPlayerClass('grapple');
-        console.log('🪝 Switched to Grapple class');
-      } else if (event.code === 'Digit3') {
-        setPlayerClass('blink');
-        console.log('✨ Switched to Blink class');
-      }
-    });
+  // Bots move after the player so their swings see where the player ended up this tick
+  if (botManager) {
+    localMeleeTarget.position.copy(world.fpsController.getPosition());
+    botManager.update(fixedTimeStep);
   }
   
-  // Add ceiling for grapple testing
-  addSwingTestCeiling(scene, physicsWorld?.world);
+  inputRecorder.endTick(command);
+  pinGameTime(null);
+}
+
+/**
+ * Record from the current state (session start and every race start)
+ */
+function startInputRecording(): void {
+  if (!physicsWorld) return;
   
-  // Initialize movement trail
-  movementTrail = new MovementTrail(scene);
+  const controller = physicsWorld.fpsController;
+  const rotation = controller.getRotation();
+  const kit = getCurrentPlayerKit();
+  lastRespawnPoint = checkpointSystem?.getLastCheckpointPosition() ?? controller.getMovementState().position.clone();
+  inputRecorder.start(track.id, fixedTimeStep, Date.now(), {
+    movement: controller.getMovementState(),
+    yaw: rotation.y,
+    pitch: rotation.x,
+    respawnPoint: lastRespawnPoint,
+    playerClass: kit.className,
+    abilityLastUsed: kit.ability.lastUsed,
+    abilityReady: kit.ability.isReady
+  });
+}
+
+function recordReplayEvent(event: ReplayEvent): void {
+  if (replayViewer?.isActive()) return;
+  inputRecorder.recordEvent(event);
+}
+
+/**
+ * Note a new respawn checkpoint (the replay doesn't re-run checkpoint detection)
+ */
+function recordRespawnPoint(): void {
+  if (!checkpointSystem) return;
+  
+  const respawnPoint = checkpointSystem.getLastCheckpointPosition();
+  if (lastRespawnPoint && lastRespawnPoint.equals(respawnPoint)) return;
+  
+  lastRespawnPoint = respawnPoint;
+  recordReplayEvent({ type: 'respawnPoint', position: toVec3(respawnPoint) });
+}
+
+gameEvents.on('playerRespawn', ({ reason }) => {
+  if (reason === 'manual' || reason === 'ko' || reason === 'race-start') {
+    recordReplayEvent({ type: 'reset', reason });
+  }
+});
+
+gameEvents.on('playerClassChanged', ({ className }) => {
+  recordReplayEvent({ type: 'class', playerClass: className });
+});
+
+gameEvents.on('abilityActivated', () => recordReplayEvent({ type: 'ability' }));
+
+// Server corrections aren't in the input stream - the replay restores the corrected state instead
+gameEvents.on('movementCorrected', ({ state }) => {
+  recordReplayEvent({ type: 'correction', movement: serializeMovementState(state) });
+});
+
+gameEvents.on('speedModifierGranted', spec => {
+  recordReplayEvent({ type: 'speedModifier', spec });
+});
+
+gameEvents.on('slipstreamChanged', ({ active }) => {
+  recordReplayEvent(active
+    ? { type: 'speedModifier', spec: SPEED_MODIFIERS.SLIPSTREAM }
+    : { type: 'speedModifierRemoved', source: SPEED_MODIFIERS.SLIPSTREAM.source });
+});
+
+// Live state parked while the replay viewer drives the player
+let liveSnapshot: {
+  movement: MovementState;
+  yaw: number;
+  pitch: number;
+  playerClass: PlayerClass;
+  inputLocked: boolean;
+} | null = null;
+let replayViewer: ReplayViewer | null = null;
+
+const replayHost: ReplayHost = {
+  beginReplay(replay: ReplayFile): void {
+    if (!physicsWorld) return;
+    const controller = physicsWorld.fpsController;
+    
+    if (!liveSnapshot) {
+      const rotation = controller.getRotation();
+      liveSnapshot = {
+        movement: controller.getMovementState(),
+        yaw: rotation.y,
+        pitch: rotation.x,
+        playerClass: getCurrentPlayerKit().className,
+        inputLocked: controller.isInputLocked()
+      };
+    }
+    
+    // Hand the controller and abilities to the recording
+    controller.setReplayMode(true);
+    controller.setInputLocked(false);
+    abilityManager.setLiveInputEnabled(false);
+    abilityManager.setInputLocked(false);
+    clearAbilityEffects();
+    
+    // Restore the state the recording started from
+    const { start } = replay;
+    setPlayerClass(start.playerClass);
+    const kit = getCurrentPlayerKit();
+    kit.ability.lastUsed = replay.startTime + start.abilityLastUsed;
+    kit.ability.isReady = start.abilityReady;
+    controller.setMovementState(deserializeMovementState(start.movement));
+    controller.setLookAngles(start.yaw, start.pitch);
+    controller.setReplayRespawnPosition(new THREE.Vector3(start.respawnPoint.x, start.respawnPoint.y, start.respawnPoint.z));
+  },
   
-  animate();
+  runTick(replay: ReplayFile, index: number): void {
+    if (!physicsWorld) return;
+    const controller = physicsWorld.fpsController;
+    const tick = replay.ticks[index];
+    
+    pinGameTime(replay.startTime + tick.time);
+    try {
+      tick.events?.forEach(applyReplayEvent);
+      
+      const command = tickToCommand(tick, replay.fixedTimeStep);
+      controller.setReplayCommand(command);
+      physicsWorld.step(replay.fixedTimeStep);
+      abilityManager.update(command);
+    } finally {
+      pinGameTime(null); // a throwing tick must not leave the live game on the replay's clock
+    }
+  },
+  
+  endReplay(): void {
+    if (!physicsWorld || !liveSnapshot) return;
+    const controller = physicsWorld.fpsController;
+    
+    clearAbilityEffects();
+    controller.setReplayMode(false);
+    setPlayerClass(liveSnapshot.playerClass);
+    controller.setMovementState(liveSnapshot.movement);
+    controller.setLookAngles(liveSnapshot.yaw, liveSnapshot.pitch);
+    controller.setInputLocked(liveSnapshot.inputLocked);
+    abilityManager.setInputLocked(liveSnapshot.inputLocked);
+    abilityManager.setLiveInputEnabled(true);
+    liveSnapshot = null;
+  }
+};
+
+function applyReplayEvent(event: ReplayEvent): void {
+  const controller = physicsWorld!.fpsController;
+  switch (event.type) {
+    case 'ability':
+      abilityManager.queueActivation();
+      break;
+    case 'class':
+      setPlayerClass(event.playerClass);
+      break;
+    case 'reset':
+      controller.reset(event.reason);
+      break;
+    case 'speedModifier':
+      controller.addSpeedModifier(event.spec);
+      break;
+    case 'speedModifierRemoved':
+      controller.removeSpeedModifier(event.source);
+      break;
+    case 'respawnPoint':
+      controller.setReplayRespawnPosition(new THREE.Vector3(event.position.x, event.position.y, event.position.z));
+      break;
+    case 'knockback':
+      controller.applyKnockback(event.force, event.direction);
+      break;
+    case 'correction':
+      controller.setMovementState(deserializeMovementState(event.movement));
+      break;
+  }
+}
+
+/**
+ * Drop rockets and any swing in flight when switching between live play and a replay
+ */
+function clearAbilityEffects(): void {
+  resetBlastState();
+  gameEvents.emit('forceReleaseGrapple', { reason: 'replay' });
+}
+
+// F9 saves the session so far, F10 loads a replay file into the viewer
+window.addEventListener('keydown', (event: KeyboardEvent) => {
+  if (event.code === 'F9') {
+    event.preventDefault();
+    const replay = inputRecorder.getRecording();
+    if (replay && replay.ticks.length > 0) {
+      downloadReplayFile(replay);
+    } else {
+      console.warn('🎬 Nothing recorded yet');
+    }
+  } else if (event.code === 'F10') {
+    event.preventDefault();
+    openReplayFilePicker();
+  }
 });
 
+function openReplayFilePicker(): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = '.json,application/json';
+  input.addEventListener('change', () => {
+    const file = input.files?.[0];
+    if (!file) return;
+    
+    file.text().then(text => {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch {
+        console.warn(`🎬 ${file.name} is not valid JSON`);
+        return;
+      }
+      
+      const result = validateReplayFile(data);
+      if (!result.ok) {
+        console.warn(`🎬 ${file.name} is not a valid replay:\n  ${result.errors.join('\n  ')}`);
+        return;
+      }
+      if (result.replay.trackId !== track.id) {
+        console.warn(`🎬 ${file.name} was recorded on ${result.replay.trackId}, not ${track.id} (open it with ?track=${result.replay.trackId})`);
+        return;
+      }
+      
+      document.exitPointerLock();
+      replayViewer?.open(result.replay);
+    });
+  });
+  input.click();
+}
+
 // Visual feedback state
 let screenShakeIntensity = 0;
 let screenShakeDecay = 0.95;
 let hitFlashIntensity = 0;
 let hitFlashDecay = 0.9;
+const visualFeedbackEvents = gameEvents.scope();
 
 /**
  * Setup visual feedback system for special combat hits
  */
 function setupVisualFeedback(_camera: THREE.Camera, _renderer: THREE.WebGLRenderer): void {
   // Listen for special hit effects
-  window.addEventListener('specialHitEffect', (event: Event) => {
-    const customEvent = event as CustomEvent;
-    const { type } = customEvent.detail;
+  visualFeedbackEvents.on('specialHitEffect', ({ type }) => {
     
     if (type === 'crit') {
       // Grapple crit: Strong shake + red flash
@@ -488,6 +1534,16 @@ function setupVisualFeedback(_camera: THREE.Camera, _renderer: THREE.WebGLRender
       screenShakeIntensity = Math.max(screenShakeIntensity, 0.25);
       hitFlashIntensity = Math.max(hitFlashIntensity, 0.4);
       console.log('⚡ BLINK BONUS visual feedback triggered!');
+    } else if (type === 'parry') {
+      // Successful parry: Sharp shake + white flash
+      screenShakeIntensity = Math.max(screenShakeIntensity, 0.3);
+      screenFlash.flash('rgba(255, 255, 255, 0.6)', 150);
+      console.log('🛡️ PARRY visual feedback triggered!');
+    } else if (type === 'staggered') {
+      // Our swing got parried: Heavy shake + grey flash
+      screenShakeIntensity = Math.max(screenShakeIntensity, 0.6);
+      screenFlash.flash('rgba(80, 80, 80, 0.6)', 400);
+      console.log('😵 STAGGERED visual feedback triggered!');
     }
   });
   
@@ -509,6 +1565,16 @@ function setupVisualFeedback(_camera: THREE.Camera, _renderer: THREE.WebGLRender
   document.body.appendChild(hitFlashOverlay);
 }
 
+/**
+ * Drop the hit listener and overlay, and settle any shake still in progress
+ */
+function teardownVisualFeedback(): void {
+  visualFeedbackEvents.dispose();
+  document.getElementById('hit-flash-overlay')?.remove();
+  screenShakeIntensity = 0;
+  hitFlashIntensity = 0;
+}
+
 /**
  * Apply visual feedback effects each frame
  */
@@ -547,93 +1613,28 @@ function animate() {
   requestAnimationFrame(animate);
   
   const deltaTime = Math.min(clock.getDelta(), 0.1); // Cap delta time to prevent spiral of death
-  accumulator += deltaTime;
-  
-  // Fixed timestep physics
-  while (accumulator >= fixedTimeStep) {
-    if (physicsWorld) {
-      physicsWorld.step(fixedTimeStep);
-    }
-    accumulator -= fixedTimeStep;
-  }
   
-  // Update movement trail
-  if (physicsWorld && movementTrail) {
-    const position = physicsWorld.devTools.getCurrentPosition();
-    const currentKit = getCurrentPlayerKit(); // Get current player class
-    movementTrail.update(position, currentKit.className);
+  // The replay viewer owns the simulation while it is open
+  if (replayViewer?.isActive()) {
+    replayViewer.update(deltaTime);
+    renderer.render(scene, replayViewer.getCamera());
+    return;
   }
   
-  // Update visual feedback effects
-  updateVisualFeedback(camera);
+  systems.update('input', deltaTime);
   
-  // Update UI and checkpoint system
-  if (physicsWorld) {
-    const velocity = physicsWorld.fpsController.getVelocity();
-    const grounded = physicsWorld.fpsController.getIsGrounded();
-    const sliding = physicsWorld.fpsController.getIsSliding();
-    const currentSpeed = physicsWorld.fpsController.getCurrentSpeed();
-    const isRocketJumping = physicsWorld.fpsController.getIsRocketJumping();
-    const rocketJumpSpeed = physicsWorld.fpsController.getRocketJumpSpeed();
-    const isBlinkMomentum = physicsWorld.fpsController.getIsBlinkMomentum();
-    const blinkMomentumSpeed = physicsWorld.fpsController.getBlinkMomentumSpeed();
-    const position = physicsWorld.devTools.getCurrentPosition();
-    debugUI.update(velocity, grounded, sliding, position, currentSpeed, isRocketJumping, rocketJumpSpeed, isBlinkMomentum, blinkMomentumSpeed);
-    
-    // Update combat UI and range indicators
-    if (meleeCombat) {
-      const currentKit = getCurrentPlayerKit();
-      const meleeState = meleeCombat.getMeleeState();
-      const playerPosition = new THREE.Vector3(position.x, position.y, position.z);
-      const nearestTarget = meleeCombat.getNearestTargetInfo(playerPosition);
-      
-      // Get current melee range based on class
-      let meleeRange = 3.6; // Base doubled range
-      if (currentKit.className === 'blast') {
-        meleeRange *= 1.25; // +25% for blast
-      }
-      
-      // Update range indicators on all dummies
-      targetDummies.forEach(dummy => {
-        dummy.updateRangeIndicator?.(playerPosition, meleeRange);
-      });
-      
-      // Update placed dummies range indicators too
-      if (dummyPlacementManager) {
-        dummyPlacementManager.getPlacedDummies().forEach(dummy => {
-          dummy.updateRangeIndicator?.(playerPosition, meleeRange);
-        });
-      }
-      
-      debugUI.updateCombat({
-        currentClass: currentKit.className,
-        meleeCooldown: meleeState.cooldownRemaining,
-        canMelee: meleeState.canMelee,
-        nearestTargetHealth: nearestTarget
-      });
-    }
-    
-    // Update dummy placement manager
-    if (dummyPlacementManager) {
-      dummyPlacementManager.update();
-    }
-    
-    // Update checkpoint system
-    if (checkpointSystem) {
-      const playerPosition = new THREE.Vector3(position.x, position.y, position.z);
-      checkpointSystem.update(playerPosition);
-    }
-    
-    // Update lap HUD (debug)
-    if (lapHUD) {
-      lapHUD.update();
-    }
-    
-    // Update game HUD (main UI)
-    if (gameHUD) {
-      gameHUD.update();
-    }
+  // Fixed timestep physics
+  accumulator += deltaTime;
+  while (accumulator >= fixedTimeStep) {
+    systems.update('simulation', fixedTimeStep);
+    accumulator -= fixedTimeStep;
   }
   
-  renderer.render(scene, camera);
+  systems.update('postPhysics', deltaTime);
+  systems.update('render', deltaTime);
+  systems.update('ui', deltaTime);
 }
+
+// First match from the URL settings; the loop idles until its systems are up
+requestMatch(matchSettings);
+animate();
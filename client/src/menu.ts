@@ -1,6 +1,23 @@
+import type { LapHistoryStore, LapRecord } from './systems/LapHistory';
+import type { MatchSettings } from './systems/MatchSettings';
+import { gameEvents } from './systems/GameEvents';
+import { getTrackIds } from './track/TrackRegistry';
+import { BOT_CONFIG } from './bots/BotConfig';
+
+type RecordSortKey = 'date' | 'playerClass' | 'lapTime';
+
 export class GameMenu {
   private menuContainer!: HTMLDivElement;
+  private recordsPanel!: HTMLDivElement;
+  private recordsList!: HTMLDivElement;
+  private matchPanel!: HTMLDivElement;
+  private matchForm!: HTMLFormElement;
   private isMenuOpen = false;
+  private isRecordsOpen = false;
+  private isMatchOpen = false;
+  private lapHistory: LapHistoryStore | null = null;
+  private trackId = '';
+  private recordSort: { key: RecordSortKey; descending: boolean } = { key: 'date', descending: true };
   
   constructor() {
     this.createMenuElements();
@@ -33,7 +50,7 @@ export class GameMenu {
       border-radius: 10px;
       border: 2px solid #00E6FF;
       text-align: center;
-      max-width: 400px;
+      max-width: 480px;
     `;
     
     menuContent.innerHTML = `
@@ -69,8 +86,46 @@ export class GameMenu {
         cursor: pointer;
         font-family: monospace;
         font-weight: bold;
+        margin-right: 10px;
       ">Reset</button>
+      <button id="records-btn" style="
+        background: #333;
+        color: #00E6FF;
+        border: 1px solid #00E6FF;
+        padding: 10px 20px;
+        border-radius: 5px;
+        cursor: pointer;
+        font-family: monospace;
+        font-weight: bold;
+        margin-right: 10px;
+      ">Records</button>
+      <button id="match-btn" style="
+        background: #333;
+        color: #FF0080;
+        border: 1px solid #FF0080;
+        padding: 10px 20px;
+        border-radius: 5px;
+        cursor: pointer;
+        font-family: monospace;
+        font-weight: bold;
+      ">New Match</button>
+    `;
+    
+    // Personal bests and lap history (filled when opened)
+    this.recordsPanel = document.createElement('div');
+    this.recordsPanel.style.cssText = `
+      display: none;
+      margin-top: 20px;
+      max-height: 260px;
+      overflow-y: auto;
+      text-align: left;
+      font-size: 13px;
     `;
+    menuContent.appendChild(this.recordsPanel);
+    this.createGhostControls();
+    this.recordsList = document.createElement('div');
+    this.recordsPanel.appendChild(this.recordsList);
+    this.createMatchPanel(menuContent);
     
     this.menuContainer.appendChild(menuContent);
     document.body.appendChild(this.menuContainer);
@@ -78,12 +133,271 @@ export class GameMenu {
     // Setup button handlers
     const resumeBtn = menuContent.querySelector('#resume-btn') as HTMLButtonElement;
     const resetBtn = menuContent.querySelector('#reset-btn') as HTMLButtonElement;
+    const recordsBtn = menuContent.querySelector('#records-btn') as HTMLButtonElement;
+    const matchBtn = menuContent.querySelector('#match-btn') as HTMLButtonElement;
     
     resumeBtn.addEventListener('click', () => this.closeMenu());
     resetBtn.addEventListener('click', () => {
       this.closeMenu();
       // Dispatch reset event
-      window.dispatchEvent(new CustomEvent('game-reset'));
+      gameEvents.emit('game-reset');
+    });
+    recordsBtn.addEventListener('click', () => this.toggleRecords());
+    matchBtn.addEventListener('click', () => this.toggleMatchPanel());
+  }
+  
+  /**
+   * Leave the current race for another: map, class, solo (with bots) or a server room
+   */
+  private createMatchPanel(menuContent: HTMLDivElement) {
+    this.matchPanel = document.createElement('div');
+    this.matchPanel.style.cssText = `
+      display: none;
+      margin-top: 20px;
+      text-align: left;
+      font-size: 13px;
+    `;
+    
+    const field = 'display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;';
+    const input = 'background: #001122; color: white; border: 1px solid #00E6FF; border-radius: 3px; padding: 3px 6px; font-family: monospace; width: 160px;';
+    const options = (values: readonly string[]) => values.map(value => `<option value="${value}">${value}</option>`).join('');
+    const botCounts = Array.from({ length: BOT_CONFIG.MAX_BOTS + 1 }, (_, count) => String(count));
+    
+    this.matchForm = document.createElement('form');
+    this.matchForm.innerHTML = `
+      <label style="${field}">Track <select name="trackId" style="${input}">${options(getTrackIds())}</select></label>
+      <label style="${field}">Class <select name="playerClass" style="${input}">${options(['blast', 'grapple', 'blink'])}</select></label>
+      <label style="${field}">Room <input name="roomId" placeholder="solo race" style="${input}"></label>
+      <label style="${field}">Laps <input name="laps" type="number" min="1" max="20" placeholder="default" style="${input}"></label>
+      <label style="${field}">Bots <select name="bots" style="${input}">${options(botCounts)}</select></label>
+      <label style="${field}">Bot difficulty <select name="botDifficulty" style="${input}">${options(['easy', 'normal', 'hard'])}</select></label>
+      <button type="submit" style="
+        background: #FF0080;
+        color: white;
+        border: none;
+        padding: 8px 16px;
+        border-radius: 5px;
+        cursor: pointer;
+        font-family: monospace;
+        font-weight: bold;
+        width: 100%;
+        margin-top: 6px;
+      ">Start Match</button>
+    `;
+    
+    // Typing a room name shouldn't reach the game's key bindings (R resets, E fires the ability)
+    this.matchForm.addEventListener('keydown', (e) => {
+      if (e.key !== 'Escape') {
+        e.stopPropagation();
+      }
+    });
+    
+    this.matchForm.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.closeMenu();
+      gameEvents.emit('matchRequested', this.readMatchForm());
+    });
+    
+    // Show what the running match was started with
+    gameEvents.on('matchStarted', ({ settings }) => this.fillMatchForm(settings));
+    
+    this.matchPanel.appendChild(this.matchForm);
+    menuContent.appendChild(this.matchPanel);
+  }
+  
+  private fillMatchForm(settings: MatchSettings) {
+    const setValue = (name: keyof MatchSettings, value: string) => {
+      (this.matchForm.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value = value;
+    };
+    setValue('trackId', settings.trackId);
+    setValue('playerClass', settings.playerClass);
+    setValue('roomId', settings.roomId ?? '');
+    setValue('laps', settings.laps !== null ? String(settings.laps) : '');
+    setValue('bots', String(settings.bots));
+    setValue('botDifficulty', settings.botDifficulty);
+  }
+  
+  private readMatchForm(): MatchSettings {
+    const data = new FormData(this.matchForm);
+    const text = (name: string) => String(data.get(name) ?? '').trim();
+    
+    return {
+      trackId: text('trackId'),
+      playerClass: text('playerClass') as MatchSettings['playerClass'],
+      roomId: text('roomId') || null,
+      laps: Number(text('laps')) || null,
+      bots: Number(text('bots')) || 0,
+      botDifficulty: text('botDifficulty') as MatchSettings['botDifficulty']
+    };
+  }
+  
+  private toggleMatchPanel() {
+    this.isMatchOpen = !this.isMatchOpen;
+    this.matchPanel.style.display = this.isMatchOpen ? 'block' : 'none';
+  }
+  
+  /**
+   * Source for the records panel - laps stored for the current track
+   */
+  public setLapHistory(lapHistory: LapHistoryStore, trackId: string) {
+    this.lapHistory = lapHistory;
+    this.trackId = trackId;
+    
+    if (this.isRecordsOpen) {
+      this.refreshRecords();
+    }
+  }
+  
+  /**
+   * Share ghosts as files: export the best lap's ghost for the current class, import a teammate's
+   */
+  private createGhostControls() {
+    const controls = document.createElement('div');
+    controls.style.cssText = `
+      display: flex;
+      gap: 10px;
+      justify-content: center;
+      margin-bottom: 14px;
+    `;
+    
+    const buttonStyle = `
+      background: #333;
+      color: #00E6FF;
+      border: 1px solid #00E6FF;
+      padding: 6px 12px;
+      border-radius: 5px;
+      cursor: pointer;
+      font-family: monospace;
+    `;
+    
+    const exportBtn = document.createElement('button');
+    exportBtn.textContent = '👻 Export Ghost';
+    exportBtn.style.cssText = buttonStyle;
+    exportBtn.addEventListener('click', () => {
+      gameEvents.emit('ghostExportRequested');
+    });
+    
+    // Hidden file picker behind the import button
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    fileInput.style.display = 'none';
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) return;
+      
+      try {
+        const data: unknown = JSON.parse(await file.text());
+        gameEvents.emit('ghostImportRequested', { data, fileName: file.name });
+      } catch (error) {
+        console.warn(`👻 ${file.name} is not valid JSON:`, error);
+      }
+    });
+    
+    const importBtn = document.createElement('button');
+    importBtn.textContent = '📂 Import Ghost';
+    importBtn.style.cssText = buttonStyle;
+    importBtn.addEventListener('click', () => fileInput.click());
+    
+    // Only while an imported ghost replaces the personal-best one
+    const clearBtn = document.createElement('button');
+    clearBtn.textContent = '🧹 Clear Imported Ghost';
+    clearBtn.style.cssText = buttonStyle + 'display: none;';
+    clearBtn.addEventListener('click', () => {
+      gameEvents.emit('ghostClearRequested');
+    });
+    gameEvents.on('importedGhostChanged', ({ fileName }) => {
+      clearBtn.style.display = fileName ? 'inline-block' : 'none';
+      clearBtn.title = fileName ?? '';
+    });
+    
+    controls.append(exportBtn, importBtn, clearBtn, fileInput);
+    this.recordsPanel.appendChild(controls);
+  }
+  
+  private toggleRecords() {
+    this.isRecordsOpen = !this.isRecordsOpen;
+    this.recordsPanel.style.display = this.isRecordsOpen ? 'block' : 'none';
+    if (this.isRecordsOpen) {
+      this.refreshRecords();
+    }
+  }
+  
+  private async refreshRecords() {
+    if (!this.lapHistory) {
+      this.recordsList.innerHTML = '<div style="color: #888;">Lap history unavailable</div>';
+      return;
+    }
+    
+    try {
+      const [bests, laps] = await Promise.all([
+        this.lapHistory.getClassBests(this.trackId),
+        this.lapHistory.getLaps(this.trackId)
+      ]);
+      this.renderRecords(bests, laps);
+    } catch (error) {
+      console.warn('💾 Could not load lap history:', error);
+      this.recordsList.innerHTML = '<div style="color: #888;">Lap history unavailable</div>';
+    }
+  }
+  
+  private renderRecords(bests: LapRecord[], laps: LapRecord[]) {
+    if (laps.length === 0) {
+      this.recordsList.innerHTML = '<div style="color: #888; text-align: center;">No laps recorded yet - finish one!</div>';
+      return;
+    }
+    
+    const formatTime = (lapTime: number) => (lapTime / 1000).toFixed(2) + 's';
+    const formatDate = (date: number) => new Date(date).toLocaleString();
+    const cell = 'padding: 3px 6px;';
+    
+    const bestRows = bests.map(record => `
+      <tr>
+        <td style="${cell} text-transform: capitalize;">${record.playerClass}</td>
+        <td style="${cell} color: #00ff00;">${formatTime(record.lapTime)}${record.ghost ? ' 👻' : ''}</td>
+        <td style="${cell} color: #888;">${formatDate(record.date)}</td>
+      </tr>
+    `).join('');
+    
+    const { key, descending } = this.recordSort;
+    const sorted = [...laps].sort((a, b) => {
+      const order = key === 'playerClass' ? a.playerClass.localeCompare(b.playerClass) : a[key] - b[key];
+      return descending ? -order : order;
+    });
+    
+    const header = (sortKey: RecordSortKey, label: string) => {
+      const arrow = sortKey === key ? (descending ? ' ▼' : ' ▲') : '';
+      return `<th data-sort="${sortKey}" style="${cell} cursor: pointer; color: #00E6FF;">${label}${arrow}</th>`;
+    };
+    
+    const historyRows = sorted.map(record => `
+      <tr>
+        <td style="${cell} color: #888;">${formatDate(record.date)}</td>
+        <td style="${cell} text-transform: capitalize;">${record.playerClass}</td>
+        <td style="${cell}">${formatTime(record.lapTime)}</td>
+      </tr>
+    `).join('');
+    
+    this.recordsList.innerHTML = `
+      <div style="color: #FF0080; font-weight: bold; margin-bottom: 6px;">🏆 Personal Bests</div>
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 14px;">${bestRows}</table>
+      <div style="color: #FF0080; font-weight: bold; margin-bottom: 6px;">📜 Lap History (${laps.length})</div>
+      <table style="width: 100%; border-collapse: collapse;">
+        <tr>${header('date', 'Date')}${header('playerClass', 'Class')}${header('lapTime', 'Time')}</tr>
+        ${historyRows}
+      </table>
+    `;
+    
+    // Click a column to sort by it, again to flip the order
+    this.recordsList.querySelectorAll<HTMLTableCellElement>('th[data-sort]').forEach(th => {
+      th.addEventListener('click', () => {
+        const sortKey = th.dataset.sort as RecordSortKey;
+        this.recordSort = sortKey === key
+          ? { key, descending: !descending }
+          : { key: sortKey, descending: sortKey === 'date' };
+        this.renderRecords(bests, laps);
+      });
     });
   }
   
@@ -115,6 +429,10 @@ export class GameMenu {
     this.isMenuOpen = true;
     this.menuContainer.style.display = 'flex';
     
+    if (this.isRecordsOpen) {
+      this.refreshRecords();
+    }
+    
     // Exit pointer lock when menu opens
     if (document.pointerLockElement) {
       document.exitPointerLock();
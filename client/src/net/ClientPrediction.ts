@@ -0,0 +1,174 @@
+import * as THREE from 'three';
+import type { Vec3 } from '../../../shared/protocol';
+
+// Prediction / reconciliation tuning
+export const PREDICTION_CONFIG = {
+  MAX_PENDING_INPUTS: 180,     // ~3 s of unacknowledged inputs at 60 Hz
+  POSITION_TOLERANCE: 0.05,    // metres of error ignored before correcting
+  ERROR_CORRECTION_RATE: 10,   // exponential decay rate (1/s) for visual error smoothing
+  SNAP_DISTANCE: 5.0           // errors larger than this snap instead of smoothing
+} as const;
+
+/**
+ * One fixed-step input sample from the local player
+ */
+export interface InputCommand {
+  seq: number;
+  deltaTime: number;
+  forward: boolean;
+  back: boolean;
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  slide: boolean;
+  block: boolean;
+  yaw: number;
+  pitch: number;
+}
+
+/**
+ * Everything the movement simulation reads and writes between steps.
+ * Restoring this and replaying inputs must reproduce the same motion,
+ * including rocket-jump / blink / swing momentum.
+ */
+export interface MovementState {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  direction: THREE.Vector3;
+  preservedMomentum: THREE.Vector3;
+  currentSpeed: number;
+  moveSpeed: number;
+  isGrounded: boolean;
+  canJump: boolean;
+  isSliding: boolean;
+  isRocketJumping: boolean;
+  rocketJumpSpeed: number;
+  isBlinkMomentum: boolean;
+  blinkMomentumSpeed: number;
+  timeInVoid: number;
+}
+
+/**
+ * Anything that can rewind its movement state and re-simulate an input
+ */
+export interface PredictedController {
+  getMovementState(): MovementState;
+  setMovementState(state: MovementState): void;
+  simulate(command: InputCommand): void;
+}
+
+interface PendingInput {
+  command: InputCommand;
+  state: MovementState; // predicted state after applying the command
+}
+
+/**
+ * Client-side prediction history with server reconciliation.
+ * Inputs are applied immediately and remembered until the server acknowledges them;
+ * corrections rewind to the acknowledged state and replay everything after it.
+ */
+export class ClientPrediction {
+  private pending: PendingInput[] = [];
+  private nextSeq = 1;
+  private lastSeq = 0;
+  private errorOffset = new THREE.Vector3();
+
+  /**
+   * Allocate the sequence number for the next input command
+   */
+  nextSequence(): number {
+    this.lastSeq = this.nextSeq++;
+    return this.lastSeq;
+  }
+
+  getLastSequence(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Remember a predicted step so it can be replayed later
+   */
+  record(command: InputCommand, state: MovementState): void {
+    this.pending.push({ command, state });
+
+    // Solo play never acknowledges inputs - keep the buffer bounded
+    if (this.pending.length > PREDICTION_CONFIG.MAX_PENDING_INPUTS) {
+      this.pending.shift();
+    }
+  }
+
+  /**
+   * Apply an authoritative position for the given input sequence.
+   * Returns true if a correction (rewind + replay) happened.
+   */
+  reconcile(controller: PredictedController, ackedSeq: number, serverPosition: Vec3): boolean {
+    // Inputs up to the acknowledged one are settled
+    const ackedIndex = this.pending.findIndex(entry => entry.command.seq === ackedSeq);
+    if (ackedIndex === -1) {
+      this.pending = this.pending.filter(entry => entry.command.seq > ackedSeq);
+      return false;
+    }
+
+    const acked = this.pending[ackedIndex];
+    this.pending = this.pending.slice(ackedIndex + 1);
+
+    const authoritative = new THREE.Vector3(serverPosition.x, serverPosition.y, serverPosition.z);
+    const error = acked.state.position.distanceTo(authoritative);
+    if (error <= PREDICTION_CONFIG.POSITION_TOLERANCE) {
+      return false;
+    }
+
+    const predictedPosition = controller.getMovementState().position;
+
+    // Rewind to the acknowledged step (keeping its momentum) at the server's position
+    controller.setMovementState({ ...cloneMovementState(acked.state), position: authoritative });
+
+    // Replay every input the server has not seen yet
+    for (const entry of this.pending) {
+      controller.simulate(entry.command);
+      entry.state = controller.getMovementState();
+    }
+
+    // Hide the correction visually and let it decay instead of snapping
+    const correctedPosition = controller.getMovementState().position;
+    this.errorOffset.add(predictedPosition.sub(correctedPosition));
+    if (this.errorOffset.length() > PREDICTION_CONFIG.SNAP_DISTANCE) {
+      this.errorOffset.set(0, 0, 0);
+    }
+
+    if (import.meta.env.DEV) {
+      console.log(`🌐 Reconciled ${error.toFixed(2)}m error at input ${ackedSeq}, replayed ${this.pending.length} inputs`);
+    }
+
+    return true;
+  }
+
+  /**
+   * Visual offset to add to the camera this frame (decays toward zero)
+   */
+  updateErrorOffset(deltaTime: number): THREE.Vector3 {
+    this.errorOffset.multiplyScalar(Math.exp(-PREDICTION_CONFIG.ERROR_CORRECTION_RATE * deltaTime));
+    if (this.errorOffset.lengthSq() < 1e-6) {
+      this.errorOffset.set(0, 0, 0);
+    }
+    return this.errorOffset;
+  }
+
+  /**
+   * Forget all history (respawn, teardown)
+   */
+  clear(): void {
+    this.pending = [];
+    this.errorOffset.set(0, 0, 0);
+  }
+}
+
+export function cloneMovementState(state: MovementState): MovementState {
+  return {
+    ...state,
+    position: state.position.clone(),
+    velocity: state.velocity.clone(),
+    direction: state.direction.clone(),
+    preservedMomentum: state.preservedMomentum.clone()
+  };
+}
@@ -0,0 +1,285 @@
+import * as THREE from 'three';
+import { io, type Socket } from 'socket.io-client';
+import {
+  ROOM_CONFIG,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type JoinRoomRequest,
+  type JoinRoomResponse,
+  type PlayerSnapshot,
+  type PlayerState,
+  type Vec3,
+  type RoomInfo,
+  type WorldSnapshot
+} from '../../../shared/protocol';
+import type { AttackContext } from '../../../shared/combat';
+import { RemotePlayer, INTERPOLATION_CONFIG } from './RemotePlayer';
+import type { FirstPersonController } from '../controller';
+import { gameEvents } from '../systems/GameEvents';
+
+export const DEFAULT_SERVER_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
+
+type GameClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+/**
+ * Client networking layer
+ * Joins a race room, sends local player state at a fixed tick and renders remote racers
+ */
+export class NetClient {
+  private scene: THREE.Scene;
+  private socket: GameClientSocket | null = null;
+  private playerId: string | null = null;
+  private roomInfo: RoomInfo | null = null;
+  private remotePlayers: Map<string, RemotePlayer> = new Map();
+  private localController: FirstPersonController | null = null;
+
+  // Fixed send tick
+  private sendInterval = 1 / ROOM_CONFIG.SNAPSHOT_RATE;
+  private sendAccumulator = 0;
+
+  // Smoothed estimate of (server clock - local clock) for interpolation
+  private clockOffset = 0;
+  private hasClockOffset = false;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Connect to the game server and join a room. After an automatic reconnect the same
+   * request is sent again; a failed first connection is final (no late join behind a failed result).
+   */
+  connect(request: JoinRoomRequest, serverUrl: string = DEFAULT_SERVER_URL): Promise<JoinRoomResponse> {
+    this.disconnect();
+
+    const socket: GameClientSocket = io(serverUrl, { transports: ['websocket'] });
+    this.socket = socket;
+    this.setupSocketListeners(socket);
+
+    return new Promise((resolve) => {
+      let joinedOnce = false;
+
+      socket.on('connect', () => {
+        socket.emit('joinRoom', request, (response) => {
+          if (this.socket !== socket) return; // disconnected while the join was in flight
+
+          if (response.ok) {
+            this.playerId = response.playerId;
+            this.setRoomInfo(response.room);
+            console.log(`🌐 ${joinedOnce ? 'Rejoined' : 'Joined'} room "${response.room.id}" as ${request.name}`);
+            gameEvents.emit('connectionStatusChanged', { status: 'joined', message: '' });
+          } else {
+            console.warn(`🌐 Could not join room "${request.roomId}": ${response.reason}`);
+            gameEvents.emit('connectionStatusChanged', { status: 'failed', message: response.reason });
+          }
+
+          if (!joinedOnce) {
+            joinedOnce = true;
+            resolve(response);
+          }
+        });
+      });
+
+      socket.once('connect_error', (error) => {
+        if (joinedOnce || socket.connected) return; // later errors are reconnect attempts
+
+        console.warn('🌐 Connection to game server failed:', error.message);
+        this.disconnect();
+        gameEvents.emit('connectionStatusChanged', { status: 'failed', message: error.message });
+        resolve({ ok: false, reason: error.message });
+      });
+    });
+  }
+
+  private setupSocketListeners(socket: GameClientSocket): void {
+    socket.on('currentPlayers', (players) => {
+      players.forEach(player => this.addRemotePlayer(player));
+    });
+
+    socket.on('playerJoined', (player) => {
+      this.addRemotePlayer(player);
+      console.log(`🌐 ${player.name} joined the room`);
+    });
+
+    socket.on('stateUpdate', (snapshot) => {
+      this.handleSnapshot(snapshot);
+    });
+
+    socket.on('playerLeft', (playerId) => {
+      this.removeRemotePlayer(playerId);
+    });
+
+    socket.on('roomState', (room) => {
+      this.setRoomInfo(room);
+    });
+
+    // Authoritative combat results - gameplay systems react via game events
+    socket.on('hit', (event) => {
+      this.remotePlayers.get(event.targetId)?.setHealth(event.health);
+      gameEvents.emit('serverHit', { ...event, isLocalTarget: event.targetId === this.playerId, isLocalAttacker: event.attackerId === this.playerId });
+    });
+
+    socket.on('ko', (event) => {
+      gameEvents.emit('serverKO', { ...event, isLocalTarget: event.targetId === this.playerId, isLocalAttacker: event.attackerId === this.playerId });
+    });
+
+    socket.on('parry', (event) => {
+      gameEvents.emit('serverParry', { ...event, isLocalDefender: event.defenderId === this.playerId, isLocalAttacker: event.attackerId === this.playerId });
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log(`🌐 Disconnected from game server (${reason})`);
+      this.clearRemotePlayers();
+      this.playerId = null;
+
+      // socket.io retries on its own unless the server closed the connection
+      gameEvents.emit('connectionStatusChanged', socket.active
+        ? { status: 'reconnecting', message: reason }
+        : { status: 'failed', message: reason });
+    });
+  }
+
+  private handleSnapshot(snapshot: WorldSnapshot): void {
+    // Track clock offset so interpolation works in server time
+    const offset = snapshot.serverTime - Date.now();
+    if (!this.hasClockOffset) {
+      this.clockOffset = offset;
+      this.hasClockOffset = true;
+    } else {
+      this.clockOffset += (offset - this.clockOffset) * 0.1;
+    }
+
+    for (const player of snapshot.players) {
+      if (player.id === this.playerId) {
+        // Our own authoritative state - correct local prediction if it diverged
+        this.localController?.reconcile(player.inputSeq, player.position);
+        continue;
+      }
+
+      let remote = this.remotePlayers.get(player.id);
+      if (!remote) {
+        remote = this.addRemotePlayer(player);
+      }
+      remote?.pushSnapshot(snapshot.serverTime, player);
+    }
+  }
+
+  private addRemotePlayer(snapshot: PlayerSnapshot): RemotePlayer | undefined {
+    if (snapshot.id === this.playerId || this.remotePlayers.has(snapshot.id)) {
+      return this.remotePlayers.get(snapshot.id);
+    }
+
+    const remote = new RemotePlayer(this.scene, snapshot);
+    this.remotePlayers.set(snapshot.id, remote);
+
+    gameEvents.emit('remotePlayerJoined', { player: remote });
+    return remote;
+  }
+
+  private removeRemotePlayer(playerId: string): void {
+    const remote = this.remotePlayers.get(playerId);
+    if (!remote) return;
+
+    console.log(`🌐 ${remote.name} left the room`);
+    remote.destroy();
+    this.remotePlayers.delete(playerId);
+
+    gameEvents.emit('remotePlayerLeft', { id: playerId });
+  }
+
+  private clearRemotePlayers(): void {
+    Array.from(this.remotePlayers.keys()).forEach(playerId => this.removeRemotePlayer(playerId));
+  }
+
+  private setRoomInfo(room: RoomInfo): void {
+    const previousPhase = this.roomInfo?.phase;
+    this.roomInfo = room;
+
+    gameEvents.emit('roomStateChanged', { room, previousPhase });
+  }
+
+  /**
+   * Send local state on the fixed tick and interpolate remote players (call every frame)
+   */
+  update(deltaTime: number, localState: PlayerState): void {
+    if (!this.socket?.connected || !this.playerId) return;
+
+    this.sendAccumulator += deltaTime;
+    if (this.sendAccumulator >= this.sendInterval) {
+      // Never send more than one state per frame, even after a hitch
+      this.sendAccumulator %= this.sendInterval;
+      this.socket.emit('playerState', localState);
+    }
+
+    const renderTime = this.getServerTime() - INTERPOLATION_CONFIG.DELAY;
+    this.remotePlayers.forEach(remote => remote.update(renderTime));
+  }
+
+  /**
+   * Controller whose predicted movement is reconciled against server snapshots
+   */
+  setLocalController(controller: FirstPersonController): void {
+    this.localController = controller;
+  }
+
+  setReady(ready: boolean): void {
+    this.socket?.emit('setReady', ready);
+  }
+
+  /**
+   * Ask the server to validate a melee swing against players as we were rendering them
+   */
+  sendMeleeAttack(origin: Vec3, direction: Vec3, context: AttackContext): void {
+    if (!this.socket?.connected || !this.playerId) return;
+
+    this.socket.emit('meleeAttack', {
+      viewTime: this.getServerTime() - INTERPOLATION_CONFIG.DELAY,
+      origin: { x: origin.x, y: origin.y, z: origin.z },
+      direction: { x: direction.x, y: direction.y, z: direction.z },
+      context
+    });
+  }
+
+  notifyRaceFinished(): void {
+    this.socket?.emit('raceFinished');
+  }
+
+  /**
+   * Current time on the server clock (estimated)
+   */
+  getServerTime(): number {
+    return Date.now() + this.clockOffset;
+  }
+
+  getPlayerId(): string | null {
+    return this.playerId;
+  }
+
+  getRoomInfo(): RoomInfo | null {
+    return this.roomInfo;
+  }
+
+  getRemotePlayers(): RemotePlayer[] {
+    return Array.from(this.remotePlayers.values());
+  }
+
+  isConnected(): boolean {
+    return !!this.socket?.connected && this.playerId !== null;
+  }
+
+  /**
+   * Leave the room and close the socket
+   */
+  disconnect(): void {
+    if (!this.socket) return;
+
+    this.socket.emit('leaveRoom');
+    this.socket.removeAllListeners();
+    this.socket.disconnect();
+    this.socket = null;
+    this.playerId = null;
+    this.roomInfo = null;
+    this.hasClockOffset = false;
+    this.clearRemotePlayers();
+  }
+}
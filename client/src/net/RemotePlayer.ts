@@ -0,0 +1,237 @@
+import * as THREE from 'three';
+import type { PlayerClass, PlayerSnapshot } from '../../../shared/protocol';
+import { COMBAT_CONFIG, resolveDefense, type DefenseStance } from '../../../shared/combat';
+import type { MeleeTarget } from '../combat';
+
+// Snapshot interpolation tuning
+export const INTERPOLATION_CONFIG = {
+  DELAY: 100,          // render remote players this many ms in the past
+  MAX_EXTRAPOLATION: 150, // keep moving along last velocity for at most this long when snapshots are late
+  BUFFER_DURATION: 1000   // discard snapshots older than this
+} as const;
+
+// Same colors as the local movement trail
+export const CLASS_COLORS: Record<PlayerClass, number> = {
+  blast: 0xff4444,
+  grapple: 0x44ff44,
+  blink: 0x4488ff
+};
+
+interface BufferedSnapshot {
+  time: number; // server time
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  yaw: number;
+}
+
+/**
+ * Another racer rendered as a capsule, positioned by interpolating buffered server snapshots.
+ * Also a melee target: local hits only give feedback, health comes from the server.
+ */
+export class RemotePlayer implements MeleeTarget {
+  public readonly id: string;
+  public name: string;
+  public playerClass: PlayerClass;
+  public position = new THREE.Vector3();
+  public yaw = 0;
+  public progress: number; // laps + fraction of checkpoints passed
+
+  private scene: THREE.Scene;
+  private mesh: THREE.Mesh;
+  private snapshots: BufferedSnapshot[] = [];
+  private health: number;
+  private defenseStance: DefenseStance;
+  private shieldMesh: THREE.Mesh;
+  private damageFlashTimer?: number;
+
+  constructor(scene: THREE.Scene, snapshot: PlayerSnapshot) {
+    this.scene = scene;
+    this.id = snapshot.id;
+    this.name = snapshot.name;
+    this.playerClass = snapshot.playerClass;
+    this.health = snapshot.health;
+    this.progress = snapshot.progress;
+
+    // Capsule matches the player collider (half height 1.0, radius 0.5)
+    const geometry = new THREE.CapsuleGeometry(0.5, 2.0, 8, 16);
+    const material = new THREE.MeshStandardMaterial({
+      color: CLASS_COLORS[snapshot.playerClass],
+      roughness: 0.6,
+      metalness: 0.1
+    });
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.castShadow = true;
+    this.mesh.name = `remote_player_${snapshot.id}`;
+
+    // Visor so facing direction is readable
+    const visorGeometry = new THREE.BoxGeometry(0.6, 0.2, 0.2);
+    const visorMaterial = new THREE.MeshBasicMaterial({ color: 0x111111 });
+    const visor = new THREE.Mesh(visorGeometry, visorMaterial);
+    visor.position.set(0, 0.8, -0.45);
+    this.mesh.add(visor);
+
+    // Shield shown while the racer holds block
+    const shieldGeometry = new THREE.CircleGeometry(0.6, 16);
+    const shieldMaterial = new THREE.MeshBasicMaterial({
+      color: 0x66ccff,
+      transparent: true,
+      opacity: 0.5,
+      side: THREE.DoubleSide
+    });
+    this.shieldMesh = new THREE.Mesh(shieldGeometry, shieldMaterial);
+    this.shieldMesh.position.set(0, 0.3, -0.7);
+    this.mesh.add(this.shieldMesh);
+
+    this.defenseStance = snapshot.defenseStance;
+    this.updateShield();
+
+    this.position.set(snapshot.position.x, snapshot.position.y, snapshot.position.z);
+    this.mesh.position.copy(this.position);
+    this.scene.add(this.mesh);
+  }
+
+  /**
+   * Buffer an authoritative snapshot for interpolation
+   */
+  pushSnapshot(serverTime: number, snapshot: PlayerSnapshot): void {
+    if (snapshot.playerClass !== this.playerClass) {
+      this.playerClass = snapshot.playerClass;
+      (this.mesh.material as THREE.MeshStandardMaterial).color.setHex(CLASS_COLORS[snapshot.playerClass]);
+    }
+    this.name = snapshot.name;
+    this.health = snapshot.health;
+    this.progress = snapshot.progress;
+    this.defenseStance = snapshot.defenseStance;
+    this.updateShield();
+
+    // Snapshots can arrive out of order - keep the buffer sorted
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (last && serverTime <= last.time) return;
+
+    this.snapshots.push({
+      time: serverTime,
+      position: new THREE.Vector3(snapshot.position.x, snapshot.position.y, snapshot.position.z),
+      velocity: new THREE.Vector3(snapshot.velocity.x, snapshot.velocity.y, snapshot.velocity.z),
+      yaw: snapshot.rotation.y
+    });
+
+    // Drop snapshots that can no longer be interpolated
+    const cutoff = serverTime - INTERPOLATION_CONFIG.BUFFER_DURATION;
+    while (this.snapshots.length > 2 && this.snapshots[0].time < cutoff) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Position the capsule at the given (delayed) server time
+   */
+  update(renderTime: number): void {
+    if (this.snapshots.length === 0) return;
+
+    const newest = this.snapshots[this.snapshots.length - 1];
+
+    if (renderTime >= newest.time) {
+      // Late snapshots - extrapolate briefly along the last known velocity
+      const extrapolation = Math.min(renderTime - newest.time, INTERPOLATION_CONFIG.MAX_EXTRAPOLATION) / 1000;
+      this.position.copy(newest.position).addScaledVector(newest.velocity, extrapolation);
+      this.yaw = newest.yaw;
+    } else if (renderTime <= this.snapshots[0].time) {
+      this.position.copy(this.snapshots[0].position);
+      this.yaw = this.snapshots[0].yaw;
+    } else {
+      // Find the pair of snapshots surrounding the render time
+      let index = this.snapshots.length - 2;
+      while (index > 0 && this.snapshots[index].time > renderTime) {
+        index--;
+      }
+
+      const from = this.snapshots[index];
+      const to = this.snapshots[index + 1];
+      const t = (renderTime - from.time) / (to.time - from.time);
+
+      this.position.lerpVectors(from.position, to.position, t);
+      this.yaw = lerpAngle(from.yaw, to.yaw, t);
+    }
+
+    this.mesh.position.copy(this.position);
+    this.mesh.rotation.y = this.yaw;
+  }
+
+  /**
+   * Predicted hit from our own melee - flash now, the server decides the real damage
+   */
+  takeDamage(damage: number, _direction: THREE.Vector3): void {
+    const defense = resolveDefense(damage, 0, this.defenseStance);
+    this.health = Math.max(0, this.health - defense.damage);
+    if (!defense.parried) {
+      this.flashDamage();
+    }
+  }
+
+  getDefenseStance(): DefenseStance {
+    return this.defenseStance;
+  }
+
+  /**
+   * Shield is visible while blocking, bright white during the parry window
+   */
+  private updateShield(): void {
+    this.shieldMesh.visible = this.defenseStance !== 'none';
+    (this.shieldMesh.material as THREE.MeshBasicMaterial).color.setHex(this.defenseStance === 'parry' ? 0xffffff : 0x66ccff);
+  }
+
+  /**
+   * Authoritative health from a server hit event
+   */
+  setHealth(health: number): void {
+    this.health = health;
+  }
+
+  getHealthStatus() {
+    return {
+      current: this.health,
+      max: COMBAT_CONFIG.MAX_HEALTH,
+      percentage: (this.health / COMBAT_CONFIG.MAX_HEALTH) * 100
+    };
+  }
+
+  private flashDamage(): void {
+    if (this.damageFlashTimer) {
+      window.clearTimeout(this.damageFlashTimer);
+    }
+
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.setHex(0x440000);
+
+    this.damageFlashTimer = window.setTimeout(() => {
+      material.emissive.setHex(0x000000);
+    }, 150);
+  }
+
+  /**
+   * Remove the capsule from the scene and free GPU resources
+   */
+  destroy(): void {
+    if (this.damageFlashTimer) {
+      window.clearTimeout(this.damageFlashTimer);
+    }
+
+    this.scene.remove(this.mesh);
+    this.mesh.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  }
+}
+
+/**
+ * Interpolate between two angles along the shortest arc
+ */
+function lerpAngle(from: number, to: number, t: number): number {
+  let delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return from + delta * t;
+}
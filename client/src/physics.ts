@@ -1,7 +1,9 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { FirstPersonController } from './controller';
-import { loadExternalTrack, SPAWN_POS } from './track/ExternalTrack';
+import { loadExternalTrack } from './track/ExternalTrack';
+import type { TrackManifest } from './track/TrackManifest';
+import type { Vec3 } from '../../shared/protocol';
 import { DeveloperTools } from './dev/DeveloperTools';
 
 export interface PhysicsWorld {
@@ -11,20 +13,25 @@ export interface PhysicsWorld {
   fpsController: FirstPersonController;
   devTools: DeveloperTools;
   step: (deltaTime: number) => void;
+  dispose: () => void; // free the Rapier world (and initPhysics' track meshes) - remove everything else from it first
 }
 
-export default async function initPhysics(scene: THREE.Scene, camera: THREE.Camera): Promise<PhysicsWorld> {
+// Grapple test ceiling spanning the whole map
+export const SWING_TEST_CEILING = {
+  Y: 35,
+  SIZE: 600
+} as const;
+
+export default async function initPhysics(scene: THREE.Scene, camera: THREE.Camera, track: TrackManifest): Promise<PhysicsWorld> {
   // Initialize Rapier
   await RAPIER.init();
   
-  // Create physics world
-  // Note: Gravity mainly affects dynamic bodies, not kinematic character controller
-  const gravity = { x: 0.0, y: -25.0, z: 0.0 }; // Balanced gravity (controller uses context-sensitive gravity)
-  const world = new RAPIER.World(gravity);
+  const world = createPhysicsWorld();
   
-  // Create ground
-  const groundColliderDesc = RAPIER.ColliderDesc.cuboid(50.0, 0.1, 50.0);
-  world.createCollider(groundColliderDesc);
+  // Everything the track adds to the scene, removed as one when the match ends
+  const trackRoot = new THREE.Group();
+  trackRoot.name = 'track';
+  scene.add(trackRoot);
   
   // Add visual ground with texture
   const groundGeometry = new THREE.BoxGeometry(100, 0.2, 100);
@@ -82,32 +89,71 @@ export default async function initPhysics(scene: THREE.Scene, camera: THREE.Came
   groundMesh.receiveShadow = true;
   groundMesh.castShadow = false; // Ground doesn't need to cast shadows
   groundMesh.position.y = -0.1;
-  scene.add(groundMesh);
+  trackRoot.add(groundMesh);
   
   // Create external track
-  await loadExternalTrack(scene, world);
-  
-  // Create player capsule
-  const capsuleRadius = 0.5;
-  const capsuleHeight = 1.0; // Half height
+  await loadExternalTrack(trackRoot, world, track);
   
-  // Create kinematic rigid body for player
-  // Start at proper spawn position on track
-  const playerBodyDesc = RAPIER.RigidBodyDesc.kinematicPositionBased()
-    .setTranslation(SPAWN_POS.x, SPAWN_POS.y, SPAWN_POS.z);
-  const playerBody = world.createRigidBody(playerBodyDesc);
+  const physics = createPlayerPhysics(world, camera, track);
+  return {
+    ...physics,
+    dispose: () => {
+      scene.remove(trackRoot);
+      disposeObject(trackRoot);
+      physics.dispose();
+    }
+  };
+}
+
+/**
+ * Release the GPU resources of every mesh under an object
+ */
+function disposeObject(root: THREE.Object3D): void {
+  root.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    
+    child.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+    materials.forEach(material => {
+      (material as THREE.MeshStandardMaterial).map?.dispose();
+      material.dispose();
+    });
+  });
+}
+
+/**
+ * Rapier world with gravity and the ground collider (no rendering - shared with the headless simulation)
+ */
+export function createPhysicsWorld(): RAPIER.World {
+  // Note: Gravity mainly affects dynamic bodies, not kinematic character controller
+  const gravity = { x: 0.0, y: -25.0, z: 0.0 }; // Balanced gravity (controller uses context-sensitive gravity)
+  const world = new RAPIER.World(gravity);
   
-  // Create capsule collider
-  const playerColliderDesc = RAPIER.ColliderDesc.capsule(capsuleHeight, capsuleRadius);
-  world.createCollider(playerColliderDesc, playerBody);
+  // Create ground
+  const groundColliderDesc = RAPIER.ColliderDesc.cuboid(50.0, 0.1, 50.0);
+  world.createCollider(groundColliderDesc);
   
-  // Create character controller
-  const playerController = world.createCharacterController(0.01);
-  playerController.setApplyImpulsesToDynamicBodies(true);
-  playerController.enableAutostep(0.3, 0.1, true);
-  playerController.enableSnapToGround(0.05); // Reduced for better ground detection
-  playerController.setMaxSlopeClimbAngle(45 * Math.PI / 180);
-  playerController.setMinSlopeSlideAngle(30 * Math.PI / 180);
+  return world;
+}
+
+/**
+ * Collider for the grapple test ceiling (the visual lives in main.ts)
+ */
+export function createSwingTestCeilingCollider(world: RAPIER.World): void {
+  const ceilingBody = world.createRigidBody(
+    RAPIER.RigidBodyDesc.fixed().setTranslation(0, SWING_TEST_CEILING.Y, 0)
+  );
+  const ceilingCollider = RAPIER.ColliderDesc.cuboid(SWING_TEST_CEILING.SIZE / 2, 0.1, SWING_TEST_CEILING.SIZE / 2);
+  world.createCollider(ceilingCollider, ceilingBody);
+}
+
+/**
+ * Player capsule, character controller and first-person controller at the track's first spawn point
+ */
+export function createPlayerPhysics(world: RAPIER.World, camera: THREE.Camera, track: TrackManifest): PhysicsWorld {
+  // Start at the track's first spawn point
+  const spawn = track.spawnPoints[0].position;
+  const { body: playerBody, characterController: playerController } = createCharacterBody(world, spawn);
   
   // Create first-person controller
   const fpsController = new FirstPersonController(
@@ -116,6 +162,7 @@ export default async function initPhysics(scene: THREE.Scene, camera: THREE.Came
     playerController,
     world
   );
+  fpsController.setTrackRules(track.spawnPoints[0], track.killzone);
   
   // Create developer tools
   const devTools = new DeveloperTools(playerBody);
@@ -126,12 +173,51 @@ export default async function initPhysics(scene: THREE.Scene, camera: THREE.Came
     fpsController.update(deltaTime);
   };
   
+  // Teardown: input listeners first, then the world and every body in it
+  const dispose = () => {
+    fpsController.dispose();
+    devTools.dispose();
+    world.removeCharacterController(playerController);
+    world.free();
+  };
+  
   return {
     world,
     playerBody,
     playerController,
     fpsController,
     devTools,
-    step
+    step,
+    dispose
   };
-} 
\ No newline at end of file
+} 
+/**
+ * Kinematic capsule and character controller for a racer (the local player and bots)
+ */
+export function createCharacterBody(world: RAPIER.World, position: Vec3): {
+  body: RAPIER.RigidBody;
+  characterController: RAPIER.KinematicCharacterController;
+} {
+  // Create player capsule
+  const capsuleRadius = 0.5;
+  const capsuleHeight = 1.0; // Half height
+  
+  // Create kinematic rigid body for player
+  const bodyDesc = RAPIER.RigidBodyDesc.kinematicPositionBased()
+    .setTranslation(position.x, position.y, position.z);
+  const body = world.createRigidBody(bodyDesc);
+  
+  // Create capsule collider
+  const colliderDesc = RAPIER.ColliderDesc.capsule(capsuleHeight, capsuleRadius);
+  world.createCollider(colliderDesc, body);
+  
+  // Create character controller
+  const characterController = world.createCharacterController(0.01);
+  characterController.setApplyImpulsesToDynamicBodies(true);
+  characterController.enableAutostep(0.3, 0.1, true);
+  characterController.enableSnapToGround(0.05); // Reduced for better ground detection
+  characterController.setMaxSlopeClimbAngle(45 * Math.PI / 180);
+  characterController.setMinSlopeSlideAngle(30 * Math.PI / 180);
+  
+  return { body, characterController };
+}
@@ -0,0 +1,24 @@
+/**
+ * Just enough `window` and `document` for the game modules to load and run under Node:
+ * event targets for the input listeners the modules register, no DOM, no renderer.
+ * Gameplay events go through the gameEvents bus, which doesn't need either.
+ * Install before importing anything that touches the browser globals at module load.
+ */
+export function installHeadlessEnvironment(): void {
+  if (typeof window !== 'undefined') return;
+
+  // As in a browser, window is the global object (libraries look up performance, timers etc. through it)
+  const windowEvents = new EventTarget();
+  Object.assign(globalThis, {
+    window: globalThis,
+    location: { hostname: 'headless', search: '' },
+    addEventListener: windowEvents.addEventListener.bind(windowEvents),
+    removeEventListener: windowEvents.removeEventListener.bind(windowEvents),
+    dispatchEvent: windowEvents.dispatchEvent.bind(windowEvents),
+    document: Object.assign(new EventTarget(), {
+      body: { requestPointerLock: () => {} },
+      pointerLockElement: null,
+      exitPointerLock: () => {}
+    })
+  });
+}
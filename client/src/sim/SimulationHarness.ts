@@ -0,0 +1,229 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { PlayerClass } from '../../../shared/protocol';
+import { createPhysicsWorld, createPlayerPhysics, createSwingTestCeilingCollider, type PhysicsWorld } from '../physics';
+import { createGrappleSurfaces, createTrackCollider } from '../track/ExternalTrack';
+import type { TrackManifest } from '../track/TrackManifest';
+import { AbilityManager } from '../kits/useAbility';
+import { setPlayerClass, getCurrentPlayerKit } from '../kits/classKit';
+import { resetBlastState } from '../kits/blast';
+import { isSwinging } from '../kits/grapple';
+import { pinGameTime } from '../systems/GameClock';
+import type { InputCommand } from '../net/ClientPrediction';
+import { gameEvents } from '../systems/GameEvents';
+
+// Headless simulation timing
+export const SIM_CONFIG = {
+  FIXED_TIME_STEP: 1 / 60,  // same 60 Hz step as the game loop
+  START_TIME: 1_000_000,    // epoch ms the pinned game clock starts from
+  SETTLE_TICKS: 30          // idle ticks after a reset so the player lands
+} as const;
+
+/**
+ * Buttons and look angles for one tick (anything omitted is released / zero)
+ */
+export type SimInput = Partial<Omit<InputCommand, 'seq' | 'deltaTime'>>;
+
+export interface SimulationOptions {
+  track: TrackManifest;
+  loadAsset?: (url: string) => Promise<ArrayBuffer>;  // reads public/ files; without the model only the ground plane collides
+}
+
+export interface SimResetOptions {
+  position: THREE.Vector3;
+  yaw?: number;
+  pitch?: number;
+  playerClass?: PlayerClass;
+  settle?: boolean;         // run SETTLE_TICKS idle ticks afterwards (default true)
+}
+
+/**
+ * The game's physics, controller and abilities without a renderer or browser.
+ * Every tick runs the same path as a live physics step (pinned clock, controller, then abilities)
+ * with scripted input commands in place of the keyboard and mouse.
+ */
+export class SimulationHarness {
+  readonly track: TrackManifest;
+  readonly physics: PhysicsWorld;
+  readonly abilities: AbilityManager;
+  readonly hasTrackModel: boolean;
+  private time: number = SIM_CONFIG.START_TIME;
+
+  private constructor(track: TrackManifest, physics: PhysicsWorld, abilities: AbilityManager, hasTrackModel: boolean) {
+    this.track = track;
+    this.physics = physics;
+    this.abilities = abilities;
+    this.hasTrackModel = hasTrackModel;
+  }
+
+  /**
+   * Build the world the way initPhysics and main.ts do: ground, track collider, grapple surfaces, swing ceiling
+   */
+  static async create(options: SimulationOptions): Promise<SimulationHarness> {
+    const { track, loadAsset } = options;
+    await RAPIER.init();
+
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(75, 16 / 9, 0.1, 1000);
+    const world = createPhysicsWorld();
+
+    createGrappleSurfaces(scene, world, track.grappleSurfaces);
+    createSwingTestCeilingCollider(world);
+    const hasTrackModel = loadAsset ? await loadTrackModel(world, track, loadAsset) : false;
+
+    const physics = createPlayerPhysics(world, camera, track);
+    physics.fpsController.setReplayMode(true);
+
+    const abilities = new AbilityManager();
+    abilities.initialize({ playerBody: physics.playerBody, world, camera, scene });
+    abilities.setLiveInputEnabled(false);
+
+    return new SimulationHarness(track, physics, abilities, hasTrackModel);
+  }
+
+  /**
+   * Put the player somewhere fresh: no velocity, no swing or rockets in flight, ability ready
+   */
+  reset(options: SimResetOptions): void {
+    const { position, yaw = 0, pitch = 0, playerClass = 'blast', settle = true } = options;
+    const controller = this.physics.fpsController;
+
+    resetBlastState();
+    gameEvents.emit('forceReleaseGrapple', { reason: 'sim-reset' });
+    setPlayerClass(playerClass);
+
+    controller.setReplayMode(true); // also clears speed modifiers
+    controller.setMovementState({
+      ...controller.getMovementState(),
+      position: position.clone(),
+      velocity: new THREE.Vector3(),
+      direction: new THREE.Vector3(),
+      preservedMomentum: new THREE.Vector3(),
+      currentSpeed: 0,
+      isGrounded: false,
+      isSliding: false,
+      isRocketJumping: false,
+      rocketJumpSpeed: 0,
+      isBlinkMomentum: false,
+      blinkMomentumSpeed: 0,
+      timeInVoid: 0
+    });
+    controller.setLookAngles(yaw, pitch);
+
+    if (settle) {
+      this.run(SIM_CONFIG.SETTLE_TICKS, { yaw, pitch });
+    }
+  }
+
+  /**
+   * One fixed physics step with the given input
+   */
+  tick(input: SimInput = {}): void {
+    const command: InputCommand = {
+      seq: 0,
+      deltaTime: SIM_CONFIG.FIXED_TIME_STEP,
+      forward: false,
+      back: false,
+      left: false,
+      right: false,
+      jump: false,
+      slide: false,
+      block: false,
+      yaw: 0,
+      pitch: 0,
+      ...input
+    };
+
+    pinGameTime(this.time);
+    this.physics.fpsController.setReplayCommand(command);
+    this.physics.step(SIM_CONFIG.FIXED_TIME_STEP);
+    this.abilities.update(command);
+    pinGameTime(null);
+
+    this.time += SIM_CONFIG.FIXED_TIME_STEP * 1000;
+  }
+
+  /**
+   * Run a number of ticks; input may vary per tick
+   */
+  run(ticks: number, input: SimInput | ((tick: number) => SimInput) = {}, onTick?: (tick: number) => void): void {
+    for (let tick = 0; tick < ticks; tick++) {
+      this.tick(typeof input === 'function' ? input(tick) : input);
+      onTick?.(tick);
+    }
+  }
+
+  /**
+   * Tick until the predicate holds; returns the ticks taken, or null if it never did
+   */
+  runUntil(predicate: () => boolean, maxTicks: number, input: SimInput | ((tick: number) => SimInput) = {}): number | null {
+    for (let tick = 0; tick < maxTicks; tick++) {
+      this.tick(typeof input === 'function' ? input(tick) : input);
+      if (predicate()) return tick + 1;
+    }
+    return null;
+  }
+
+  /**
+   * Press the ability key - it fires during the next tick, as in the game
+   */
+  useAbility(input: SimInput = {}): void {
+    this.abilities.queueActivation();
+    this.tick(input);
+  }
+
+  getPosition(): THREE.Vector3 {
+    const translation = this.physics.playerBody.translation();
+    return new THREE.Vector3(translation.x, translation.y, translation.z);
+  }
+
+  getVelocity(): THREE.Vector3 {
+    return this.physics.fpsController.getVelocity();
+  }
+
+  isGrounded(): boolean {
+    return this.physics.fpsController.getIsGrounded();
+  }
+
+  isSwinging(): boolean {
+    return isSwinging();
+  }
+
+  isAbilityReady(): boolean {
+    return getCurrentPlayerKit().ability.isReady;
+  }
+
+  /**
+   * Simulated ms since the harness started
+   */
+  getTime(): number {
+    return this.time - SIM_CONFIG.START_TIME;
+  }
+
+  /**
+   * Stop the ability timers, clear rockets in flight and free the Rapier world
+   */
+  dispose(): void {
+    this.abilities.destroy();
+    resetBlastState();
+    this.physics.dispose();
+  }
+}
+
+/**
+ * Parse the track model from disk and add its collider; false when the file is unavailable
+ */
+async function loadTrackModel(world: RAPIER.World, track: TrackManifest, loadAsset: (url: string) => Promise<ArrayBuffer>): Promise<boolean> {
+  let data: ArrayBuffer;
+  try {
+    data = await loadAsset(track.model.url);
+  } catch {
+    console.warn(`⚠️ ${track.model.url} not found - simulating on the ground plane only`);
+    return false;
+  }
+
+  const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
+  const gltf = await new GLTFLoader().parseAsync(data, '');
+  await createTrackCollider(world, track, gltf.scene);
+  return true;
+}
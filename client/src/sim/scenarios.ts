@@ -0,0 +1,273 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { PlayerClass } from '../../../shared/protocol';
+import { SimulationHarness, SIM_CONFIG } from './SimulationHarness';
+import { loadTrackManifest, DEFAULT_TRACK_ID } from '../track/TrackRegistry';
+import { ABILITY_CONFIGS } from '../kits/classKit';
+import { SWING } from '../kits/swingConfig';
+import { PREDICTION_CONFIG } from '../net/ClientPrediction';
+
+/**
+ * Expected outcomes for the balance numbers in docs/KIT_BALANCE.md.
+ * A tuning change that moves one of these should update the band here and the doc together.
+ */
+export const BALANCE_EXPECTATIONS = {
+  BLAST_APEX_HEIGHT: { min: 10.5, max: 12.5 }, // m above the take-off point: jump, then rocket at the feet (measured 11.5 m)
+  BLINK_DISTANCE: { min: 9.5, max: 10.05 },     // m travelled by one blink on open ground (10 m blinkDistance)
+  GRAPPLE_RELEASE_TOLERANCE: 2 / 60             // s past SWING.maxSwingTime the auto-release may land
+} as const;
+
+const WALL_DISTANCE = 3; // m from the spawn to the prediction scenario's wall
+const LOOK_DOWN = -Math.PI / 2 + 0.01;
+const LOOK_UP = Math.PI / 2 - 0.01;
+
+export interface SimCheck {
+  label: string;
+  actual: string;
+  expected: string;
+  passed: boolean;
+}
+
+export interface ScenarioReport {
+  name: string;
+  passed: boolean;
+  skipped: boolean; // needs the track model, which wasn't found (passed is false)
+  checks: SimCheck[];
+}
+
+export interface SimReport {
+  trackId: string;
+  hasTrackModel: boolean;
+  scenarios: ScenarioReport[];
+}
+
+interface Scenario {
+  name: string;
+  needsTrackModel?: boolean; // only meaningful against the real track geometry, not the bare ground plane
+  run: (sim: SimulationHarness, expect: Expectations) => void;
+}
+
+/**
+ * Collects the checks of one scenario
+ */
+class Expectations {
+  readonly checks: SimCheck[] = [];
+
+  inRange(label: string, value: number, min: number, max: number, unit = ''): void {
+    this.checks.push({
+      label,
+      actual: `${value.toFixed(2)}${unit}`,
+      expected: max === Infinity ? `≥ ${formatNumber(min)}${unit}` : `${formatNumber(min)}${unit} – ${formatNumber(max)}${unit}`,
+      passed: value >= min && value <= max
+    });
+  }
+
+  isTrue(label: string, value: boolean, detail = ''): void {
+    this.checks.push({
+      label,
+      actual: detail || String(value),
+      expected: 'true',
+      passed: value
+    });
+  }
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'blast: rocket jump apex height',
+    run: (sim, expect) => {
+      const spawn = spawnPosition(sim);
+      sim.reset({ position: spawn, pitch: LOOK_DOWN, playerClass: 'blast' });
+      const takeOff = sim.getPosition().y;
+
+      // Jump, then fire at the feet on the way up
+      sim.tick({ jump: true, pitch: LOOK_DOWN });
+      sim.useAbility({ pitch: LOOK_DOWN });
+
+      let apex = takeOff;
+      sim.run(180, { pitch: LOOK_DOWN }, () => {
+        apex = Math.max(apex, sim.getPosition().y);
+      });
+
+      const { min, max } = BALANCE_EXPECTATIONS.BLAST_APEX_HEIGHT;
+      expect.inRange('apex above take-off', apex - takeOff, min, max, 'm');
+    }
+  },
+  {
+    name: 'blink: full distance on open ground',
+    run: (sim, expect) => {
+      const spawn = spawnPosition(sim);
+      sim.reset({ position: spawn, playerClass: 'blink' });
+      const before = sim.getPosition();
+      sim.useAbility();
+      const after = sim.getPosition();
+
+      const { min, max } = BALANCE_EXPECTATIONS.BLINK_DISTANCE;
+      expect.inRange('distance', horizontalDistance(before, after), min, max, 'm');
+    }
+  },
+  {
+    name: 'blink: never lands in the killzone',
+    needsTrackModel: true,
+    run: (sim, expect) => {
+      const { minY, voidY } = sim.track.killzone;
+      const spawn = spawnPosition(sim);
+      let blinks = 0;
+      let lowest = Infinity;
+      let worst = '';
+
+      // Every direction from the ground and from the air, straight down included
+      for (const height of [0, 4, 12]) {
+        for (let pitchDeg = -90; pitchDeg <= 30; pitchDeg += 15) {
+          for (let yawDeg = 0; yawDeg < 360; yawDeg += 45) {
+            const yaw = THREE.MathUtils.degToRad(yawDeg);
+            const pitch = THREE.MathUtils.clamp(THREE.MathUtils.degToRad(pitchDeg), LOOK_DOWN, LOOK_UP);
+            sim.reset({
+              position: spawn.clone().add(new THREE.Vector3(0, height, 0)),
+              yaw,
+              pitch,
+              playerClass: 'blink',
+              settle: height === 0
+            });
+
+            const before = sim.getPosition();
+            sim.useAbility({ yaw, pitch });
+            const after = sim.getPosition();
+            if (after.distanceTo(before) < 0.5) continue; // blocked
+
+            blinks++;
+            if (after.y < lowest) {
+              lowest = after.y;
+              worst = `height ${height}, yaw ${yawDeg}°, pitch ${pitchDeg}°`;
+            }
+          }
+        }
+      }
+
+      expect.isTrue('blinks executed', blinks > 0, `${blinks}`);
+      expect.inRange(`lowest landing (${worst})`, lowest, voidY, Infinity, 'm');
+      expect.isTrue('above killzone floor', lowest > minY, `${lowest.toFixed(2)}m > ${minY}m`);
+    }
+  },
+  {
+    name: 'grapple: auto-release after SWING.maxSwingTime',
+    run: (sim, expect) => {
+      const spawn = spawnPosition(sim);
+      sim.reset({ position: spawn, pitch: LOOK_UP, playerClass: 'grapple' });
+      sim.useAbility({ pitch: LOOK_UP });
+      expect.isTrue('attached to the ceiling', sim.isSwinging());
+
+      // Hang without touching anything
+      const maxTicks = Math.ceil((SWING.maxSwingTime + 1) / SIM_CONFIG.FIXED_TIME_STEP);
+      const ticks = sim.runUntil(() => !sim.isSwinging(), maxTicks, { pitch: LOOK_UP });
+      const releasedAfter = ticks === null ? Infinity : ticks * SIM_CONFIG.FIXED_TIME_STEP;
+
+      expect.inRange('released after', releasedAfter, SWING.maxSwingTime, SWING.maxSwingTime + BALANCE_EXPECTATIONS.GRAPPLE_RELEASE_TOLERANCE, 's');
+    }
+  },
+  {
+    name: 'abilities: cooldowns match ABILITY_CONFIGS',
+    run: (sim, expect) => {
+      const spawn = spawnPosition(sim);
+      for (const playerClass of Object.keys(ABILITY_CONFIGS) as PlayerClass[]) {
+        // Aim where every kit fires successfully (grapple needs the ceiling)
+        const pitch = playerClass === 'grapple' ? LOOK_UP : 0;
+        sim.reset({ position: spawn, pitch, playerClass });
+        sim.useAbility({ pitch });
+        if (playerClass === 'grapple') {
+          sim.useAbility({ pitch }); // the grapple cooldown starts when the swing is released
+        }
+
+        const cooldown = ABILITY_CONFIGS[playerClass].cooldownDuration / 1000;
+        const maxTicks = Math.ceil((cooldown + 1) / SIM_CONFIG.FIXED_TIME_STEP);
+        const ticks = sim.runUntil(() => sim.isAbilityReady(), maxTicks, { pitch });
+        const readyAfter = ticks === null ? Infinity : ticks * SIM_CONFIG.FIXED_TIME_STEP;
+
+        expect.inRange(`${playerClass} ready after`, readyAfter, cooldown, cooldown + SIM_CONFIG.FIXED_TIME_STEP, 's');
+      }
+    }
+  },
+  {
+    name: 'prediction: rewind and replay next to a wall',
+    run: (sim, expect) => {
+      const spawn = spawnPosition(sim);
+      const { world, fpsController } = sim.physics;
+      const wall = world.createCollider(
+        RAPIER.ColliderDesc.cuboid(5, 3, 0.25).setTranslation(spawn.x, spawn.y, spawn.z - WALL_DISTANCE)
+      );
+
+      try {
+        sim.reset({ position: spawn, playerClass: 'blast' });
+
+        // Walk a few steps, keep the input the server will acknowledge, then run into the wall
+        sim.run(5, { forward: true });
+        const ackedSeq = fpsController.getLastInputSequence();
+        const ackedPosition = sim.getPosition();
+        sim.run(90, { forward: true });
+        const pinned = sim.getPosition();
+        expect.isTrue('stopped by the wall', pinned.z > wall.translation().z, `z ${pinned.z.toFixed(2)}`);
+
+        // The server puts the player a metre back; replaying the walk must end at the wall again
+        const serverPosition = ackedPosition.clone().add(new THREE.Vector3(0, 0, 1));
+        const corrected = fpsController.reconcile(ackedSeq, serverPosition);
+        expect.isTrue('reconciled', corrected);
+        expect.inRange('replayed end vs. live end', sim.getPosition().distanceTo(pinned), 0, PREDICTION_CONFIG.POSITION_TOLERANCE, 'm');
+      } finally {
+        world.removeCollider(wall, false);
+      }
+    }
+  }
+];
+
+/**
+ * Run every scenario (or those whose name contains the filter) against one shared world
+ */
+export async function runScenarios(options: {
+  filter?: string;
+  trackId?: string;
+  loadAsset?: (url: string) => Promise<ArrayBuffer>;
+}): Promise<SimReport> {
+  const track = loadTrackManifest(options.trackId ?? DEFAULT_TRACK_ID);
+  const sim = await SimulationHarness.create({ track, loadAsset: options.loadAsset });
+
+  const scenarios: ScenarioReport[] = [];
+  try {
+    for (const scenario of SCENARIOS) {
+      if (options.filter && !scenario.name.includes(options.filter)) continue;
+      if (scenario.needsTrackModel && !sim.hasTrackModel) {
+        scenarios.push({ name: scenario.name, passed: false, skipped: true, checks: [] });
+        continue;
+      }
+
+      const expect = new Expectations();
+      try {
+        scenario.run(sim, expect);
+      } catch (error) {
+        expect.isTrue('ran without throwing', false, String(error));
+      }
+      scenarios.push({
+        name: scenario.name,
+        passed: expect.checks.every(check => check.passed),
+        skipped: false,
+        checks: expect.checks
+      });
+    }
+  } finally {
+    sim.dispose();
+  }
+
+  return { trackId: track.id, hasTrackModel: sim.hasTrackModel, scenarios };
+}
+
+function spawnPosition(sim: SimulationHarness): THREE.Vector3 {
+  const { x, y, z } = sim.track.spawnPoints[0].position;
+  return new THREE.Vector3(x, y, z);
+}
+
+function horizontalDistance(from: THREE.Vector3, to: THREE.Vector3): number {
+  return Math.hypot(to.x - from.x, to.z - from.z);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
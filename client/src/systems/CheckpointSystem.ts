@@ -2,11 +2,23 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import type { CheckpointId } from './LapController';
 import { LapController } from './LapController';
+import type { TrackCheckpointType, TrackManifest } from '../track/TrackManifest';
+import { gameEvents, type Unsubscribe } from './GameEvents';
+
+// Detection tuning
+export const CHECKPOINT_CONFIG = {
+  DEBOUNCE_MS: 500,        // per-checkpoint cooldown (jitter on a volume's edge), other checkpoints still trigger
+  MAX_SWEEP_DISTANCE: 50,  // meters per frame; longer moves are teleports (respawn) and never trigger
+  GATE_DEBUG_THICKNESS: 0.2
+} as const;
 
 export interface CheckpointData {
   id: CheckpointId;
+  type: TrackCheckpointType;
   position: THREE.Vector3;
   size: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  inverseRotation: THREE.Quaternion;
   rigidBody: RAPIER.RigidBody;
   collider: RAPIER.Collider;
   debugMesh?: THREE.Mesh;
@@ -17,42 +29,51 @@ export class CheckpointSystem {
   private checkpoints: Map<CheckpointId, CheckpointData> = new Map();
   private checkpointByHandle: Map<number, CheckpointData> = new Map();
   private lapController: LapController;
+  private track: TrackManifest;
   private scene: THREE.Scene;
   private world: RAPIER.World;
   private isDevelopment: boolean;
-  private lastTriggerTime = 0; // Global debounce for all checkpoints
+  private previousPosition: THREE.Vector3 | null = null; // Player position last frame, swept against the checkpoints
+  private readonly onPlayerRespawn = () => this.resetTracking();
+  private unsubscribeRespawn: Unsubscribe;
   
-  constructor(scene: THREE.Scene, world: RAPIER.World, lapController: LapController) {
+  constructor(scene: THREE.Scene, world: RAPIER.World, lapController: LapController, track: TrackManifest) {
     this.scene = scene;
     this.world = world;
     this.lapController = lapController;
+    this.track = track;
     this.isDevelopment = import.meta.env.DEV || window.location.hostname === 'localhost';
     
     this.initializeCheckpoints();
+    
+    // A respawn teleports the player - don't sweep the jump across the map
+    this.unsubscribeRespawn = gameEvents.on('playerRespawn', this.onPlayerRespawn);
   }
   
   private initializeCheckpoints(): void {
-    // Define checkpoint positions as specified
-    const checkpointPositions = {
-      A: new THREE.Vector3(130.09, 2.32, -289.09),
-      B: new THREE.Vector3(-0.07, 16.25, -109.52),
-      C: new THREE.Vector3(98.45, 2.32, 52.05),
-      FINISH: new THREE.Vector3(0, 1, 0) // Finish line near spawn/start
-    };
-    
-    // Create checkpoint volumes
-    Object.entries(checkpointPositions).forEach(([id, position]) => {
-      this.createCheckpoint(id as CheckpointId, position);
+    // Checkpoint volumes come from the track manifest, in lap order
+    this.track.checkpoints.forEach(checkpoint => {
+      const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(
+        THREE.MathUtils.degToRad(checkpoint.rotation.x),
+        THREE.MathUtils.degToRad(checkpoint.rotation.y),
+        THREE.MathUtils.degToRad(checkpoint.rotation.z)
+      ));
+      
+      this.createCheckpoint(
+        checkpoint.id,
+        checkpoint.type ?? 'volume',
+        new THREE.Vector3(checkpoint.position.x, checkpoint.position.y, checkpoint.position.z),
+        new THREE.Vector3(checkpoint.size.x, checkpoint.size.y, checkpoint.size.z),
+        rotation
+      );
     });
   }
   
-  private createCheckpoint(id: CheckpointId, position: THREE.Vector3): void {
-    // Define checkpoint size (slightly larger for easier triggering)
-    const size = new THREE.Vector3(8, 6, 8); // 8m x 6m x 8m volume
-    
+  private createCheckpoint(id: CheckpointId, type: TrackCheckpointType, position: THREE.Vector3, size: THREE.Vector3, rotation: THREE.Quaternion): void {
     // Create a static rigid body for the sensor (ensures proper physics behavior)
     const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed()
-      .setTranslation(position.x, position.y, position.z);
+      .setTranslation(position.x, position.y, position.z)
+      .setRotation(rotation);
     const rigidBody = this.world.createRigidBody(rigidBodyDesc);
     
     // Create physics collider (sensor - no collision, just triggers)
@@ -65,7 +86,8 @@ export class CheckpointSystem {
     // Create debug visual (only in development)
     let debugMesh: THREE.Mesh | undefined;
     if (this.isDevelopment) {
-      const geometry = new THREE.BoxGeometry(size.x, size.y, size.z);
+      const depth = type === 'gate' ? CHECKPOINT_CONFIG.GATE_DEBUG_THICKNESS : size.z;
+      const geometry = new THREE.BoxGeometry(size.x, size.y, depth);
       const material = new THREE.MeshBasicMaterial({ 
         color: 0xff0000,
         transparent: true,
@@ -75,15 +97,24 @@ export class CheckpointSystem {
       
       debugMesh = new THREE.Mesh(geometry, material);
       debugMesh.position.copy(position);
+      debugMesh.quaternion.copy(rotation);
       debugMesh.name = `checkpoint_${id}_debug`;
+      
+      // Gates only count one way - point an arrow along the crossing direction
+      if (type === 'gate') {
+        debugMesh.add(new THREE.ArrowHelper(new THREE.Vector3(0, 0, -1), new THREE.Vector3(), size.y / 2, 0x00ffff));
+      }
       this.scene.add(debugMesh);
     }
     
     // Store checkpoint data
     const checkpointData = {
       id,
+      type,
       position: position.clone(),
       size: size.clone(),
+      rotation: rotation.clone(),
+      inverseRotation: rotation.clone().invert(),
       rigidBody,
       collider,
       debugMesh,
@@ -94,7 +125,7 @@ export class CheckpointSystem {
     this.checkpointByHandle.set(collider.handle, checkpointData);
     
     if (import.meta.env.DEV) {
-      console.log(`✓ Checkpoint ${id} created at position:`, position, `(sensor: ${collider.isSensor()})`);
+      console.log(`✓ Checkpoint ${id} (${type}) created at position:`, position, `(sensor: ${collider.isSensor()})`);
     }
     
     // Debug: Verify sensor configuration
@@ -106,40 +137,133 @@ export class CheckpointSystem {
 
   
   /**
-   * Check for checkpoint intersections using proper sensor detection
+   * Sweep the player's movement since last frame against every checkpoint, so fast movers can't tunnel through
    */
   update(playerPosition: THREE.Vector3): void {
-    // Since sensors are intangible, we can use distance-based detection for reliability
-    for (const [_id, checkpoint] of this.checkpoints) {
-      // Check if player is within checkpoint bounds
-      if (this.isPlayerInCheckpoint(playerPosition, checkpoint)) {
-        const now = performance.now();
-        if (now - this.lastTriggerTime < 500) return; // 0.5s debounce
-        
-        this.lastTriggerTime = now;
-        this.lapController.visit(checkpoint.id);
-        
-        // Flash debug mesh green once
-        if (checkpoint.debugMesh) {
-          const material = checkpoint.debugMesh.material as THREE.MeshBasicMaterial;
-          material.color.set(0x00ff00);
-          setTimeout(() => material.color.set(0xff0000), 200);
-        }
-        break; // Only trigger one checkpoint per frame
+    const previous = this.previousPosition;
+    this.previousPosition = playerPosition.clone();
+    
+    // First frame after spawning/respawning: nothing to sweep
+    if (!previous) return;
+    
+    const now = performance.now();
+    for (const checkpoint of this.findCrossedCheckpoints(previous, playerPosition)) {
+      // A debounced checkpoint doesn't hide the next one crossed in the same move
+      if (now - checkpoint.lastTriggerTime < CHECKPOINT_CONFIG.DEBOUNCE_MS) continue;
+      
+      checkpoint.lastTriggerTime = now;
+      this.lapController.visit(checkpoint.id);
+      
+      // Flash debug mesh green once
+      if (checkpoint.debugMesh) {
+        const material = checkpoint.debugMesh.material as THREE.MeshBasicMaterial;
+        material.color.set(0x00ff00);
+        setTimeout(() => material.color.set(0xff0000), 200);
       }
     }
   }
   
-  private isPlayerInCheckpoint(playerPosition: THREE.Vector3, checkpoint: CheckpointData): boolean {
-    const distance = playerPosition.distanceTo(checkpoint.position);
-    const maxDistance = Math.max(checkpoint.size.x, checkpoint.size.y, checkpoint.size.z) / 2;
+  /**
+   * Every checkpoint a move from one point to another triggers, in the order it reaches them
+   * (teleports trigger none). Bots sweep their own movement with it and keep their own lap progress.
+   */
+  findCrossedCheckpoints(from: THREE.Vector3, to: THREE.Vector3): CheckpointData[] {
+    if (from.distanceTo(to) > CHECKPOINT_CONFIG.MAX_SWEEP_DISTANCE) return [];
     
-    // Simple sphere-based collision detection for now
-    // Could be improved with proper box collision if needed
-    return distance <= maxDistance;
+    const crossings: { checkpoint: CheckpointData; at: number }[] = [];
+    for (const checkpoint of this.checkpoints.values()) {
+      const at = checkpoint.type === 'gate'
+        ? this.crossesGate(from, to, checkpoint)
+        : this.entersVolume(from, to, checkpoint);
+      if (at !== null) crossings.push({ checkpoint, at });
+    }
+    return crossings.sort((a, b) => a.at - b.at).map(crossing => crossing.checkpoint);
   }
   
-
+  /**
+   * Forget last frame's position (respawn, race restart) so the next move isn't swept
+   */
+  resetTracking(): void {
+    this.previousPosition = null;
+  }
+  
+  /**
+   * World point in the checkpoint's local (unrotated, centered) frame
+   */
+  private toLocal(point: THREE.Vector3, checkpoint: CheckpointData): THREE.Vector3 {
+    return point.clone().sub(checkpoint.position).applyQuaternion(checkpoint.inverseRotation);
+  }
+  
+  /**
+   * Is the player inside the checkpoint's rotated box
+   */
+  isPlayerInCheckpoint(playerPosition: THREE.Vector3, checkpoint: CheckpointData): boolean {
+    const local = this.toLocal(playerPosition, checkpoint);
+    return Math.abs(local.x) <= checkpoint.size.x / 2
+      && Math.abs(local.y) <= checkpoint.size.y / 2
+      && Math.abs(local.z) <= checkpoint.size.z / 2;
+  }
+  
+  /**
+   * Movement from outside into the rotated box - segment vs box slab test, so passing clean through counts too.
+   * Returns how far along the move (0-1) it enters, or null.
+   */
+  private entersVolume(from: THREE.Vector3, to: THREE.Vector3, checkpoint: CheckpointData): number | null {
+    if (this.isPlayerInCheckpoint(from, checkpoint)) return null; // already inside, not a new entry
+    
+    const start = this.toLocal(from, checkpoint);
+    const direction = this.toLocal(to, checkpoint).sub(start);
+    const halfSize = checkpoint.size.clone().multiplyScalar(0.5);
+    let tMin = 0;
+    let tMax = 1;
+    
+    for (const axis of ['x', 'y', 'z'] as const) {
+      if (Math.abs(direction[axis]) < 1e-8) {
+        // Parallel to this slab - must already be within it
+        if (Math.abs(start[axis]) > halfSize[axis]) return null;
+        continue;
+      }
+      
+      let t1 = (-halfSize[axis] - start[axis]) / direction[axis];
+      let t2 = (halfSize[axis] - start[axis]) / direction[axis];
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      
+      tMin = Math.max(tMin, t1);
+      tMax = Math.min(tMax, t2);
+      if (tMin > tMax) return null;
+    }
+    
+    return tMin;
+  }
+  
+  /**
+   * Movement through the gate plane (local Z = 0) towards local -Z, hitting within its width and height.
+   * Crossing the other way (driving backwards through the finish) doesn't count.
+   * Returns how far along the move (0-1) it crosses, or null.
+   */
+  private crossesGate(from: THREE.Vector3, to: THREE.Vector3, checkpoint: CheckpointData): number | null {
+    const start = this.toLocal(from, checkpoint);
+    const end = this.toLocal(to, checkpoint);
+    
+    // Behind the plane (+Z) last frame, on or past it (-Z) now
+    if (!(start.z > 0 && end.z <= 0)) {
+      if (import.meta.env.DEV && start.z <= 0 && end.z > 0 && this.hitsGateFace(start, end, checkpoint) !== null) {
+        console.log(`↩️ Gate ${checkpoint.id} crossed the wrong way - ignored`);
+      }
+      return null;
+    }
+    
+    return this.hitsGateFace(start, end, checkpoint);
+  }
+  
+  /**
+   * Where the local segment meets Z = 0, is it inside the gate rectangle (the fraction along the segment, or null)
+   */
+  private hitsGateFace(start: THREE.Vector3, end: THREE.Vector3, checkpoint: CheckpointData): number | null {
+    const t = start.z / (start.z - end.z);
+    const hit = start.clone().lerp(end, t);
+    return Math.abs(hit.x) <= checkpoint.size.x / 2 && Math.abs(hit.y) <= checkpoint.size.y / 2 ? t : null;
+  }
   
   /**
    * Get checkpoint position for respawning
@@ -149,12 +273,21 @@ export class CheckpointSystem {
     return checkpoint ? checkpoint.position.clone() : null;
   }
   
+  /**
+   * Checkpoint positions in lap order - the track centerline used for race positions
+   */
+  getRoutePositions(): THREE.Vector3[] {
+    return this.lapController.getCheckpointOrder()
+      .map(id => this.getCheckpointPosition(id))
+      .filter((position): position is THREE.Vector3 => position !== null);
+  }
+  
   /**
    * Get the spawn position for respawning
    */
   getSpawnPosition(): THREE.Vector3 {
-    // Default spawn position (can be overridden)
-    return new THREE.Vector3(0, 2, 0);
+    const spawn = this.track.spawnPoints[0].position;
+    return new THREE.Vector3(spawn.x, spawn.y, spawn.z);
   }
   
   /**
@@ -190,9 +323,12 @@ export class CheckpointSystem {
    * Clean up resources
    */
   dispose(): void {
+    this.unsubscribeRespawn();
+    
     for (const checkpoint of this.checkpoints.values()) {
       // Remove debug mesh from scene
       if (checkpoint.debugMesh) {
+        checkpoint.debugMesh.children.forEach(child => (child as THREE.ArrowHelper).dispose());
         this.scene.remove(checkpoint.debugMesh);
         checkpoint.debugMesh.geometry.dispose();
         (checkpoint.debugMesh.material as THREE.Material).dispose();
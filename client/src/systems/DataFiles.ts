@@ -0,0 +1,35 @@
+/**
+ * Helpers for the JSON data the game reads and writes: type guards for validating
+ * ghost, replay and track manifest files (and URL settings), and saving a file download.
+ */
+import type { PlayerClass, Vec3 } from '../../../shared/protocol';
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isVec3(value: unknown): value is Vec3 {
+  return isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+}
+
+export function isPlayerClass(value: unknown): value is PlayerClass {
+  return value === 'blast' || value === 'grapple' || value === 'blink';
+}
+
+/**
+ * Save data as a JSON file through a temporary download link
+ */
+export function downloadJsonFile(data: unknown, fileName: string): void {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
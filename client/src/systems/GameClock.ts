@@ -0,0 +1,17 @@
+/**
+ * Wall-clock time as the simulation sees it (ms since epoch).
+ * Ability cooldowns, swing timers and speed modifiers read this instead of Date.now(),
+ * so a replay can pin it to the time each recorded tick originally ran at.
+ */
+let pinnedTime: number | null = null;
+
+export function gameNow(): number {
+  return pinnedTime ?? Date.now();
+}
+
+/**
+ * Freeze the clock at a recorded tick time (null = back to real time)
+ */
+export function pinGameTime(time: number | null): void {
+  pinnedTime = time;
+}
@@ -0,0 +1,239 @@
+import type * as THREE from 'three';
+import type { PlayerClass, RoomPhase, RoomInfo, RaceResult, HitEvent, KOEvent, ParryEvent, Vec3 } from '../../../shared/protocol';
+import type { AttackContext } from '../../../shared/combat';
+import type { ClassKit } from '../kits/classKit';
+import type { SpeedModifierSpec } from './SpeedModifiers';
+import type { LapRecord } from './LapHistory';
+import type { RacePosition } from './RacePositions';
+import type { RemotePlayer } from '../net/RemotePlayer';
+import type { MovementState } from '../net/ClientPrediction';
+import type { MatchSettings } from './MatchSettings';
+
+export type RespawnReason = 'out-of-bounds' | 'ko' | 'race-start' | 'manual' | 'killzone';
+
+export type SpecialHitType = 'crit' | 'bonus' | 'parry' | 'staggered';
+
+/**
+ * Rocket push on a racer's controller (bodyHandle picks the racer; omitted = the local player)
+ */
+export interface BlastImpulse {
+  impulse: THREE.Vector3;
+  explosionPosition?: THREE.Vector3;
+  distance?: number;
+  isDirectional3D?: boolean;
+  isTF2Style?: boolean;
+  bodyHandle?: number;
+}
+
+export interface BlinkMomentum {
+  impulse: THREE.Vector3;
+  blinkDirection: THREE.Vector3;
+  distance: number;
+}
+
+export interface SwingRelease {
+  velocity: THREE.Vector3;
+  reason: string;
+}
+
+/**
+ * Every gameplay event and its payload (void = no payload)
+ */
+export interface GameEventMap {
+  // Movement
+  blastImpulse: BlastImpulse;
+  blastSelfImpulse: BlastImpulse;
+  blinkMomentumImpulse: BlinkMomentum;
+  swingReleaseImpulse: SwingRelease;
+  speedModifierGranted: SpeedModifierSpec;
+  speedBoostActive: { fromSpeed: number; toSpeed: number; duration: number; source: string; wasBoosted: boolean };
+  speedBoostEnded: { normalSpeed: number };
+  slipstreamChanged: { active: boolean; rivalId: string | null; gap: number; multiplier: number };
+  playerRespawn: { reason: RespawnReason; position: Vec3 };
+  movementCorrected: { state: MovementState }; // server reconciliation rewound and replayed our inputs
+  'game-reset': void;
+
+  // Abilities
+  playerClassChanged: { className: PlayerClass; kit: ClassKit };
+  abilityActivated: { className: PlayerClass; timestamp: number };
+  abilityUsed: { ability: string; position: THREE.Vector3; [detail: string]: unknown };
+  abilityWhiffed: { ability: PlayerClass; cooldown: number };
+  swingStateChanged: { isSwinging: boolean };
+  grappleSwingBottom: { timestamp: number; horizontalSpeed: number };
+  grappleDetached: { reason: string; timestamp: number };
+  forceReleaseGrapple: { reason: string };
+  blinkEffect: { fromPosition: THREE.Vector3; toPosition: THREE.Vector3; timestamp: number };
+  blinkBlocked: { fromPosition: THREE.Vector3; targetPosition: THREE.Vector3; reason: string };
+  rocketExplosion: { position: THREE.Vector3; radius: number; force: number; affectedCount: number; isTF2Style?: boolean };
+
+  // Combat
+  meleeAttack: { timestamp: number };
+  meleeSwing: { origin: THREE.Vector3; direction: THREE.Vector3; context: AttackContext };
+  meleeHit: {
+    targetId: string;
+    damage: number;
+    className: PlayerClass;
+    knockbackForce: number;
+    direction: THREE.Vector3;
+    isCrit: boolean;
+    isBonus: boolean;
+    isBlocked: boolean;
+  };
+  specialHitEffect: { type: SpecialHitType; timestamp: number };
+  blockStateChanged: { isBlocking: boolean; isParrying: boolean };
+  parry: { defenderId: string; attackerId?: string; isLocalDefender: boolean; isLocalAttacker: boolean };
+  combatLogMessage: { message: string };
+  playerHealthChanged: { current: number; max: number; damage: number; direction?: THREE.Vector3 };
+  playerKO: { attackerId?: string };
+  dummyKO: { id: string };
+  botKO: { id: string; name: string; attackerId: string };
+  dummyEditModeChanged: { enabled: boolean };
+  dummyPreviewModeChanged: { enabled: boolean };
+  dummyCountChanged: { loaded: number; placed: number };
+
+  // Race
+  lapRecorded: { record: LapRecord; isPersonalBest: boolean };
+  racePositionsChanged: { standings: RacePosition[] };
+  racePhaseChanged: { phase: RoomPhase; previousPhase: RoomPhase };
+  raceOvertime: void;
+  racerFinished: { id: string; name: string; finishTime: number | null };
+  raceResults: { results: RaceResult[] };
+  ghostExportRequested: void;
+  ghostImportRequested: { data: unknown; fileName: string };
+  ghostClearRequested: void;
+  importedGhostChanged: { fileName: string | null }; // null = racing the personal-best ghost again
+  matchRequested: MatchSettings;
+  matchStarted: { settings: MatchSettings };
+
+  // Network
+  remotePlayerJoined: { player: RemotePlayer };
+  remotePlayerLeft: { id: string };
+  roomStateChanged: { room: RoomInfo; previousPhase: RoomPhase | undefined };
+  connectionStatusChanged: { status: 'joined' | 'reconnecting' | 'failed'; message: string };
+  serverHit: HitEvent & { isLocalTarget: boolean; isLocalAttacker: boolean };
+  serverKO: KOEvent & { isLocalTarget: boolean; isLocalAttacker: boolean };
+  serverParry: ParryEvent & { isLocalDefender: boolean; isLocalAttacker: boolean };
+}
+
+export type GameEventName = keyof GameEventMap;
+export type GameEventListener<K extends GameEventName> = (payload: GameEventMap[K]) => void;
+export type Unsubscribe = () => void;
+
+type EmitArgs<K extends GameEventName> = GameEventMap[K] extends void ? [] : [payload: GameEventMap[K]];
+
+// A listener of some event; emit() restores its payload type from the event name it is stored under
+type StoredListener = (payload: never) => void;
+
+/**
+ * Typed publish/subscribe for gameplay events. Plain listener sets rather than DOM events,
+ * so it runs the same in the browser and the headless simulation.
+ */
+export class GameEventBus {
+  private listeners = new Map<GameEventName, Set<StoredListener>>();
+  private tracing: boolean | ReadonlySet<GameEventName> = false;
+
+  /**
+   * Subscribe; call the returned function to unsubscribe
+   */
+  on<K extends GameEventName>(name: K, listener: GameEventListener<K>): Unsubscribe {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  /**
+   * Subscribe for the next emit only
+   */
+  once<K extends GameEventName>(name: K, listener: GameEventListener<K>): Unsubscribe {
+    const unsubscribe = this.on(name, payload => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends GameEventName>(name: K, listener: GameEventListener<K>): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  /**
+   * Call every listener in subscription order; one failing listener doesn't stop the rest
+   */
+  emit<K extends GameEventName>(name: K, ...args: EmitArgs<K>): void {
+    const payload = args[0] as GameEventMap[K];
+    const listeners = this.listeners.get(name);
+
+    if (this.tracing === true || (this.tracing !== false && this.tracing.has(name))) {
+      console.log(`📣 ${name} → ${listeners?.size ?? 0} listener(s)`, payload ?? '');
+    }
+    if (!listeners) return;
+
+    // Copy first: listeners may unsubscribe while the event is going out
+    for (const listener of Array.from(listeners)) {
+      try {
+        (listener as GameEventListener<K>)(payload);
+      } catch (error) {
+        console.error(`❌ ${name} listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Subscriptions that are released together (one per system instance)
+   */
+  scope(): EventScope {
+    return new EventScope(this);
+  }
+
+  /**
+   * Log every emit (true), only the named events, or nothing (false)
+   */
+  setTracing(filter: boolean | GameEventName[]): void {
+    this.tracing = Array.isArray(filter) ? new Set(filter) : filter;
+  }
+
+  listenerCount(name?: GameEventName): number {
+    if (name) return this.listeners.get(name)?.size ?? 0;
+    let total = 0;
+    this.listeners.forEach(listeners => total += listeners.size);
+    return total;
+  }
+}
+
+/**
+ * Collects a system's subscriptions so dispose() releases all of them
+ */
+export class EventScope {
+  private bus: GameEventBus;
+  private unsubscribers: Unsubscribe[] = [];
+
+  constructor(bus: GameEventBus) {
+    this.bus = bus;
+  }
+
+  on<K extends GameEventName>(name: K, listener: GameEventListener<K>): Unsubscribe {
+    const unsubscribe = this.bus.on(name, listener);
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  dispose(): void {
+    this.unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  }
+}
+
+export const gameEvents = new GameEventBus();
+
+// Dev tracing: ?traceEvents (everything) or ?traceEvents=meleeHit,parry, or window.traceEvents(...) from the console
+if (import.meta.env.DEV && typeof window !== 'undefined') {
+  const traced = new URLSearchParams(window.location.search).get('traceEvents');
+  if (traced !== null) {
+    gameEvents.setTracing(traced ? traced.split(',') as GameEventName[] : true);
+  }
+  (window as any).traceEvents = (...names: GameEventName[]) => gameEvents.setTracing(names.length > 0 ? names : true);
+  (window as any).untraceEvents = () => gameEvents.setTracing(false);
+}
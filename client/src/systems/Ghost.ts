@@ -0,0 +1,322 @@
+import * as THREE from 'three';
+import type { PlayerClass, Vec3 } from '../../../shared/protocol';
+import { CLASS_COLORS } from '../net/RemotePlayer';
+import { downloadJsonFile, isFiniteNumber, isObject, isPlayerClass } from './DataFiles';
+
+// Ghost recording and playback tuning
+export const GHOST_CONFIG = {
+  TICK_MS: 50,          // one frame every 50 ms (20 Hz)
+  FILE_VERSION: 1,      // bump when the export layout changes
+  OPACITY: 0.35,
+  ABILITY_FLASH_MS: 300
+} as const;
+
+/**
+ * Player state at one recording tick
+ */
+export interface GhostFrame {
+  time: number;         // ms into the lap
+  position: Vec3;
+  yaw: number;          // radians
+  pitch: number;
+}
+
+export interface GhostAbilityEvent {
+  time: number;         // ms into the lap
+  ability: PlayerClass;
+}
+
+/**
+ * One lap's worth of ghost data
+ */
+export interface GhostRecording {
+  playerClass: PlayerClass;
+  lapTime: number;      // ms
+  frames: GhostFrame[];
+  abilities: GhostAbilityEvent[];
+}
+
+/**
+ * Shareable ghost file (JSON)
+ */
+export interface GhostFile {
+  version: number;
+  trackId: string;
+  recording: GhostRecording;
+}
+
+export type GhostFileValidation =
+  | { ok: true; file: GhostFile }
+  | { ok: false; errors: string[] };
+
+/**
+ * Samples the player at fixed ticks through the current lap
+ */
+export class GhostRecorder {
+  private frames: GhostFrame[] = [];
+  private abilities: GhostAbilityEvent[] = [];
+  private playerClass: PlayerClass = 'blast';
+  private nextTick = 0;
+
+  /**
+   * Start a fresh recording (lap start)
+   */
+  begin(): void {
+    this.frames = [];
+    this.abilities = [];
+    this.nextTick = 0;
+  }
+
+  /**
+   * Record a frame once the next tick is due - call every frame with the current lap time
+   */
+  sample(time: number, position: THREE.Vector3, yaw: number, pitch: number, playerClass: PlayerClass): void {
+    this.playerClass = playerClass;
+    if (time < this.nextTick) return;
+
+    this.frames.push({
+      time: round(time, 1),
+      position: { x: round(position.x, 3), y: round(position.y, 3), z: round(position.z, 3) },
+      yaw: round(yaw, 4),
+      pitch: round(pitch, 4)
+    });
+    this.nextTick = (Math.floor(time / GHOST_CONFIG.TICK_MS) + 1) * GHOST_CONFIG.TICK_MS;
+  }
+
+  recordAbility(time: number, ability: PlayerClass): void {
+    this.abilities.push({ time: round(time, 1), ability });
+  }
+
+  /**
+   * Close the recording at the finish
+   */
+  finish(lapTime: number): GhostRecording {
+    return {
+      playerClass: this.playerClass,
+      lapTime,
+      frames: [...this.frames],
+      abilities: [...this.abilities]
+    };
+  }
+}
+
+/**
+ * Translucent capsule replaying a recorded lap in sync with the current lap timer
+ */
+export class GhostPlayer {
+  private scene: THREE.Scene;
+  private mesh: THREE.Mesh;
+  private visor: THREE.Mesh;
+  private recording: GhostRecording | null = null;
+  private lastTime = 0;
+  private nextAbility = 0;
+  private flashTimer?: number;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    // Same capsule as a remote racer, see-through
+    const geometry = new THREE.CapsuleGeometry(0.5, 2.0, 8, 16);
+    const material = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: GHOST_CONFIG.OPACITY,
+      depthWrite: false,
+      emissive: 0x000000
+    });
+    this.mesh = new THREE.Mesh(geometry, material);
+    this.mesh.name = 'ghost_racer';
+    this.mesh.visible = false;
+
+    const visorMaterial = new THREE.MeshBasicMaterial({ color: 0x111111, transparent: true, opacity: GHOST_CONFIG.OPACITY });
+    this.visor = new THREE.Mesh(new THREE.BoxGeometry(0.6, 0.2, 0.2), visorMaterial);
+    this.visor.position.set(0, 0.8, -0.45);
+    this.mesh.add(this.visor);
+
+    this.scene.add(this.mesh);
+  }
+
+  /**
+   * Race against this recording (null removes the ghost)
+   */
+  load(recording: GhostRecording | null): void {
+    this.recording = recording && recording.frames.length > 0 ? recording : null;
+    this.lastTime = 0;
+    this.nextAbility = 0;
+    this.mesh.visible = false;
+
+    if (this.recording) {
+      (this.mesh.material as THREE.MeshStandardMaterial).color.setHex(CLASS_COLORS[this.recording.playerClass]);
+      console.log(`👻 Ghost loaded: ${this.recording.playerClass} ${(this.recording.lapTime / 1000).toFixed(2)}s`);
+    }
+  }
+
+  getRecording(): GhostRecording | null {
+    return this.recording;
+  }
+
+  /**
+   * Move the ghost to where it was at this point of its lap
+   */
+  update(lapTime: number): void {
+    const recording = this.recording;
+    if (!recording) return;
+
+    // New lap started - replay abilities from the top
+    if (lapTime < this.lastTime) {
+      this.nextAbility = 0;
+    }
+    this.lastTime = lapTime;
+
+    // Hidden once the ghost has crossed the finish
+    const frames = recording.frames;
+    if (lapTime > frames[frames.length - 1].time) {
+      this.mesh.visible = false;
+      return;
+    }
+    this.mesh.visible = true;
+
+    const index = findFrame(frames, lapTime);
+    const from = frames[index];
+    const to = frames[Math.min(index + 1, frames.length - 1)];
+    const span = to.time - from.time;
+    const alpha = span > 0 ? THREE.MathUtils.clamp((lapTime - from.time) / span, 0, 1) : 0;
+
+    this.mesh.position.set(
+      THREE.MathUtils.lerp(from.position.x, to.position.x, alpha),
+      THREE.MathUtils.lerp(from.position.y, to.position.y, alpha),
+      THREE.MathUtils.lerp(from.position.z, to.position.z, alpha)
+    );
+    this.mesh.rotation.y = lerpAngle(from.yaw, to.yaw, alpha);
+    this.visor.rotation.x = THREE.MathUtils.lerp(from.pitch, to.pitch, alpha);
+
+    // Flash for every ability the ghost used since last frame
+    while (this.nextAbility < recording.abilities.length && recording.abilities[this.nextAbility].time <= lapTime) {
+      this.nextAbility++;
+      this.flashAbility();
+    }
+  }
+
+  private flashAbility(): void {
+    const material = this.mesh.material as THREE.MeshStandardMaterial;
+    material.emissive.copy(material.color);
+
+    if (this.flashTimer) clearTimeout(this.flashTimer);
+    this.flashTimer = window.setTimeout(() => {
+      material.emissive.setHex(0x000000);
+    }, GHOST_CONFIG.ABILITY_FLASH_MS);
+  }
+
+  dispose(): void {
+    if (this.flashTimer) clearTimeout(this.flashTimer);
+    this.scene.remove(this.mesh);
+    this.mesh.geometry.dispose();
+    (this.mesh.material as THREE.Material).dispose();
+    this.visor.geometry.dispose();
+    (this.visor.material as THREE.Material).dispose();
+  }
+}
+
+/**
+ * Save a ghost as a JSON file to share with teammates
+ */
+export function downloadGhostFile(trackId: string, recording: GhostRecording): void {
+  const file: GhostFile = { version: GHOST_CONFIG.FILE_VERSION, trackId, recording };
+  const fileName = `ghost_${trackId}_${recording.playerClass}_${(recording.lapTime / 1000).toFixed(2)}s.json`;
+  downloadJsonFile(file, fileName);
+
+  console.log(`👻 Ghost exported: ${fileName}`);
+}
+
+/**
+ * Check an imported ghost file, collecting every problem found
+ */
+export function validateGhostFile(data: unknown): GhostFileValidation {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: ['ghost file must be an object'] };
+  }
+  if (data.version !== GHOST_CONFIG.FILE_VERSION) {
+    errors.push(`version must be ${GHOST_CONFIG.FILE_VERSION} (got ${String(data.version)})`);
+  }
+  if (typeof data.trackId !== 'string' || data.trackId.length === 0) {
+    errors.push('trackId must be a non-empty string');
+  }
+
+  const recording = data.recording;
+  if (!isObject(recording)) {
+    errors.push('recording must be an object');
+  } else {
+    if (!isPlayerClass(recording.playerClass)) {
+      errors.push('recording.playerClass must be blast, grapple or blink');
+    }
+    if (!isFiniteNumber(recording.lapTime) || recording.lapTime <= 0) {
+      errors.push('recording.lapTime must be a positive number');
+    }
+
+    if (!Array.isArray(recording.frames) || recording.frames.length === 0) {
+      errors.push('recording.frames must be a non-empty array');
+    } else {
+      let previousTime = -Infinity;
+      recording.frames.forEach((frame, index) => {
+        const path = `recording.frames[${index}]`;
+        if (!isObject(frame) || !isFiniteNumber(frame.time) || !isFiniteNumber(frame.yaw) || !isFiniteNumber(frame.pitch)
+          || !isObject(frame.position) || !isFiniteNumber(frame.position.x) || !isFiniteNumber(frame.position.y) || !isFiniteNumber(frame.position.z)) {
+          errors.push(`${path} must be {time, position: {x, y, z}, yaw, pitch} numbers`);
+          return;
+        }
+        if (frame.time <= previousTime) {
+          errors.push(`${path}.time must increase`);
+        }
+        previousTime = frame.time;
+      });
+    }
+
+    if (!Array.isArray(recording.abilities)) {
+      errors.push('recording.abilities must be an array');
+    } else {
+      recording.abilities.forEach((event, index) => {
+        if (!isObject(event) || !isFiniteNumber(event.time) || !isPlayerClass(event.ability)) {
+          errors.push(`recording.abilities[${index}] must be {time, ability}`);
+        }
+      });
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, file: data as unknown as GhostFile };
+}
+
+/**
+ * Last frame at or before the given time (binary search - frames are time-ordered)
+ */
+function findFrame(frames: GhostFrame[], time: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].time <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Interpolate yaw the short way round
+ */
+function lerpAngle(from: number, to: number, alpha: number): number {
+  let delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return from + delta * alpha;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,385 @@
+import * as THREE from 'three';
+import type { PlayerClass, Vec3 } from '../../../shared/protocol';
+import type { InputCommand, MovementState } from '../net/ClientPrediction';
+import type { SpeedModifierSpec } from './SpeedModifiers';
+import { downloadJsonFile, isFiniteNumber, isObject, isPlayerClass, isVec3 } from './DataFiles';
+
+// Input replay recording limits
+export const REPLAY_CONFIG = {
+  FILE_VERSION: 1,            // bump when the file layout changes
+  MAX_TICKS: 60 * 60 * 15     // 15 minutes at 60 Hz, recording stops past this
+} as const;
+
+/**
+ * Something outside the controller's input command that changed the simulation.
+ * `ability` runs in the tick it was recorded on (abilities fire after the physics step);
+ * everything else, bot hits included, happened between two ticks and is applied before the next tick's step.
+ */
+export type ReplayEvent =
+  | { type: 'ability' }
+  | { type: 'class'; playerClass: PlayerClass }
+  | { type: 'reset'; reason: 'manual' | 'ko' | 'race-start' }
+  | { type: 'speedModifier'; spec: SpeedModifierSpec }
+  | { type: 'speedModifierRemoved'; source: string }
+  | { type: 'respawnPoint'; position: Vec3 }
+  | { type: 'knockback'; force: number; direction: Vec3 }
+  | { type: 'correction'; movement: SerializedMovementState }; // server reconciliation, applied as recorded
+
+/**
+ * One fixed physics step
+ */
+export interface ReplayTick {
+  time: number;               // ms since the recording started (pinned game clock during replay)
+  buttons: number;            // REPLAY_BUTTONS bitmask
+  yaw: number;
+  pitch: number;
+  events?: ReplayEvent[];
+}
+
+/**
+ * Everything restored before the first tick
+ */
+export interface ReplayStart {
+  movement: SerializedMovementState;
+  yaw: number;
+  pitch: number;
+  respawnPoint: Vec3;         // last checkpoint reached
+  playerClass: PlayerClass;
+  abilityLastUsed: number;    // ms relative to the recording start (negative = before it)
+  abilityReady: boolean;
+}
+
+export interface ReplayFile {
+  version: number;
+  trackId: string;
+  fixedTimeStep: number;      // seconds
+  startTime: number;          // epoch ms when recording began
+  start: ReplayStart;
+  ticks: ReplayTick[];
+}
+
+export type ReplayFileValidation =
+  | { ok: true; replay: ReplayFile }
+  | { ok: false; errors: string[] };
+
+type SerializedMovementState = Omit<MovementState, 'position' | 'velocity' | 'direction' | 'preservedMomentum'> & {
+  position: Vec3;
+  velocity: Vec3;
+  direction: Vec3;
+  preservedMomentum: Vec3;
+};
+
+// Movement buttons packed into one number per tick
+const REPLAY_BUTTONS = {
+  forward: 1,
+  back: 2,
+  left: 4,
+  right: 8,
+  jump: 16,
+  slide: 32,
+  block: 64
+} as const;
+
+type ReplayButton = keyof typeof REPLAY_BUTTONS;
+
+/**
+ * Records the raw input stream of a session, one entry per fixed physics tick.
+ * Call beginTick() before physicsWorld.step and endTick() after the tick's ability update.
+ */
+export class InputRecorder {
+  private recording: ReplayFile | null = null;
+  private currentTick: ReplayTick | null = null;
+  private pendingEvents: ReplayEvent[] = [];
+  private currentEvents: ReplayEvent[] = [];
+  private limitReached = false;
+
+  /**
+   * Start a fresh recording from the current state (session start, race start)
+   */
+  start(trackId: string, fixedTimeStep: number, startTime: number, start: {
+    movement: MovementState;
+    yaw: number;
+    pitch: number;
+    respawnPoint: THREE.Vector3;
+    playerClass: PlayerClass;
+    abilityLastUsed: number;
+    abilityReady: boolean;
+  }): void {
+    this.recording = {
+      version: REPLAY_CONFIG.FILE_VERSION,
+      trackId,
+      fixedTimeStep,
+      startTime,
+      start: {
+        movement: serializeMovementState(start.movement),
+        yaw: start.yaw,
+        pitch: start.pitch,
+        respawnPoint: toVec3(start.respawnPoint),
+        playerClass: start.playerClass,
+        abilityLastUsed: start.abilityLastUsed - startTime,
+        abilityReady: start.abilityReady
+      },
+      ticks: []
+    };
+    this.currentTick = null;
+    this.pendingEvents = [];
+    this.currentEvents = [];
+    this.limitReached = false;
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null && !this.limitReached;
+  }
+
+  /**
+   * Note an event; abilities belong to the tick in progress, anything else to the next tick
+   */
+  recordEvent(event: ReplayEvent): void {
+    if (!this.isRecording()) return;
+
+    if (event.type === 'ability' && this.currentTick) {
+      this.currentEvents.push(event);
+    } else {
+      this.pendingEvents.push(event);
+    }
+  }
+
+  beginTick(time: number): void {
+    if (!this.isRecording()) return;
+
+    this.currentTick = { time: time - this.recording!.startTime, buttons: 0, yaw: 0, pitch: 0 };
+    this.currentEvents = this.pendingEvents;
+    this.pendingEvents = [];
+  }
+
+  /**
+   * Close the tick with the command the controller simulated
+   */
+  endTick(command: InputCommand | null): void {
+    const recording = this.recording;
+    const tick = this.currentTick;
+    if (!recording || !tick || this.limitReached) return;
+
+    if (command) {
+      tick.buttons = encodeButtons(command);
+      tick.yaw = command.yaw;
+      tick.pitch = command.pitch;
+    }
+    if (this.currentEvents.length > 0) {
+      tick.events = this.currentEvents;
+    }
+
+    recording.ticks.push(tick);
+    this.currentTick = null;
+    this.currentEvents = [];
+
+    if (recording.ticks.length >= REPLAY_CONFIG.MAX_TICKS) {
+      this.limitReached = true;
+      console.warn(`🎬 Replay recording stopped at ${REPLAY_CONFIG.MAX_TICKS} ticks - restart the race to record again`);
+    }
+  }
+
+  /**
+   * The recording so far (a copy, safe to save while recording continues)
+   */
+  getRecording(): ReplayFile | null {
+    if (!this.recording) return null;
+    return { ...this.recording, ticks: [...this.recording.ticks] };
+  }
+}
+
+/**
+ * Input command a tick replays through the controller
+ */
+export function tickToCommand(tick: ReplayTick, fixedTimeStep: number): InputCommand {
+  const pressed = (button: ReplayButton) => (tick.buttons & REPLAY_BUTTONS[button]) !== 0;
+  return {
+    seq: 0, // the controller assigns its own sequence
+    deltaTime: fixedTimeStep,
+    forward: pressed('forward'),
+    back: pressed('back'),
+    left: pressed('left'),
+    right: pressed('right'),
+    jump: pressed('jump'),
+    slide: pressed('slide'),
+    block: pressed('block'),
+    yaw: tick.yaw,
+    pitch: tick.pitch
+  };
+}
+
+export function deserializeMovementState(state: SerializedMovementState): MovementState {
+  const toVector = (value: Vec3) => new THREE.Vector3(value.x, value.y, value.z);
+  return {
+    ...state,
+    position: toVector(state.position),
+    velocity: toVector(state.velocity),
+    direction: toVector(state.direction),
+    preservedMomentum: toVector(state.preservedMomentum)
+  };
+}
+
+/**
+ * Save a replay as a JSON file to attach to a bug report
+ */
+export function downloadReplayFile(replay: ReplayFile): void {
+  const fileName = `replay_${replay.trackId}_${new Date(replay.startTime).toISOString().replace(/[:.]/g, '-')}.json`;
+  downloadJsonFile(replay, fileName);
+
+  console.log(`🎬 Replay saved: ${fileName} (${replay.ticks.length} ticks)`);
+}
+
+/**
+ * Check a loaded replay file, collecting every problem found
+ */
+export function validateReplayFile(data: unknown): ReplayFileValidation {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: ['replay file must be an object'] };
+  }
+  if (data.version !== REPLAY_CONFIG.FILE_VERSION) {
+    errors.push(`version must be ${REPLAY_CONFIG.FILE_VERSION} (got ${String(data.version)})`);
+  }
+  if (typeof data.trackId !== 'string' || data.trackId.length === 0) {
+    errors.push('trackId must be a non-empty string');
+  }
+  if (!isFiniteNumber(data.fixedTimeStep) || data.fixedTimeStep <= 0) {
+    errors.push('fixedTimeStep must be a positive number');
+  }
+  if (!isFiniteNumber(data.startTime)) {
+    errors.push('startTime must be a number');
+  }
+
+  const start = data.start;
+  if (!isObject(start) || !isObject(start.movement) || !isFiniteNumber(start.yaw) || !isFiniteNumber(start.pitch)
+    || !isPlayerClass(start.playerClass) || !isFiniteNumber(start.abilityLastUsed) || typeof start.abilityReady !== 'boolean') {
+    errors.push('start must describe the movement state, look angles, class and ability cooldown');
+  } else {
+    if (!isVec3(start.respawnPoint)) {
+      errors.push('start.respawnPoint must be {x, y, z} numbers');
+    }
+    for (const key of ['position', 'velocity', 'direction', 'preservedMomentum']) {
+      if (!isVec3(start.movement[key])) {
+        errors.push(`start.movement.${key} must be {x, y, z} numbers`);
+      }
+    }
+  }
+
+  if (!Array.isArray(data.ticks) || data.ticks.length === 0) {
+    errors.push('ticks must be a non-empty array');
+  } else {
+    // Report only the first bad tick - a corrupt file would otherwise list thousands
+    const badIndex = data.ticks.findIndex(tick => !isObject(tick) || !isFiniteNumber(tick.time)
+      || !isFiniteNumber(tick.buttons) || !isFiniteNumber(tick.yaw) || !isFiniteNumber(tick.pitch)
+      || (tick.events !== undefined && !Array.isArray(tick.events)));
+    if (badIndex !== -1) {
+      errors.push(`ticks[${badIndex}] must be {time, buttons, yaw, pitch, events?}`);
+    } else {
+      const badEvent = findBadEvent(data.ticks);
+      if (badEvent) {
+        errors.push(`ticks[${badEvent.tick}].events[${badEvent.event}] is not a valid replay event`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const replay = data as unknown as ReplayFile;
+  restoreUnlimitedDurations(replay);
+  return { ok: true, replay };
+}
+
+/**
+ * First event (tick and index) that doesn't match the ReplayEvent union
+ */
+function findBadEvent(ticks: Array<{ events?: unknown[] }>): { tick: number; event: number } | null {
+  for (let tick = 0; tick < ticks.length; tick++) {
+    const event = (ticks[tick].events ?? []).findIndex(candidate => !isReplayEvent(candidate));
+    if (event !== -1) return { tick, event };
+  }
+  return null;
+}
+
+function isReplayEvent(value: unknown): value is ReplayEvent {
+  if (!isObject(value)) return false;
+
+  switch (value.type) {
+    case 'ability':
+      return true;
+    case 'class':
+      return isPlayerClass(value.playerClass);
+    case 'reset':
+      return value.reason === 'manual' || value.reason === 'ko' || value.reason === 'race-start';
+    case 'speedModifier':
+      return isSpeedModifierSpec(value.spec);
+    case 'speedModifierRemoved':
+      return typeof value.source === 'string';
+    case 'respawnPoint':
+      return isVec3(value.position);
+    case 'knockback':
+      return isFiniteNumber(value.force) && isVec3(value.direction);
+    case 'correction':
+      return isSerializedMovementState(value.movement);
+    default:
+      return false;
+  }
+}
+
+// JSON writes an unlimited duration (Infinity) as null
+function isSpeedModifierSpec(value: unknown): value is SpeedModifierSpec {
+  return isObject(value) &&
+    typeof value.source === 'string' &&
+    (value.kind === 'additive' || value.kind === 'multiplicative') &&
+    isFiniteNumber(value.value) &&
+    (value.duration === null || (isFiniteNumber(value.duration) && value.duration > 0)) &&
+    (value.decay === 'step' || value.decay === 'linear') &&
+    (value.maxStacks === undefined || (Number.isInteger(value.maxStacks) && (value.maxStacks as number) > 0));
+}
+
+function isSerializedMovementState(value: unknown): value is SerializedMovementState {
+  return isObject(value) &&
+    ['position', 'velocity', 'direction', 'preservedMomentum'].every(key => isVec3(value[key])) &&
+    ['currentSpeed', 'moveSpeed', 'rocketJumpSpeed', 'blinkMomentumSpeed', 'timeInVoid'].every(key => isFiniteNumber(value[key])) &&
+    ['isGrounded', 'canJump', 'isSliding', 'isRocketJumping', 'isBlinkMomentum'].every(key => typeof value[key] === 'boolean');
+}
+
+/**
+ * Turn the null durations JSON left behind back into Infinity
+ */
+function restoreUnlimitedDurations(replay: ReplayFile): void {
+  for (const tick of replay.ticks) {
+    for (const event of tick.events ?? []) {
+      if (event.type === 'speedModifier' && (event.spec.duration as number | null) === null) {
+        event.spec.duration = Infinity;
+      }
+    }
+  }
+}
+
+function encodeButtons(command: InputCommand): number {
+  let buttons = 0;
+  for (const button of Object.keys(REPLAY_BUTTONS) as ReplayButton[]) {
+    if (command[button]) buttons |= REPLAY_BUTTONS[button];
+  }
+  return buttons;
+}
+
+/**
+ * Plain {x, y, z} for event payloads
+ */
+export function toVec3(vector: THREE.Vector3): Vec3 {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+export function serializeMovementState(state: MovementState): SerializedMovementState {
+  return {
+    ...state,
+    position: toVec3(state.position),
+    velocity: toVec3(state.velocity),
+    direction: toVec3(state.direction),
+    preservedMomentum: toVec3(state.preservedMomentum)
+  };
+}
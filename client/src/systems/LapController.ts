@@ -1,6 +1,27 @@
 import * as THREE from 'three';
+import type { PlayerClass } from '../../../shared/protocol';
+import { GhostRecorder, type GhostRecording } from './Ghost';
 
-export type CheckpointId = 'A' | 'B' | 'C' | 'FINISH';
+// Checkpoint ids come from the track manifest
+export type CheckpointId = string;
+
+export const DEFAULT_CHECKPOINT_ORDER: CheckpointId[] = ['A', 'B', 'C', 'FINISH'];
+
+/**
+ * Time into the lap (ms) at which a checkpoint was passed
+ */
+export interface CheckpointSplit {
+  id: CheckpointId;
+  time: number;
+}
+
+/**
+ * A split compared against the best lap's split at the same checkpoint (negative delta = ahead of the best).
+ * delta is null when the best lap never passed that gate (first lap, other route).
+ */
+export interface SplitComparison extends CheckpointSplit {
+  delta: number | null;
+}
 
 export interface CheckpointVisit {
   id: CheckpointId;
@@ -8,106 +29,289 @@ export interface CheckpointVisit {
   position: THREE.Vector3;
 }
 
+/**
+ * Checkpoint graph for a lap:
+ * - circuit: after `finish` the next lap starts again from `start`
+ * - sprint: point-to-point, reaching `finish` completes the run
+ * Alternate routes are checkpoints listing several `next` gates, any of which counts.
+ */
+export interface RouteDefinition {
+  type: 'circuit' | 'sprint';
+  start: CheckpointId[];                      // gates that can open a lap
+  finish: CheckpointId;
+  next: Record<CheckpointId, CheckpointId[]>; // gates reachable from each checkpoint
+}
+
+/**
+ * A simple loop through the checkpoints in order, the last one being the finish line
+ */
+export function buildLinearRoute(order: CheckpointId[], type: RouteDefinition['type'] = 'circuit'): RouteDefinition {
+  const next: Record<CheckpointId, CheckpointId[]> = {};
+  order.forEach((id, index) => {
+    next[id] = index < order.length - 1 ? [order[index + 1]] : [];
+  });
+
+  return { type, start: [order[0]], finish: order[order.length - 1], next };
+}
+
+/**
+ * Breadth-first walk from the start gates: stage numbers and the shortest line to the finish
+ */
+export function buildRouteStages(route: RouteDefinition): { stageOf: Map<CheckpointId, number>; mainLine: CheckpointId[] } {
+  const stageOf: Map<CheckpointId, number> = new Map();
+  const parent: Map<CheckpointId, CheckpointId | null> = new Map();
+  const queue: CheckpointId[] = [];
+
+  route.start.forEach(id => {
+    stageOf.set(id, 1);
+    parent.set(id, null);
+    queue.push(id);
+  });
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === route.finish) continue;
+
+    for (const nextId of route.next[id] ?? []) {
+      if (stageOf.has(nextId)) continue;
+      stageOf.set(nextId, stageOf.get(id)! + 1);
+      parent.set(nextId, id);
+      queue.push(nextId);
+    }
+  }
+
+  // Main line = shortest path back from the finish
+  const mainLine: CheckpointId[] = [];
+  for (let id: CheckpointId | null | undefined = route.finish; id; id = parent.get(id)) {
+    mainLine.unshift(id);
+  }
+
+  return { stageOf, mainLine };
+}
+
 export class LapController {
-  private state = { index: 0 }; // Simple index-based tracking
-  private expectedOrder: CheckpointId[] = ['A', 'B', 'C', 'FINISH'];
+  private route: RouteDefinition;
+  private stageOf: Map<CheckpointId, number>; // checkpoints passed on the shortest path to each gate
+  private mainLine: CheckpointId[];
+  private currentNode: CheckpointId | null = null; // null = at the start of a lap
+  private lapVisits: CheckpointId[] = [];
+  private lapSplits: CheckpointSplit[] = [];
   private lastCheckpoint: CheckpointId | null = null;
   private totalLaps = 0;
   private currentLapStartTime = 0;
   private bestLapTime = Infinity;
-  private onLapComplete?: (lapTime: number, totalLaps: number) => void;
-  private onCheckpointVisit?: (checkpoint: CheckpointId, isValid: boolean) => void;
-  
+  private bestSplits: CheckpointSplit[] = [];
+  private ghostRecorder = new GhostRecorder();
+  private onLapComplete?: (lapTime: number, totalLaps: number, splits: CheckpointSplit[], ghost: GhostRecording) => void;
+  private onCheckpointVisit?: (checkpoint: CheckpointId, isValid: boolean, split?: SplitComparison) => void;
+
   constructor(
-    onLapComplete?: (lapTime: number, totalLaps: number) => void,
-    onCheckpointVisit?: (checkpoint: CheckpointId, isValid: boolean) => void
+    onLapComplete?: (lapTime: number, totalLaps: number, splits: CheckpointSplit[], ghost: GhostRecording) => void,
+    onCheckpointVisit?: (checkpoint: CheckpointId, isValid: boolean, split?: SplitComparison) => void,
+    route: RouteDefinition = buildLinearRoute(DEFAULT_CHECKPOINT_ORDER)
   ) {
+    this.route = route;
     this.onLapComplete = onLapComplete;
     this.onCheckpointVisit = onCheckpointVisit;
+    ({ stageOf: this.stageOf, mainLine: this.mainLine } = buildRouteStages(route));
     this.resetLap();
   }
-  
+
   /**
-   * Visit a checkpoint and validate if it's in the correct sequence
+   * Gates that count as the next checkpoint right now
+   */
+  getExpectedNext(): CheckpointId[] {
+    return this.currentNode === null ? this.route.start : (this.route.next[this.currentNode] ?? []);
+  }
+
+  /**
+   * Visit a checkpoint and validate it against the route graph
    */
   visit(checkpointId: CheckpointId): boolean {
-    const expected = this.expectedOrder[this.state.index];
-    
-    if (checkpointId !== expected) {
+    const expected = this.getExpectedNext();
+
+    if (!expected.includes(checkpointId)) {
       if (import.meta.env.DEV) {
-        console.log(`✗ Checkpoint ${checkpointId} visited out of sequence (expected: ${expected})`);
+        console.log(`✗ Checkpoint ${checkpointId} visited out of sequence (expected: ${expected.join(' or ')})`);
       }
       this.onCheckpointVisit?.(checkpointId, false);
       return false; // wrong order
     }
-    
-    this.state.index++;
+
+    this.currentNode = checkpointId;
     this.lastCheckpoint = checkpointId;
-    
-    if (checkpointId === 'FINISH') {
+    this.lapVisits.push(checkpointId);
+    const split = this.recordSplit(checkpointId);
+
+    if (checkpointId === this.route.finish) {
       this.completeLap();
-      this.state.index = 0; // reset for next lap
+      this.currentNode = null; // next lap (or sprint run) starts over
     } else {
       if (import.meta.env.DEV) {
-      console.log(`✓ Checkpoint ${checkpointId} visited (${this.state.index - 1}/${this.expectedOrder.length - 1})`);
+      console.log(`✓ Checkpoint ${checkpointId} visited (${this.getCheckpointIndex()}/${this.getStageCount() - 1})`);
     }
     }
-    
-    this.onCheckpointVisit?.(checkpointId, true);
+
+    this.onCheckpointVisit?.(checkpointId, true, split);
     return true;
   }
-  
+
+  /**
+   * Timestamp this checkpoint and compare it with the best lap (before a finish can replace the best)
+   */
+  private recordSplit(checkpointId: CheckpointId): SplitComparison {
+    const time = performance.now() - this.currentLapStartTime;
+    this.lapSplits.push({ id: checkpointId, time });
+
+    const bestSplit = this.bestSplits.find(best => best.id === checkpointId);
+    return { id: checkpointId, time, delta: bestSplit ? time - bestSplit.time : null };
+  }
+
   private completeLap(): void {
     const lapTime = performance.now() - this.currentLapStartTime;
     this.totalLaps++;
-    
+
+    const splits = [...this.lapSplits];
     if (lapTime < this.bestLapTime) {
       this.bestLapTime = lapTime;
+      this.bestSplits = splits;
     }
-    
+
           if (import.meta.env.DEV) {
-        console.log(`🏁 Lap ${this.totalLaps} completed! Time: ${(lapTime / 1000).toFixed(2)}s`);
+        console.log(`🏁 ${this.route.type === 'sprint' ? 'Sprint' : `Lap ${this.totalLaps}`} completed! Time: ${(lapTime / 1000).toFixed(2)}s`);
       }
-    
-    this.onLapComplete?.(lapTime, this.totalLaps);
+
+    this.onLapComplete?.(lapTime, this.totalLaps, splits, this.ghostRecorder.finish(lapTime));
     this.resetLap();
   }
-  
+
   private resetLap(): void {
     this.lastCheckpoint = null;
+    this.lapVisits = [];
+    this.lapSplits = [];
+    this.ghostRecorder.begin();
     this.currentLapStartTime = performance.now();
   }
-  
+
+  /**
+   * Sample the player for this lap's ghost (call every frame; frames are kept at fixed ticks)
+   */
+  recordGhostFrame(position: THREE.Vector3, yaw: number, pitch: number, playerClass: PlayerClass): void {
+    this.ghostRecorder.sample(performance.now() - this.currentLapStartTime, position, yaw, pitch, playerClass);
+  }
+
+  /**
+   * Mark an ability activation in this lap's ghost
+   */
+  recordGhostAbility(ability: PlayerClass): void {
+    this.ghostRecorder.recordAbility(performance.now() - this.currentLapStartTime, ability);
+  }
+
   /**
    * Get the current checkpoint progress
    */
   getProgress(): {
     currentSequence: CheckpointId[];
+    splits: CheckpointSplit[];
     lastCheckpoint: CheckpointId | null;
     totalLaps: number;
     bestLapTime: number;
     currentLapTime: number;
   } {
-    // Build current sequence from state index
-    const currentSequence = this.expectedOrder.slice(0, this.state.index);
-    
     return {
-      currentSequence,
+      currentSequence: [...this.lapVisits],
+      splits: [...this.lapSplits],
       lastCheckpoint: this.lastCheckpoint,
       totalLaps: this.totalLaps,
       bestLapTime: this.bestLapTime === Infinity ? 0 : this.bestLapTime,
       currentLapTime: performance.now() - this.currentLapStartTime
     };
   }
-  
+
+  /**
+   * Seed the best lap and its splits from stored history (Infinity clears it)
+   */
+  setBestLap(lapTime: number, splits: CheckpointSplit[] = []): void {
+    this.bestLapTime = lapTime;
+    this.bestSplits = [...splits];
+  }
+
+  /**
+   * Splits of the best lap, the reference for split deltas
+   */
+  getBestSplits(): CheckpointSplit[] {
+    return [...this.bestSplits];
+  }
+
+  /**
+   * Stages of the current lap completed so far (alternate gates share a stage)
+   */
+  getCheckpointIndex(): number {
+    return this.currentNode === null ? 0 : (this.stageOf.get(this.currentNode) ?? 0);
+  }
+
+  /**
+   * Stages in a full lap, finish included
+   */
+  getStageCount(): number {
+    return this.mainLine.length;
+  }
+
+  /**
+   * Checkpoints grouped by stage; alternate-route gates share a group and the finish is always last
+   */
+  getStages(): CheckpointId[][] {
+    const stages: CheckpointId[][] = Array.from({ length: this.getStageCount() }, () => []);
+    this.stageOf.forEach((stage, id) => {
+      if (id !== this.route.finish) {
+        stages[Math.min(stage, stages.length - 1) - 1].push(id);
+      }
+    });
+    stages[stages.length - 1] = [this.route.finish];
+
+    return stages;
+  }
+
+  /**
+   * Shortest checkpoint line through a lap (finish last) - the race-line centerline
+   */
+  getCheckpointOrder(): CheckpointId[] {
+    return [...this.mainLine];
+  }
+
+  getRoute(): RouteDefinition {
+    return this.route;
+  }
+
+  /**
+   * Overall race progress as laps plus the fraction of the current lap's stages passed
+   */
+  getRaceProgress(): number {
+    return this.totalLaps + this.getCheckpointIndex() / this.getStageCount();
+  }
+
+  /**
+   * Start the current lap's clock (and its ghost) from now - called when the race goes green,
+   * so the countdown never counts towards lap 1
+   */
+  startLapClock(): void {
+    this.lapSplits = [];
+    this.ghostRecorder.begin();
+    this.currentLapStartTime = performance.now();
+  }
+
   /**
    * Reset all lap data
    */
   reset(): void {
-    this.state.index = 0;
+    this.currentNode = null;
+    this.lapVisits = [];
+    this.lapSplits = [];
     this.lastCheckpoint = null;
     this.totalLaps = 0;
     this.bestLapTime = Infinity;
+    this.bestSplits = [];
+    this.ghostRecorder.begin();
     this.currentLapStartTime = performance.now();
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,199 @@
+import type { CheckpointSplit } from './LapController';
+import type { GhostRecording } from './Ghost';
+import { gameEvents } from './GameEvents';
+
+// Local lap history database
+export const LAP_HISTORY_CONFIG = {
+  DB_NAME: 'wreckless',
+  DB_VERSION: 1,
+  STORE_NAME: 'laps',
+  MAX_RECORDS: 1000  // oldest laps are pruned past this (class bests never are)
+} as const;
+
+/**
+ * One completed lap as stored on this device
+ */
+export interface LapRecord {
+  id?: number;              // assigned by IndexedDB
+  trackId: string;
+  playerClass: string;
+  lapTime: number;          // ms
+  splits: CheckpointSplit[];
+  date: number;             // epoch ms
+  ghost?: GhostRecording;   // kept only on personal bests
+}
+
+/**
+ * Completed laps persisted in IndexedDB, so personal bests survive a reload.
+ * Falls back to an in-memory list when IndexedDB is unavailable (private browsing, old browsers).
+ */
+export class LapHistoryStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memoryRecords: LapRecord[] = [];
+  private nextMemoryId = 1;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('💾 IndexedDB unavailable - lap history will not persist');
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(LAP_HISTORY_CONFIG.DB_NAME, LAP_HISTORY_CONFIG.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(LAP_HISTORY_CONFIG.STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('trackId', 'trackId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('💾 Could not open lap history database:', request.error?.message);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Store a completed lap; resolves with the saved record and whether it beat the class best on that track
+   */
+  async addLap(record: LapRecord): Promise<{ record: LapRecord; isPersonalBest: boolean }> {
+    const previousBest = await this.getBestLap(record.trackId, record.playerClass);
+    const isPersonalBest = !previousBest || record.lapTime < previousBest.lapTime;
+    if (!isPersonalBest) {
+      record = withoutGhost(record);
+    }
+    // Only the best lap keeps a ghost - the one it just beat gives it up
+    const beaten = isPersonalBest && previousBest?.ghost ? previousBest : null;
+
+    const db = await this.open();
+    let saved: LapRecord;
+    if (db) {
+      if (beaten) {
+        await requestToPromise(this.getStore(db, 'readwrite').put(withoutGhost(beaten)));
+      }
+      const id = await requestToPromise(this.getStore(db, 'readwrite').add({ ...record }));
+      saved = { ...record, id: id as number };
+      await this.prune(db);
+    } else {
+      if (beaten) {
+        this.memoryRecords = this.memoryRecords.map(stored => (stored.id === beaten.id ? withoutGhost(stored) : stored));
+      }
+      saved = { ...record, id: this.nextMemoryId++ };
+      this.memoryRecords.push(saved);
+      const pruned = new Set(findPrunable(this.memoryRecords));
+      this.memoryRecords = this.memoryRecords.filter(record => !pruned.has(record));
+    }
+
+    if (isPersonalBest) {
+      console.log(`💾 New personal best for ${record.playerClass} on ${record.trackId}: ${(record.lapTime / 1000).toFixed(2)}s`);
+    }
+
+    gameEvents.emit('lapRecorded', { record: saved, isPersonalBest });
+
+    return { record: saved, isPersonalBest };
+  }
+
+  /**
+   * Every stored lap on a track, newest first
+   */
+  async getLaps(trackId: string): Promise<LapRecord[]> {
+    const db = await this.open();
+    const records = db
+      ? await requestToPromise(this.getStore(db, 'readonly').index('trackId').getAll(trackId)) as LapRecord[]
+      : this.memoryRecords.filter(record => record.trackId === trackId);
+
+    return records.sort((a, b) => b.date - a.date);
+  }
+
+  /**
+   * Fastest lap for one class on a track
+   */
+  async getBestLap(trackId: string, playerClass: string): Promise<LapRecord | null> {
+    const laps = await this.getLaps(trackId);
+    return laps
+      .filter(record => record.playerClass === playerClass)
+      .reduce<LapRecord | null>((best, record) => (!best || record.lapTime < best.lapTime ? record : best), null);
+  }
+
+  /**
+   * Fastest lap per class on a track, quickest class first
+   */
+  async getClassBests(trackId: string): Promise<LapRecord[]> {
+    const bests = new Map<string, LapRecord>();
+    for (const record of await this.getLaps(trackId)) {
+      const best = bests.get(record.playerClass);
+      if (!best || record.lapTime < best.lapTime) {
+        bests.set(record.playerClass, record);
+      }
+    }
+    return [...bests.values()].sort((a, b) => a.lapTime - b.lapTime);
+  }
+
+  /**
+   * Wipe the history (all tracks)
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (db) {
+      await requestToPromise(this.getStore(db, 'readwrite').clear());
+    }
+    this.memoryRecords = [];
+    console.log('💾 Lap history cleared');
+  }
+
+  private getStore(db: IDBDatabase, mode: IDBTransactionMode): IDBObjectStore {
+    return db.transaction(LAP_HISTORY_CONFIG.STORE_NAME, mode).objectStore(LAP_HISTORY_CONFIG.STORE_NAME);
+  }
+
+  /**
+   * Drop the oldest laps past MAX_RECORDS, keeping every track/class best
+   */
+  private async prune(db: IDBDatabase): Promise<void> {
+    const count = await requestToPromise(this.getStore(db, 'readonly').count());
+    if (count <= LAP_HISTORY_CONFIG.MAX_RECORDS) return;
+
+    const records = await requestToPromise(this.getStore(db, 'readonly').getAll()) as LapRecord[];
+    const deleteStore = this.getStore(db, 'readwrite');
+    await Promise.all(findPrunable(records).map(record => requestToPromise(deleteStore.delete(record.id!))));
+  }
+}
+
+/**
+ * Oldest laps past MAX_RECORDS (ids increase with insertion). The best lap of each track and
+ * class is never among them - it holds the record and the ghost raced against.
+ */
+function findPrunable(records: LapRecord[]): LapRecord[] {
+  const excess = records.length - LAP_HISTORY_CONFIG.MAX_RECORDS;
+  if (excess <= 0) return [];
+
+  const bests = new Map<string, LapRecord>();
+  for (const record of records) {
+    const key = `${record.trackId}:${record.playerClass}`;
+    const best = bests.get(key);
+    if (!best || record.lapTime < best.lapTime) {
+      bests.set(key, record);
+    }
+  }
+
+  const kept = new Set(bests.values());
+  return records
+    .filter(record => !kept.has(record))
+    .sort((a, b) => a.id! - b.id!)
+    .slice(0, excess);
+}
+
+function withoutGhost(record: LapRecord): LapRecord {
+  const { ghost: _ghost, ...rest } = record;
+  return rest;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,33 @@
+import type { PlayerClass } from '../../../shared/protocol';
+import { DEFAULT_TRACK_ID } from '../track/TrackRegistry';
+import { isBotDifficulty, type BotDifficulty } from '../bots/BotConfig';
+import { isPlayerClass } from './DataFiles';
+
+/**
+ * What a match is played with. The page URL sets up the first match, the menu any after it
+ */
+export interface MatchSettings {
+  trackId: string;
+  playerClass: PlayerClass;
+  roomId: string | null;          // server room to join; null races solo
+  laps: number | null;            // solo lap count (null = RACE_CONFIG default; sprint tracks are one run)
+  bots: number;                   // solo bot racers
+  botDifficulty: BotDifficulty;
+}
+
+/**
+ * Settings from the URL: ?track=<id>&class=blast|grapple|blink&room=<id>&laps=N&bots=N&botDifficulty=easy|normal|hard
+ */
+export function matchSettingsFromUrl(params: URLSearchParams, defaultClass: PlayerClass): MatchSettings {
+  const playerClass = params.get('class');
+  const botDifficulty = params.get('botDifficulty');
+
+  return {
+    trackId: params.get('track') ?? DEFAULT_TRACK_ID,
+    playerClass: isPlayerClass(playerClass) ? playerClass : defaultClass,
+    roomId: params.get('room') || null,
+    laps: Number(params.get('laps')) || null,
+    bots: Number(params.get('bots')) || 0,
+    botDifficulty: isBotDifficulty(botDifficulty) ? botDifficulty : 'normal'
+  };
+}
@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import { COMBAT_CONFIG } from '../../../shared/combat';
+import { isInIFrames, isRegenDisabled } from '../kits/blink';
+import { gameEvents } from './GameEvents';
+
+/**
+ * Local player's health pool (PRD: shared 100 HP, regen after 4 s out of combat).
+ * In multiplayer the server is authoritative and pushes health via setHealth();
+ * solo play applies damage locally.
+ */
+export class PlayerHealth {
+  private currentHealth: number = COMBAT_CONFIG.MAX_HEALTH;
+  private maxHealth: number = COMBAT_CONFIG.MAX_HEALTH;
+  private lastDamageTime = 0;
+  private isKnockedOut = false;
+
+  /**
+   * Apply damage locally. Returns true if the hit caused a KO.
+   */
+  takeDamage(damage: number, direction?: THREE.Vector3): boolean {
+    if (this.isKnockedOut) return false;
+
+    // Blink i-frames ignore damage entirely
+    if (isInIFrames()) {
+      console.log('⚡ Damage ignored - blink i-frames active');
+      return false;
+    }
+
+    this.applyHealth(this.currentHealth - damage, damage, direction);
+
+    if (this.currentHealth <= 0) {
+      this.knockOut();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Authoritative health from the server (hit events, snapshots)
+   */
+  setHealth(health: number, direction?: THREE.Vector3): void {
+    if (this.isKnockedOut) return;
+
+    const damage = Math.max(0, this.currentHealth - health);
+    this.applyHealth(health, damage, direction);
+  }
+
+  /**
+   * KO → respawn at the previous checkpoint (handled by the controller via the event)
+   */
+  knockOut(attackerId?: string): void {
+    if (this.isKnockedOut) return;
+    this.isKnockedOut = true;
+
+    console.log('💀 Player KO\'d!');
+    gameEvents.emit('playerKO', { attackerId });
+  }
+
+  /**
+   * Full health on respawn
+   */
+  reset(): void {
+    this.isKnockedOut = false;
+    this.lastDamageTime = 0;
+    this.applyHealth(this.maxHealth, 0);
+  }
+
+  /**
+   * Regenerate after REGEN_DELAY without damage, unless blink disabled regen
+   */
+  update(deltaTime: number): void {
+    if (this.isKnockedOut || this.currentHealth >= this.maxHealth) return;
+    if (Date.now() - this.lastDamageTime < COMBAT_CONFIG.HEALTH_REGEN_DELAY) return;
+    if (isRegenDisabled()) return;
+
+    this.applyHealth(this.currentHealth + COMBAT_CONFIG.HEALTH_REGEN_RATE * deltaTime, 0);
+  }
+
+  getHealthStatus() {
+    return {
+      current: this.currentHealth,
+      max: this.maxHealth,
+      percentage: (this.currentHealth / this.maxHealth) * 100
+    };
+  }
+
+  private applyHealth(health: number, damage: number, direction?: THREE.Vector3): void {
+    const previous = this.currentHealth;
+    this.currentHealth = THREE.MathUtils.clamp(health, 0, this.maxHealth);
+
+    if (damage > 0) {
+      this.lastDamageTime = Date.now();
+    }
+
+    if (this.currentHealth !== previous || damage > 0) {
+      gameEvents.emit('playerHealthChanged', {
+        current: this.currentHealth,
+        max: this.maxHealth,
+        damage,
+        direction: direction?.clone()
+      });
+    }
+  }
+}
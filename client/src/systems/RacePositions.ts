@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import { gameEvents } from './GameEvents';
+
+/**
+ * What the position tracker needs to know about a racer each frame
+ */
+export interface RacerProgress {
+  id: string;
+  name: string;
+  lapsCompleted: number;
+  checkpointIndex: number; // next checkpoint in lap order
+  position: THREE.Vector3;
+}
+
+export interface RacePosition {
+  id: string;
+  name: string;
+  place: number;              // 1-based
+  distance: number;           // meters along the race line since the start
+  gapAhead: number | null;    // meters to the racer one place ahead, null for the leader
+  gapToLeader: number;
+  position: THREE.Vector3;
+}
+
+/**
+ * Split checkpoint-based progress (laps + fraction) into the tracker's inputs
+ */
+export function progressToCheckpoint(progress: number, checkpointCount: number) {
+  const lapsCompleted = Math.floor(progress);
+  return {
+    lapsCompleted,
+    checkpointIndex: Math.round((progress - lapsCompleted) * checkpointCount)
+  };
+}
+
+/**
+ * Live race ordering from laps, checkpoint index and distance along the track centerline.
+ * The centerline runs through the checkpoints in lap order; a lap starts at the last one (FINISH).
+ */
+export class RacePositionTracker {
+  private route: THREE.Vector3[];
+  private segmentStarts: number[] = [];
+  private lapLength = 0;
+  private standings: RacePosition[] = [];
+
+  constructor(route: THREE.Vector3[]) {
+    this.route = route.map(point => point.clone());
+
+    // Cumulative centerline distance at the start of each segment
+    for (let i = 0; i < this.route.length; i++) {
+      this.segmentStarts.push(this.lapLength);
+      this.lapLength += this.getSegmentStart(i).distanceTo(this.route[i]);
+    }
+  }
+
+  private getSegmentStart(index: number): THREE.Vector3 {
+    return this.route[(index - 1 + this.route.length) % this.route.length];
+  }
+
+  /**
+   * Meters along the race line: completed laps, segments passed, and how far into the current segment
+   */
+  getRaceDistance(racer: Pick<RacerProgress, 'lapsCompleted' | 'checkpointIndex' | 'position'>): number {
+    if (this.route.length === 0) return 0;
+
+    const index = THREE.MathUtils.clamp(racer.checkpointIndex, 0, this.route.length - 1);
+    const nextCheckpoint = this.route[index];
+    const segmentLength = this.getSegmentStart(index).distanceTo(nextCheckpoint);
+    const intoSegment = THREE.MathUtils.clamp(
+      segmentLength - racer.position.distanceTo(nextCheckpoint),
+      0,
+      segmentLength
+    );
+
+    return racer.lapsCompleted * this.lapLength + this.segmentStarts[index] + intoSegment;
+  }
+
+  /**
+   * Recompute the ordering (call every frame); dispatches `racePositionsChanged` when places change
+   */
+  update(racers: RacerProgress[]): RacePosition[] {
+    const previousOrder = this.standings.map(entry => entry.id).join();
+
+    const ranked = racers
+      .map(racer => ({ racer, distance: this.getRaceDistance(racer) }))
+      .sort((a, b) => b.distance - a.distance);
+
+    const leaderDistance = ranked[0]?.distance ?? 0;
+    this.standings = ranked.map(({ racer, distance }, index) => ({
+      id: racer.id,
+      name: racer.name,
+      place: index + 1,
+      distance,
+      gapAhead: index === 0 ? null : ranked[index - 1].distance - distance,
+      gapToLeader: leaderDistance - distance,
+      position: racer.position.clone()
+    }));
+
+    if (this.standings.map(entry => entry.id).join() !== previousOrder) {
+      gameEvents.emit('racePositionsChanged', { standings: this.standings });
+    }
+
+    return this.standings;
+  }
+
+  getStandings(): RacePosition[] {
+    return this.standings;
+  }
+
+  getPosition(id: string): RacePosition | null {
+    return this.standings.find(entry => entry.id === id) ?? null;
+  }
+
+  /**
+   * Closest rival along the race line; `gap` is positive when the rival is ahead
+   */
+  getNearestRival(id: string): { rival: RacePosition; gap: number } | null {
+    const self = this.getPosition(id);
+    if (!self) return null;
+
+    let nearest: { rival: RacePosition; gap: number } | null = null;
+    for (const entry of this.standings) {
+      if (entry.id === id) continue;
+
+      const gap = entry.distance - self.distance;
+      if (!nearest || Math.abs(gap) < Math.abs(nearest.gap)) {
+        nearest = { rival: entry, gap };
+      }
+    }
+    return nearest;
+  }
+
+  getLapLength(): number {
+    return this.lapLength;
+  }
+}
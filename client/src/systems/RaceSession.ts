@@ -0,0 +1,211 @@
+import { ROOM_CONFIG, type PlayerClass, type RaceResult, type RoomPhase } from '../../../shared/protocol';
+import { rankRacers } from '../../../shared/race';
+import { gameEvents } from './GameEvents';
+
+// Race rules (PRD: 60 s round, overtime until the leader finishes)
+export const RACE_CONFIG = {
+  DEFAULT_LAP_COUNT: 3,
+  COUNTDOWN_DURATION: ROOM_CONFIG.COUNTDOWN_DURATION,
+  ROUND_DURATION: ROOM_CONFIG.ROUND_DURATION
+} as const;
+
+/**
+ * Anyone taking part in a race: the local player, ghosts, bots or remote racers
+ */
+export interface RaceEntrant {
+  id: string;
+  name: string;
+  playerClass: PlayerClass;
+  getProgress(): number; // laps + fraction of checkpoints passed
+}
+
+interface EntrantState {
+  entrant: RaceEntrant;
+  finishTime: number | null;
+}
+
+/**
+ * A single race: countdown (input locked) → racing (round timer, then overtime) → results.
+ * Uses the same phases and result shape as server rooms so multiplayer can drive it later.
+ */
+export class RaceSession {
+  private phase: RoomPhase = 'lobby';
+  private lapCount: number;
+  private entrants: Map<string, EntrantState> = new Map();
+  private countdownEndsAt = 0;
+  private raceStartTime = 0;
+  private roundEndsAt = 0;
+  private isOvertime = false;
+  private results: RaceResult[] = [];
+
+  constructor(lapCount: number = RACE_CONFIG.DEFAULT_LAP_COUNT) {
+    this.lapCount = Math.max(1, Math.floor(lapCount));
+  }
+
+  addEntrant(entrant: RaceEntrant): void {
+    this.entrants.set(entrant.id, { entrant, finishTime: null });
+  }
+
+  removeEntrant(id: string): void {
+    this.entrants.delete(id);
+    this.checkRaceComplete();
+  }
+
+  /**
+   * Begin the pre-race countdown
+   */
+  start(): void {
+    for (const state of this.entrants.values()) {
+      state.finishTime = null;
+    }
+
+    this.results = [];
+    this.isOvertime = false;
+    this.countdownEndsAt = performance.now() + RACE_CONFIG.COUNTDOWN_DURATION;
+    this.setPhase('countdown');
+
+    console.log(`🏁 Race starting: ${this.lapCount} lap${this.lapCount === 1 ? '' : 's'}, ${this.entrants.size} racer${this.entrants.size === 1 ? '' : 's'}`);
+  }
+
+  /**
+   * Advance phase timers (call every frame)
+   */
+  update(): void {
+    const now = performance.now();
+
+    if (this.phase === 'countdown' && now >= this.countdownEndsAt) {
+      this.raceStartTime = now;
+      this.roundEndsAt = now + RACE_CONFIG.ROUND_DURATION;
+      this.setPhase('racing');
+    } else if (this.phase === 'racing' && !this.isOvertime && now >= this.roundEndsAt) {
+      // Timer expired - overtime until the leader finishes
+      if (this.hasAnyFinisher()) {
+        this.endRace();
+      } else {
+        this.isOvertime = true;
+        console.log('⏱️ Overtime!');
+        gameEvents.emit('raceOvertime');
+      }
+    }
+  }
+
+  /**
+   * Report a completed lap; finishing the final lap stamps the racer's time
+   */
+  recordLap(id: string, lapsCompleted: number): void {
+    const state = this.entrants.get(id);
+    if (!state || this.phase !== 'racing' || state.finishTime !== null) return;
+    if (lapsCompleted < this.lapCount) return;
+
+    state.finishTime = performance.now() - this.raceStartTime;
+    console.log(`🏁 ${state.entrant.name} finished in ${(state.finishTime / 1000).toFixed(2)}s`);
+
+    gameEvents.emit('racerFinished', { id, name: state.entrant.name, finishTime: state.finishTime });
+
+    this.checkRaceComplete();
+  }
+
+  private checkRaceComplete(): void {
+    if (this.phase !== 'racing') return;
+
+    const states = Array.from(this.entrants.values());
+    const allFinished = states.length > 0 && states.every(state => state.finishTime !== null);
+
+    // In overtime the first finisher ends the race
+    if (allFinished || (this.isOvertime && this.hasAnyFinisher())) {
+      this.endRace();
+    }
+  }
+
+  private hasAnyFinisher(): boolean {
+    return Array.from(this.entrants.values()).some(state => state.finishTime !== null);
+  }
+
+  private endRace(): void {
+    const racers = Array.from(this.entrants.values()).map(state => ({
+      id: state.entrant.id,
+      name: state.entrant.name,
+      playerClass: state.entrant.playerClass,
+      finishTime: state.finishTime,
+      progress: state.entrant.getProgress()
+    }));
+
+    this.results = rankRacers(racers).map((racer, index) => ({
+      ...racer,
+      placement: index + 1
+    }));
+
+    this.setPhase('results');
+    gameEvents.emit('raceResults', { results: this.results });
+  }
+
+  private setPhase(phase: RoomPhase): void {
+    const previousPhase = this.phase;
+    this.phase = phase;
+
+    gameEvents.emit('racePhaseChanged', { phase, previousPhase });
+  }
+
+  getPhase(): RoomPhase {
+    return this.phase;
+  }
+
+  /**
+   * Input is locked while the countdown runs
+   */
+  isInputLocked(): boolean {
+    return this.phase === 'countdown';
+  }
+
+  getLapCount(): number {
+    return this.lapCount;
+  }
+
+  setLapCount(lapCount: number): void {
+    this.lapCount = Math.max(1, Math.floor(lapCount));
+  }
+
+  /**
+   * Milliseconds left in the countdown (0 outside the countdown)
+   */
+  getCountdownRemaining(): number {
+    return this.phase === 'countdown' ? Math.max(0, this.countdownEndsAt - performance.now()) : 0;
+  }
+
+  /**
+   * Milliseconds left on the round timer, or null in overtime / outside a race
+   */
+  getTimeRemaining(): number | null {
+    if (this.phase !== 'racing' || this.isOvertime) return null;
+    return Math.max(0, this.roundEndsAt - performance.now());
+  }
+
+  getElapsedTime(): number {
+    return this.phase === 'racing' ? performance.now() - this.raceStartTime : 0;
+  }
+
+  isOvertimeActive(): boolean {
+    return this.isOvertime;
+  }
+
+  getResults(): RaceResult[] {
+    return this.results;
+  }
+
+  getEntrants(): RaceEntrant[] {
+    return Array.from(this.entrants.values()).map(state => state.entrant);
+  }
+
+  getFinishTime(id: string): number | null {
+    return this.entrants.get(id)?.finishTime ?? null;
+  }
+
+  /**
+   * Leave the race entirely (back to free roam)
+   */
+  cancel(): void {
+    this.results = [];
+    this.isOvertime = false;
+    this.setPhase('lobby');
+  }
+}
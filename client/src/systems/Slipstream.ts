@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { RacePositionTracker } from './RacePositions';
+import { gameEvents } from './GameEvents';
+
+// Slipstream rules from PRD
+export const SLIPSTREAM_CONFIG = {
+  SPEED_MULTIPLIER: 1.15, // +15% top speed
+  ENGAGE_GAP: 10,         // meters behind the nearest rival before the draft kicks in
+  RELEASE_GAP: 5,         // draft ends once the gap closes under this
+
+  // Wind streak effect
+  STREAK_COUNT: 40,
+  STREAK_LENGTH: 1.5,
+  STREAK_SPEED: 30,       // m/s towards the camera
+  STREAK_RADIUS: 2.5,
+  STREAK_DEPTH: 12
+} as const;
+
+/**
+ * Drafting behind the nearest rival along the race line.
+ * Engages above ENGAGE_GAP and holds until the gap drops under RELEASE_GAP (hysteresis),
+ * so the bonus doesn't flicker around a single threshold.
+ */
+export class SlipstreamSystem {
+  private active = false;
+  private rivalId: string | null = null;
+  private gap = 0;
+  private streaks: WindStreaks;
+
+  constructor(camera: THREE.Camera, scene: THREE.Scene) {
+    this.streaks = new WindStreaks(camera, scene);
+  }
+
+  /**
+   * Re-evaluate the draft against the current race positions (call every frame)
+   */
+  update(deltaTime: number, tracker: RacePositionTracker, localId: string): void {
+    const nearest = tracker.getNearestRival(localId);
+
+    // Only a rival ahead of us gives a draft
+    const gap = nearest && nearest.gap > 0 ? nearest.gap : null;
+    this.gap = gap ?? 0;
+
+    if (!this.active && gap !== null && gap > SLIPSTREAM_CONFIG.ENGAGE_GAP) {
+      this.setActive(true, nearest!.rival.id);
+    } else if (this.active && (gap === null || gap < SLIPSTREAM_CONFIG.RELEASE_GAP)) {
+      this.setActive(false, null);
+    }
+
+    this.streaks.update(deltaTime, this.active);
+  }
+
+  private setActive(active: boolean, rivalId: string | null): void {
+    this.active = active;
+    this.rivalId = rivalId;
+
+    console.log(active ? `💨 Slipstream engaged (${this.gap.toFixed(1)}m behind ${rivalId})` : '💨 Slipstream released');
+
+    gameEvents.emit('slipstreamChanged', {
+      active,
+      rivalId,
+      gap: this.gap,
+      multiplier: active ? SLIPSTREAM_CONFIG.SPEED_MULTIPLIER : 1
+    });
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getRivalId(): string | null {
+    return this.rivalId;
+  }
+
+  /**
+   * Drop the draft immediately (respawn, race restart)
+   */
+  reset(): void {
+    if (this.active) {
+      this.setActive(false, null);
+    }
+  }
+
+  dispose(): void {
+    this.streaks.dispose();
+  }
+}
+
+/**
+ * Line streaks rushing past the camera while drafting
+ */
+class WindStreaks {
+  private camera: THREE.Camera;
+  private scene: THREE.Scene;
+  private lines: THREE.LineSegments;
+  private offsets: THREE.Vector3[] = [];
+  private opacity = 0;
+
+  constructor(camera: THREE.Camera, scene: THREE.Scene) {
+    this.camera = camera;
+    this.scene = scene;
+
+    const positions = new Float32Array(SLIPSTREAM_CONFIG.STREAK_COUNT * 6);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+    const material = new THREE.LineBasicMaterial({
+      color: 0xddeeff,
+      transparent: true,
+      opacity: 0,
+      depthWrite: false
+    });
+
+    this.lines = new THREE.LineSegments(geometry, material);
+    this.lines.frustumCulled = false;
+    this.lines.visible = false;
+    this.lines.name = 'slipstream_wind_streaks';
+    this.scene.add(this.lines);
+
+    for (let i = 0; i < SLIPSTREAM_CONFIG.STREAK_COUNT; i++) {
+      this.offsets.push(this.randomOffset(Math.random() * SLIPSTREAM_CONFIG.STREAK_DEPTH));
+    }
+  }
+
+  /**
+   * Random point on a ring around the view axis (camera space, -Z forward)
+   */
+  private randomOffset(depth: number): THREE.Vector3 {
+    const angle = Math.random() * Math.PI * 2;
+    const radius = SLIPSTREAM_CONFIG.STREAK_RADIUS * (0.6 + Math.random() * 0.4);
+    return new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, -depth);
+  }
+
+  update(deltaTime: number, active: boolean): void {
+    // Fade in/out instead of popping
+    const targetOpacity = active ? 0.6 : 0;
+    this.opacity += (targetOpacity - this.opacity) * Math.min(1, deltaTime * 6);
+
+    const material = this.lines.material as THREE.LineBasicMaterial;
+    material.opacity = this.opacity;
+    this.lines.visible = this.opacity > 0.01;
+    if (!this.lines.visible) return;
+
+    // Follow the camera
+    this.camera.getWorldPosition(this.lines.position);
+    this.camera.getWorldQuaternion(this.lines.quaternion);
+
+    const positions = this.lines.geometry.getAttribute('position') as THREE.BufferAttribute;
+    this.offsets.forEach((offset, index) => {
+      offset.z += SLIPSTREAM_CONFIG.STREAK_SPEED * deltaTime;
+      if (offset.z > 0) {
+        offset.copy(this.randomOffset(SLIPSTREAM_CONFIG.STREAK_DEPTH));
+      }
+
+      positions.setXYZ(index * 2, offset.x, offset.y, offset.z);
+      positions.setXYZ(index * 2 + 1, offset.x, offset.y, offset.z - SLIPSTREAM_CONFIG.STREAK_LENGTH);
+    });
+    positions.needsUpdate = true;
+  }
+
+  dispose(): void {
+    this.scene.remove(this.lines);
+    this.lines.geometry.dispose();
+    (this.lines.material as THREE.Material).dispose();
+  }
+}
@@ -0,0 +1,141 @@
+import { gameNow } from './GameClock';
+
+/**
+ * How a modifier changes top speed:
+ * - additive: +value m/s
+ * - multiplicative: +value as a fraction of the (additively boosted) speed, e.g. 0.3 = +30%
+ */
+export type SpeedModifierKind = 'additive' | 'multiplicative';
+
+/**
+ * How a modifier's strength falls off over its duration:
+ * - step: full strength until it expires
+ * - linear: fades from full strength to zero
+ */
+export type SpeedModifierDecay = 'step' | 'linear';
+
+export interface SpeedModifierSpec {
+  source: string;            // stacking key, e.g. 'ko-reward', 'dummy-boost', 'slipstream'
+  kind: SpeedModifierKind;
+  value: number;
+  duration: number;          // ms, Infinity until removed
+  decay: SpeedModifierDecay;
+  maxStacks?: number;        // concurrent modifiers allowed from this source (default 1)
+}
+
+interface ActiveSpeedModifier extends SpeedModifierSpec {
+  startTime: number;
+}
+
+// Speed rewards from PRD plus global stacking caps
+export const SPEED_MODIFIERS = {
+  KO_REWARD: {
+    source: 'ko-reward',
+    kind: 'multiplicative',
+    value: 0.3,       // +30% speed
+    duration: 5000,   // decays linearly over 5 s
+    decay: 'linear',
+    maxStacks: 2
+  },
+  SLIPSTREAM: {
+    source: 'slipstream',
+    kind: 'multiplicative',
+    value: 0.15,      // +15% top speed while drafting
+    duration: Infinity,
+    decay: 'step'
+  },
+  MAX_ADDITIVE_BONUS: 30,       // m/s
+  MAX_MULTIPLICATIVE_BONUS: 0.6 // +60% total
+} as const;
+
+/**
+ * Timed top-speed modifiers (KO rewards, dummy boosts, pads, slipstream) resolved into one speed
+ */
+export class SpeedModifierStack {
+  private modifiers: ActiveSpeedModifier[] = [];
+
+  /**
+   * Add a modifier; past the source's stack cap the oldest one is replaced
+   */
+  add(spec: SpeedModifierSpec, now: number = gameNow()): void {
+    const maxStacks = spec.maxStacks ?? 1;
+    const sameSource = this.modifiers.filter(modifier => modifier.source === spec.source);
+
+    if (sameSource.length >= maxStacks) {
+      const oldest = sameSource.reduce((a, b) => (a.startTime <= b.startTime ? a : b));
+      this.modifiers.splice(this.modifiers.indexOf(oldest), 1);
+    }
+
+    this.modifiers.push({ ...spec, startTime: now });
+  }
+
+  /**
+   * Remove every modifier from a source (e.g. slipstream released)
+   */
+  remove(source: string): void {
+    this.modifiers = this.modifiers.filter(modifier => modifier.source !== source);
+  }
+
+  has(source: string): boolean {
+    return this.modifiers.some(modifier => modifier.source === source);
+  }
+
+  /**
+   * Drop expired modifiers - returns true if any expired
+   */
+  prune(now: number = gameNow()): boolean {
+    const before = this.modifiers.length;
+    this.modifiers = this.modifiers.filter(modifier => now - modifier.startTime < modifier.duration);
+    return this.modifiers.length !== before;
+  }
+
+  /**
+   * Top speed after all active modifiers, with additive and multiplicative bonuses each capped
+   */
+  apply(baseSpeed: number, now: number = gameNow()): number {
+    let additive = 0;
+    let multiplicative = 0;
+
+    for (const modifier of this.modifiers) {
+      const amount = modifier.value * getStrength(modifier, now);
+      if (modifier.kind === 'additive') {
+        additive += amount;
+      } else {
+        multiplicative += amount;
+      }
+    }
+
+    additive = Math.min(additive, SPEED_MODIFIERS.MAX_ADDITIVE_BONUS);
+    multiplicative = Math.min(multiplicative, SPEED_MODIFIERS.MAX_MULTIPLICATIVE_BONUS);
+
+    return (baseSpeed + additive) * (1 + multiplicative);
+  }
+
+  isEmpty(): boolean {
+    return this.modifiers.length === 0;
+  }
+
+  getActive(now: number = gameNow()) {
+    return this.modifiers.map(modifier => ({
+      source: modifier.source,
+      kind: modifier.kind,
+      value: modifier.value,
+      strength: getStrength(modifier, now),
+      remaining: Math.max(0, modifier.duration - (now - modifier.startTime))
+    }));
+  }
+
+  clear(): void {
+    this.modifiers = [];
+  }
+}
+
+/**
+ * 1 at the start, falling to 0 at expiry for linear decay
+ */
+function getStrength(modifier: ActiveSpeedModifier, now: number): number {
+  const elapsed = now - modifier.startTime;
+  if (elapsed >= modifier.duration) return 0;
+  if (modifier.decay === 'step' || !isFinite(modifier.duration)) return 1;
+  return 1 - elapsed / modifier.duration;
+}
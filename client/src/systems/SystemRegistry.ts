@@ -0,0 +1,137 @@
+import type { PhysicsWorld } from '../physics';
+
+/**
+ * Frame phases in the order they run. `simulation` runs once per fixed physics step
+ * (zero or more times a frame), the others once per rendered frame.
+ */
+export const SYSTEM_PHASES = ['input', 'simulation', 'postPhysics', 'render', 'ui'] as const;
+export type SystemPhase = typeof SYSTEM_PHASES[number];
+
+export type GameMode = 'solo' | 'multiplayer';
+
+export interface SystemContext {
+  mode: GameMode;
+  physics: PhysicsWorld;
+}
+
+/**
+ * One feature of a running match. init builds what it owns, dispose tears it down again
+ */
+export interface GameSystem {
+  readonly name: string;
+  readonly phase: SystemPhase;
+  readonly modes?: readonly GameMode[]; // modes the system runs in (default: all)
+  init?(context: SystemContext): void;
+  update?(deltaTime: number, context: SystemContext): void;
+  dispose?(): void;
+}
+
+/**
+ * Ordered set of match systems. Systems initialise in registration order, update by phase
+ * (registration order within a phase) and dispose in reverse.
+ */
+export class SystemRegistry {
+  private systems: GameSystem[] = [];
+  private running = new Set<GameSystem>();
+  private byPhase = new Map<SystemPhase, GameSystem[]>();
+  private disabled = new Set<string>();
+  private context: SystemContext | null = null;
+
+  register(system: GameSystem): void {
+    if (this.systems.some(existing => existing.name === system.name)) {
+      throw new Error(`System "${system.name}" is already registered`);
+    }
+    this.systems.push(system);
+  }
+
+  /**
+   * Start every system that runs in the context's mode (disposes a previous match first)
+   */
+  init(context: SystemContext): void {
+    if (this.context) this.dispose();
+    this.context = context;
+
+    for (const system of this.systems) {
+      if (this.shouldRun(system)) {
+        system.init?.(context);
+        this.running.add(system);
+      }
+    }
+    this.rebuildPhases();
+
+    console.log(`⚙️ ${this.running.size} systems running (${context.mode})`);
+  }
+
+  /**
+   * Run one phase's systems
+   */
+  update(phase: SystemPhase, deltaTime: number): void {
+    if (!this.context) return;
+    const systems = this.byPhase.get(phase);
+    if (!systems) return;
+
+    for (const system of systems) {
+      system.update?.(deltaTime, this.context);
+    }
+  }
+
+  /**
+   * Tear down every running system, last initialised first
+   */
+  dispose(): void {
+    const running = this.systems.filter(system => this.running.has(system)).reverse();
+    for (const system of running) {
+      system.dispose?.();
+    }
+    this.running.clear();
+    this.byPhase.clear();
+    this.context = null;
+  }
+
+  /**
+   * Switch a feature on or off; a running match starts or stops it immediately
+   */
+  setEnabled(name: string, enabled: boolean): void {
+    const system = this.systems.find(candidate => candidate.name === name);
+    if (!system) {
+      console.warn(`⚙️ No system named "${name}"`);
+      return;
+    }
+
+    if (enabled) {
+      this.disabled.delete(name);
+    } else {
+      this.disabled.add(name);
+    }
+    if (!this.context) return;
+
+    if (!enabled && this.running.has(system)) {
+      system.dispose?.();
+      this.running.delete(system);
+    } else if (enabled && !this.running.has(system) && this.shouldRun(system)) {
+      system.init?.(this.context);
+      this.running.add(system);
+    }
+    this.rebuildPhases();
+  }
+
+  isRunning(name: string): boolean {
+    return Array.from(this.running).some(system => system.name === name);
+  }
+
+  getSystemNames(): string[] {
+    return this.systems.map(system => system.name);
+  }
+
+  private shouldRun(system: GameSystem): boolean {
+    if (this.disabled.has(system.name)) return false;
+    return !system.modes || (this.context !== null && system.modes.includes(this.context.mode));
+  }
+
+  private rebuildPhases(): void {
+    this.byPhase.clear();
+    for (const phase of SYSTEM_PHASES) {
+      this.byPhase.set(phase, this.systems.filter(system => system.phase === phase && this.running.has(system)));
+    }
+  }
+}
@@ -1,134 +1,42 @@
 import * as THREE from 'three';
 import * as RAPIER from '@dimforge/rapier3d-compat';
+import type { TrackManifest, TrackGrappleSurface } from './TrackManifest';
 
-export const SPAWN_POS = new THREE.Vector3(0, 2.0, 0); // 2m above ground to clear road surface
+export async function loadExternalTrack(scene: THREE.Object3D, world: RAPIER.World, manifest: TrackManifest): Promise<void> {
+  createGrappleSurfaces(scene, world, manifest.grappleSurfaces);
+  
 
-export async function loadExternalTrack(scene: THREE.Scene, world: RAPIER.World): Promise<void> {
   try {
     // Import required utilities
     const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js');
-    const BufferGeometryUtils = await import('three/examples/jsm/utils/BufferGeometryUtils.js');
     
     if (import.meta.env.DEV) {
-    console.log('Loading lowpoly_racetrack.glb...');
+    console.log(`Loading ${manifest.model.url}...`);
   }
     
     const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync('/lowpoly_racetrack.glb');
+    const gltf = await loader.loadAsync(manifest.model.url);
     const track = gltf.scene;
     
-    // Scale and position the track
-    track.scale.setScalar(2);          // enlarge to match capsule scale
-    track.position.y = 0;              // road sits on ground plane
-    
-    // Collect all meshes for collision (since GLB uses generic names like Object_XXX)
-    const allMeshes: THREE.Mesh[] = [];
-    const collisionGeometries: THREE.BufferGeometry[] = [];
-    
-    if (import.meta.env.DEV) {
-      console.log('🏁 Loading track collision from all meshes...');
-    }
-    
-    // Collect all meshes and process them for collision
+    // Enable shadows for better visual quality
     track.traverse((child) => {
       if (child instanceof THREE.Mesh) {
-        allMeshes.push(child);
-        
-        // Enable shadows for better visual quality
         child.castShadow = true;
         child.receiveShadow = true;
-        
-        // Add all meshes to collision (GLB uses generic Object_XXX names)
-        child.updateWorldMatrix(true, false);
-        const geometry = child.geometry.clone();
-        geometry.applyMatrix4(child.matrixWorld);
-        collisionGeometries.push(geometry);
       }
     });
     
-    if (import.meta.env.DEV) {
-      console.log(`📊 Processing ${allMeshes.length} meshes for collision...`);
-    }
+    await createTrackCollider(world, manifest, track);
     
     // Add the visual track to the scene
     scene.add(track);
     
-    if (collisionGeometries.length === 0) {
-      console.error('❌ No meshes found at all! Creating simple ground plane...');
-      const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
-      const collider = RAPIER.ColliderDesc.cuboid(50, 0.1, 50);
-      world.createCollider(collider, body);
-    } else {
-      if (import.meta.env.DEV) {
-      console.log(`🔗 Merging ${collisionGeometries.length} geometries for collision...`);
-    }
-      
-      // Merge all geometries into a single collision mesh
-      const mergedGeometry = BufferGeometryUtils.mergeGeometries(collisionGeometries);
-      
-      if (mergedGeometry) {
-        // Generate trimesh collider from merged geometry
-        const positionAttribute = mergedGeometry.getAttribute('position');
-        const indexAttribute = mergedGeometry.getIndex();
-        
-                 if (positionAttribute && indexAttribute) {
-           const vertices = positionAttribute.array as Float32Array;
-           const indices = indexAttribute.array as Uint32Array;
-           
-           // Create the collision body and trimesh collider directly
-           const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
-           const collider = RAPIER.ColliderDesc.trimesh(vertices, indices);
-           world.createCollider(collider, body);
-           
-           if (import.meta.env.DEV) {
-      console.log(`✅ Trimesh collider created with ${vertices.length / 3} vertices and ${indices.length / 3} triangles`);
-    }
-           
-           // Add invisible safety rail around track perimeter
-           const bb = new THREE.Box3().setFromBufferAttribute(positionAttribute as THREE.BufferAttribute);
-           const curbH = 0.1; // 10cm high
-           const curbPad = 0.5; // 50cm padding around track
-           
-           const curbBody = world.createRigidBody(
-             RAPIER.RigidBodyDesc.fixed()
-               .setTranslation(
-                 (bb.min.x + bb.max.x) / 2,
-                 bb.min.y + curbH / 2,
-                 (bb.min.z + bb.max.z) / 2
-               )
-           );
-           
-           world.createCollider(
-             RAPIER.ColliderDesc.cuboid(
-               (bb.max.x - bb.min.x + curbPad * 2) / 2,
-               curbH / 2,
-               (bb.max.z - bb.min.z + curbPad * 2) / 2
-             ),
-             curbBody
-           );
-           
-           if (import.meta.env.DEV) {
-      console.log(`🛡️  Safety rail added around track perimeter`);
-    }
-           
-         } else {
-           console.error('❌ Failed to extract position/index data from merged geometry');
-         }
-        
-                 // Clean up temporary geometries
-         collisionGeometries.forEach((geo: THREE.BufferGeometry) => geo.dispose());
-        mergedGeometry.dispose();
-      } else {
-        console.error('❌ Failed to merge road geometries');
-      }
-    }
-    
     if (import.meta.env.DEV) {
-      console.log(`✅ Lowpoly racetrack loaded successfully!`);
+      console.log(`✅ ${manifest.name} loaded successfully!`);
     }
     
   } catch (error) {
-    console.error('❌ Error loading lowpoly racetrack:', error);
+    console.error(`❌ Error loading ${manifest.name}:`, error);
     
     // Fallback to simple placeholder track
     if (import.meta.env.DEV) {
@@ -148,4 +56,147 @@ export async function loadExternalTrack(scene: THREE.Scene, world: RAPIER.World)
       console.log('📦 Fallback placeholder track loaded.');
     }
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Place the track model per its manifest and build its trimesh collider plus the perimeter safety rail.
+ * Needs no scene, so the headless simulation shares it.
+ */
+export async function createTrackCollider(world: RAPIER.World, manifest: TrackManifest, track: THREE.Object3D): Promise<void> {
+  const BufferGeometryUtils = await import('three/examples/jsm/utils/BufferGeometryUtils.js');
+  
+  // Scale and position the track
+  track.scale.setScalar(manifest.model.scale);
+  track.position.set(manifest.model.position.x, manifest.model.position.y, manifest.model.position.z);
+  
+  // Collect all meshes for collision (since GLB uses generic names like Object_XXX)
+  const collisionGeometries: THREE.BufferGeometry[] = [];
+  
+  if (import.meta.env.DEV) {
+    console.log('🏁 Loading track collision from all meshes...');
+  }
+  
+  // Collect all meshes and process them for collision
+  track.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      // Add all meshes to collision (GLB uses generic Object_XXX names)
+      child.updateWorldMatrix(true, false);
+      const geometry = child.geometry.clone();
+      geometry.applyMatrix4(child.matrixWorld);
+      collisionGeometries.push(geometry);
+    }
+  });
+  
+  if (import.meta.env.DEV) {
+    console.log(`📊 Processing ${collisionGeometries.length} meshes for collision...`);
+  }
+  
+  if (collisionGeometries.length === 0) {
+    console.error('❌ No meshes found at all! Creating simple ground plane...');
+    const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+    const collider = RAPIER.ColliderDesc.cuboid(50, 0.1, 50);
+    world.createCollider(collider, body);
+  } else {
+    if (import.meta.env.DEV) {
+    console.log(`🔗 Merging ${collisionGeometries.length} geometries for collision...`);
+  }
+    
+    // Merge all geometries into a single collision mesh
+    const mergedGeometry = BufferGeometryUtils.mergeGeometries(collisionGeometries);
+    
+    if (mergedGeometry) {
+      // Generate trimesh collider from merged geometry
+      const positionAttribute = mergedGeometry.getAttribute('position');
+      const indexAttribute = mergedGeometry.getIndex();
+      
+               if (positionAttribute && indexAttribute) {
+         const vertices = positionAttribute.array as Float32Array;
+         const indices = indexAttribute.array as Uint32Array;
+         
+         // Create the collision body and trimesh collider directly
+         const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+         const collider = RAPIER.ColliderDesc.trimesh(vertices, indices);
+         world.createCollider(collider, body);
+         
+         if (import.meta.env.DEV) {
+    console.log(`✅ Trimesh collider created with ${vertices.length / 3} vertices and ${indices.length / 3} triangles`);
+  }
+         
+         // Add invisible safety rail around track perimeter
+         const bb = new THREE.Box3().setFromBufferAttribute(positionAttribute as THREE.BufferAttribute);
+         const curbH = 0.1; // 10cm high
+         const curbPad = 0.5; // 50cm padding around track
+         
+         const curbBody = world.createRigidBody(
+           RAPIER.RigidBodyDesc.fixed()
+             .setTranslation(
+               (bb.min.x + bb.max.x) / 2,
+               bb.min.y + curbH / 2,
+               (bb.min.z + bb.max.z) / 2
+             )
+         );
+         
+         world.createCollider(
+           RAPIER.ColliderDesc.cuboid(
+             (bb.max.x - bb.min.x + curbPad * 2) / 2,
+             curbH / 2,
+             (bb.max.z - bb.min.z + curbPad * 2) / 2
+           ),
+           curbBody
+         );
+         
+         if (import.meta.env.DEV) {
+    console.log(`🛡️  Safety rail added around track perimeter`);
+  }
+         
+       } else {
+         console.error('❌ Failed to extract position/index data from merged geometry');
+       }
+      
+               // Clean up temporary geometries
+       collisionGeometries.forEach((geo: THREE.BufferGeometry) => geo.dispose());
+      mergedGeometry.dispose();
+    } else {
+      console.error('❌ Failed to merge road geometries');
+    }
+  }
+}
+
+/**
+ * Static boxes from the manifest that grapples can anchor to (ceilings, beams)
+ */
+export function createGrappleSurfaces(scene: THREE.Object3D, world: RAPIER.World, surfaces: TrackGrappleSurface[]): void {
+  surfaces.forEach(surface => {
+    const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(
+      THREE.MathUtils.degToRad(surface.rotation.x),
+      THREE.MathUtils.degToRad(surface.rotation.y),
+      THREE.MathUtils.degToRad(surface.rotation.z)
+    ));
+    
+    const body = world.createRigidBody(
+      RAPIER.RigidBodyDesc.fixed()
+        .setTranslation(surface.position.x, surface.position.y, surface.position.z)
+        .setRotation(rotation)
+    );
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(surface.size.x / 2, surface.size.y / 2, surface.size.z / 2),
+      body
+    );
+    
+    if (surface.visible) {
+      const mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(surface.size.x, surface.size.y, surface.size.z),
+        new THREE.MeshStandardMaterial({ color: 0x555566, roughness: 0.9 })
+      );
+      mesh.position.set(surface.position.x, surface.position.y, surface.position.z);
+      mesh.quaternion.copy(rotation);
+      mesh.receiveShadow = true;
+      mesh.name = `grapple_surface_${surface.id}`;
+      scene.add(mesh);
+    }
+  });
+  
+  if (surfaces.length > 0 && import.meta.env.DEV) {
+    console.log(`🪝 ${surfaces.length} grapple surfaces created`);
+  }
+}
@@ -0,0 +1,392 @@
+import type { PlayerClass, Vec3 } from '../../../shared/protocol';
+import type { RouteDefinition } from '../systems/LapController';
+import { isFiniteNumber, isObject, isPlayerClass } from '../systems/DataFiles';
+
+/**
+ * Bump when the manifest layout changes; the loader rejects other versions
+ */
+export const TRACK_MANIFEST_VERSION = 1;
+
+export interface TrackModel {
+  url: string;        // GLB served from /public
+  scale: number;
+  position: Vec3;
+}
+
+export interface TrackSpawnPoint {
+  position: Vec3;
+  yaw: number;        // degrees
+}
+
+/**
+ * How a checkpoint detects the player:
+ * - volume: entering the rotated box
+ * - gate: crossing the box's local X/Y plane travelling towards local -Z (size.z is ignored)
+ */
+export type TrackCheckpointType = 'volume' | 'gate';
+
+/**
+ * Checkpoint volume. Without a `route`, checkpoints are visited in list order and the last one is the finish line.
+ */
+export interface TrackCheckpoint {
+  id: string;
+  type?: TrackCheckpointType; // defaults to 'volume'
+  position: Vec3;
+  size: Vec3;         // meters (full extents)
+  rotation: Vec3;     // degrees (Euler XYZ)
+  next?: string[];    // gates that may follow this one (alternate routes); defaults to the next in the list
+}
+
+/**
+ * Lap layout: looping circuit or point-to-point sprint
+ */
+export interface TrackRoute {
+  type: 'circuit' | 'sprint';
+  start?: string[];   // gates that open a lap, defaults to the first checkpoint
+  finish?: string;    // defaults to the last checkpoint
+}
+
+/**
+ * When the controller respawns a player who left the track
+ */
+export interface TrackKillzone {
+  minY: number;           // instant respawn below this
+  voidY: number;          // respawn after voidTime seconds below this
+  voidTime: number;
+  voidTrackingY: number;  // void timer runs below this (or while airborne)
+  emergencyY: number;     // instant respawn below this regardless of timer
+  maxRadius: number;      // horizontal distance from origin...
+  maxRadiusMinY: number;  // ...combined with being lower than this
+}
+
+export interface TrackDummy {
+  id: string;
+  position: Vec3;
+}
+
+/**
+ * Extra static box a grapple can attach to (ceilings, beams)
+ */
+export interface TrackGrappleSurface {
+  id: string;
+  position: Vec3;
+  size: Vec3;
+  rotation: Vec3;
+  visible: boolean;
+}
+
+/**
+ * Bot racing line waypoint, in lap order. Points tagged with a checkpoint sit inside it;
+ * bots don't move on from them until the checkpoint counts.
+ */
+export interface TrackRacingLinePoint {
+  position: Vec3;
+  checkpoint?: string;
+}
+
+/**
+ * Where bots fire their ability (each kit has its own technique: rocket jump, swing, blink along the line)
+ */
+export interface TrackAbilityHint {
+  id: string;
+  position: Vec3;
+  radius: number;           // meters
+  classes: PlayerClass[];   // kits that use this spot
+}
+
+export interface TrackManifest {
+  version: number;
+  id: string;
+  name: string;
+  model: TrackModel;
+  spawnPoints: TrackSpawnPoint[];
+  checkpoints: TrackCheckpoint[];
+  route?: TrackRoute;
+  killzone: TrackKillzone;
+  dummies: TrackDummy[];
+  grappleSurfaces: TrackGrappleSurface[];
+  racingLine?: TrackRacingLinePoint[];  // defaults to the checkpoint centres in lap order
+  abilityHints?: TrackAbilityHint[];
+}
+
+export type TrackManifestValidation =
+  | { ok: true; manifest: TrackManifest }
+  | { ok: false; errors: string[] };
+
+/**
+ * Check an untrusted JSON manifest against the schema, collecting every problem found
+ */
+export function validateTrackManifest(data: unknown): TrackManifestValidation {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return { ok: false, errors: ['manifest must be an object'] };
+  }
+
+  if (data.version !== TRACK_MANIFEST_VERSION) {
+    errors.push(`version must be ${TRACK_MANIFEST_VERSION} (got ${String(data.version)})`);
+  }
+  checkString(data.id, 'id', errors);
+  checkString(data.name, 'name', errors);
+
+  // Model
+  if (!isObject(data.model)) {
+    errors.push('model must be an object');
+  } else {
+    checkString(data.model.url, 'model.url', errors);
+    if (!isFiniteNumber(data.model.scale) || data.model.scale <= 0) {
+      errors.push('model.scale must be a positive number');
+    }
+    checkVec3(data.model.position, 'model.position', errors);
+  }
+
+  // Spawn points
+  if (!Array.isArray(data.spawnPoints) || data.spawnPoints.length === 0) {
+    errors.push('spawnPoints must be a non-empty array');
+  } else {
+    data.spawnPoints.forEach((spawn, index) => {
+      const path = `spawnPoints[${index}]`;
+      if (!isObject(spawn)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      checkVec3(spawn.position, `${path}.position`, errors);
+      checkNumber(spawn.yaw, `${path}.yaw`, errors);
+    });
+  }
+
+  // Checkpoints
+  if (!Array.isArray(data.checkpoints) || data.checkpoints.length < 2) {
+    errors.push('checkpoints must list at least two volumes');
+  } else {
+    const ids = new Set<string>();
+    data.checkpoints.forEach((checkpoint, index) => {
+      const path = `checkpoints[${index}]`;
+      if (!isObject(checkpoint)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (checkString(checkpoint.id, `${path}.id`, errors)) {
+        if (ids.has(checkpoint.id as string)) {
+          errors.push(`${path}.id "${checkpoint.id}" is duplicated`);
+        }
+        ids.add(checkpoint.id as string);
+      }
+      if (checkpoint.type !== undefined && checkpoint.type !== 'volume' && checkpoint.type !== 'gate') {
+        errors.push(`${path}.type must be "volume" or "gate"`);
+      }
+      checkVec3(checkpoint.position, `${path}.position`, errors);
+      checkSize(checkpoint.size, `${path}.size`, errors);
+      checkVec3(checkpoint.rotation, `${path}.rotation`, errors);
+      if (checkpoint.next !== undefined) {
+        checkIdList(checkpoint.next, `${path}.next`, errors);
+      }
+    });
+  }
+
+  // Route
+  if (data.route !== undefined) {
+    if (!isObject(data.route)) {
+      errors.push('route must be an object');
+    } else {
+      if (data.route.type !== 'circuit' && data.route.type !== 'sprint') {
+        errors.push('route.type must be "circuit" or "sprint"');
+      }
+      if (data.route.start !== undefined) {
+        checkIdList(data.route.start, 'route.start', errors);
+      }
+      if (data.route.finish !== undefined) {
+        checkString(data.route.finish, 'route.finish', errors);
+      }
+    }
+  }
+
+  // Route graph only makes sense once the shapes above are right
+  if (errors.length === 0) {
+    checkRouteGraph(buildTrackRoute(data as unknown as TrackManifest), errors);
+  }
+
+  // Killzone
+  if (!isObject(data.killzone)) {
+    errors.push('killzone must be an object');
+  } else {
+    for (const key of ['minY', 'voidY', 'voidTime', 'voidTrackingY', 'emergencyY', 'maxRadius', 'maxRadiusMinY']) {
+      checkNumber(data.killzone[key], `killzone.${key}`, errors);
+    }
+  }
+
+  // Dummies
+  if (!Array.isArray(data.dummies)) {
+    errors.push('dummies must be an array');
+  } else {
+    data.dummies.forEach((dummy, index) => {
+      const path = `dummies[${index}]`;
+      if (!isObject(dummy)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      checkString(dummy.id, `${path}.id`, errors);
+      checkVec3(dummy.position, `${path}.position`, errors);
+    });
+  }
+
+  // Grapple surfaces
+  if (!Array.isArray(data.grappleSurfaces)) {
+    errors.push('grappleSurfaces must be an array');
+  } else {
+    data.grappleSurfaces.forEach((surface, index) => {
+      const path = `grappleSurfaces[${index}]`;
+      if (!isObject(surface)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      checkString(surface.id, `${path}.id`, errors);
+      checkVec3(surface.position, `${path}.position`, errors);
+      checkSize(surface.size, `${path}.size`, errors);
+      checkVec3(surface.rotation, `${path}.rotation`, errors);
+      if (typeof surface.visible !== 'boolean') {
+        errors.push(`${path}.visible must be a boolean`);
+      }
+    });
+  }
+
+  // Bot racing line
+  if (data.racingLine !== undefined) {
+    if (!Array.isArray(data.racingLine) || data.racingLine.length < 2) {
+      errors.push('racingLine must list at least two points');
+    } else {
+      const checkpointIds = new Set(Array.isArray(data.checkpoints) ? data.checkpoints.map(checkpoint => isObject(checkpoint) ? checkpoint.id : undefined) : []);
+      data.racingLine.forEach((point, index) => {
+        const path = `racingLine[${index}]`;
+        if (!isObject(point)) {
+          errors.push(`${path} must be an object`);
+          return;
+        }
+        checkVec3(point.position, `${path}.position`, errors);
+        if (point.checkpoint !== undefined && !checkpointIds.has(point.checkpoint)) {
+          errors.push(`${path}.checkpoint references unknown checkpoint "${String(point.checkpoint)}"`);
+        }
+      });
+    }
+  }
+
+  // Bot ability hints
+  if (data.abilityHints !== undefined) {
+    if (!Array.isArray(data.abilityHints)) {
+      errors.push('abilityHints must be an array');
+    } else {
+      data.abilityHints.forEach((hint, index) => {
+        const path = `abilityHints[${index}]`;
+        if (!isObject(hint)) {
+          errors.push(`${path} must be an object`);
+          return;
+        }
+        checkString(hint.id, `${path}.id`, errors);
+        checkVec3(hint.position, `${path}.position`, errors);
+        if (!isFiniteNumber(hint.radius) || hint.radius <= 0) {
+          errors.push(`${path}.radius must be a positive number`);
+        }
+        if (!Array.isArray(hint.classes) || hint.classes.length === 0 || !hint.classes.every(isPlayerClass)) {
+          errors.push(`${path}.classes must be a non-empty array of blast, grapple or blink`);
+        }
+      });
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, manifest: data as unknown as TrackManifest };
+}
+
+/**
+ * Lap route graph for LapController, filling in list-order defaults
+ */
+export function buildTrackRoute(manifest: TrackManifest): RouteDefinition {
+  const ids = manifest.checkpoints.map(checkpoint => checkpoint.id);
+  const finish = manifest.route?.finish ?? ids[ids.length - 1];
+
+  const next: Record<string, string[]> = {};
+  manifest.checkpoints.forEach((checkpoint, index) => {
+    next[checkpoint.id] = checkpoint.next ?? (checkpoint.id === finish || index === ids.length - 1 ? [] : [ids[index + 1]]);
+  });
+
+  return {
+    type: manifest.route?.type ?? 'circuit',
+    start: manifest.route?.start ?? [ids[0]],
+    finish,
+    next
+  };
+}
+
+/**
+ * Every referenced gate exists and the finish can be reached from the start
+ */
+function checkRouteGraph(route: RouteDefinition, errors: string[]): void {
+  const known = new Set(Object.keys(route.next));
+  const checkKnown = (id: string, path: string) => {
+    if (!known.has(id)) errors.push(`${path} references unknown checkpoint "${id}"`);
+  };
+
+  route.start.forEach(id => checkKnown(id, 'route.start'));
+  checkKnown(route.finish, 'route.finish');
+  Object.entries(route.next).forEach(([id, nextIds]) => {
+    nextIds.forEach(nextId => checkKnown(nextId, `checkpoints["${id}"].next`));
+  });
+
+  if (route.start.includes(route.finish)) {
+    errors.push('route.start must not include the finish checkpoint');
+  }
+
+  // Finish must be reachable
+  const visited = new Set<string>(route.start);
+  const queue = [...route.start];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const nextId of route.next[id] ?? []) {
+      if (!visited.has(nextId)) {
+        visited.add(nextId);
+        queue.push(nextId);
+      }
+    }
+  }
+  if (!visited.has(route.finish)) {
+    errors.push(`finish checkpoint "${route.finish}" is unreachable from the start`);
+  }
+}
+
+function checkIdList(value: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(value) || value.length === 0 || value.some(id => typeof id !== 'string' || id.length === 0)) {
+    errors.push(`${path} must be a non-empty array of checkpoint ids`);
+  }
+}
+
+function checkString(value: unknown, path: string, errors: string[]): boolean {
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${path} must be a non-empty string`);
+    return false;
+  }
+  return true;
+}
+
+function checkNumber(value: unknown, path: string, errors: string[]): void {
+  if (!isFiniteNumber(value)) {
+    errors.push(`${path} must be a number`);
+  }
+}
+
+function checkVec3(value: unknown, path: string, errors: string[]): boolean {
+  if (!isObject(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y) || !isFiniteNumber(value.z)) {
+    errors.push(`${path} must be {x, y, z} numbers`);
+    return false;
+  }
+  return true;
+}
+
+function checkSize(value: unknown, path: string, errors: string[]): void {
+  if (checkVec3(value, path, errors)) {
+    const size = value as Vec3;
+    if (size.x <= 0 || size.y <= 0 || size.z <= 0) {
+      errors.push(`${path} must be positive on every axis`);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { validateTrackManifest, type TrackManifest } from './TrackManifest';
+import lowpolyRacetrack from './maps/lowpoly_racetrack.json';
+
+// Every map bundled into the build, keyed by manifest id (select with ?track=<id>)
+const BUNDLED_TRACKS: Record<string, unknown> = {
+  lowpoly_racetrack: lowpolyRacetrack
+};
+
+export const DEFAULT_TRACK_ID = 'lowpoly_racetrack';
+
+export function getTrackIds(): string[] {
+  return Object.keys(BUNDLED_TRACKS);
+}
+
+/**
+ * Validate and return a bundled track, falling back to the default map if it is unknown or invalid
+ */
+export function loadTrackManifest(trackId: string = DEFAULT_TRACK_ID): TrackManifest {
+  const data = BUNDLED_TRACKS[trackId];
+
+  if (data === undefined) {
+    console.error(`❌ Unknown track "${trackId}" (available: ${getTrackIds().join(', ')})`);
+  } else {
+    const result = validateTrackManifest(data);
+    if (result.ok) {
+      console.log(`🗺️ Track loaded: ${result.manifest.name} (${result.manifest.checkpoints.length} checkpoints, ${result.manifest.dummies.length} dummies)`);
+      return result.manifest;
+    }
+    console.error(`❌ Track "${trackId}" failed validation:\n  ${result.errors.join('\n  ')}`);
+  }
+
+  if (trackId === DEFAULT_TRACK_ID) {
+    throw new Error(`Default track "${DEFAULT_TRACK_ID}" is missing or invalid`);
+  }
+
+  console.log(`🔄 Falling back to ${DEFAULT_TRACK_ID}`);
+  return loadTrackManifest(DEFAULT_TRACK_ID);
+}
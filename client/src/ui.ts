@@ -1,3 +1,5 @@
+import { gameEvents } from './systems/GameEvents';
+
 export class DebugUI {
   private container: HTMLDivElement;
   private fpsElement: HTMLSpanElement;
@@ -36,6 +38,7 @@ export class DebugUI {
   // Combat state tracking
   private combatLog: string[] = [];
   private maxLogEntries = 5;
+  private events = gameEvents.scope();
   
   /**
    * Get the container element for adding additional UI components
@@ -392,15 +395,12 @@ export class DebugUI {
     if (!this.isDevelopment) return;
     
     // Listen for class changes
-    window.addEventListener('playerClassChanged', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.updateClass(customEvent.detail.className);
+    this.events.on('playerClassChanged', ({ className }) => {
+      this.updateClass(className);
     });
     
     // Listen for melee hits
-    window.addEventListener('meleeHit', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const { targetId, damage, className, isCrit, isBonus } = customEvent.detail;
+    this.events.on('meleeHit', ({ targetId, damage, className, isCrit, isBonus }) => {
       this.updateLastHit(targetId, damage, className);
       
       // Generate special combat log messages
@@ -415,17 +415,22 @@ export class DebugUI {
     });
     
     // Listen for ability activations to track blink timing
-    window.addEventListener('abilityActivated', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      if (customEvent.detail.className === 'blink') {
+    this.events.on('abilityActivated', ({ className }) => {
+      if (className === 'blink') {
         this.addCombatLog('⚡ Blink activated (bonus damage ready)');
       }
     });
     
+    // Listen for parries (either side)
+    this.events.on('parry', ({ defenderId, isLocalDefender }) => {
+      this.addCombatLog(isLocalDefender
+        ? '🛡️ PARRY! Attacker staggered'
+        : `😵 PARRIED by ${defenderId} - staggered`);
+    });
+    
     // Listen for combat log messages (like grapple velocity logs)
-    window.addEventListener('combatLogMessage', (event: Event) => {
-      const customEvent = event as CustomEvent;
-      this.addCombatLog(customEvent.detail.message);
+    this.events.on('combatLogMessage', ({ message }) => {
+      this.addCombatLog(message);
     });
   }
   
@@ -436,18 +441,16 @@ export class DebugUI {
     if (!this.isDevelopment) return;
 
     // Listen for speed boost activation
-    window.addEventListener('speedBoostActive', (event: Event) => {
-      const customEvent = event as CustomEvent;
+    this.events.on('speedBoostActive', ({ toSpeed }) => {
       this.speedBoostActive = true;
       if (this.speedBoostElement) {
-        this.speedBoostElement.textContent = `Yes (${customEvent.detail.toSpeed} m/s)`;
+        this.speedBoostElement.textContent = `Yes (${toSpeed} m/s)`;
         this.speedBoostElement.style.color = '#0f0'; // Green for active
       }
     });
 
     // Listen for speed boost deactivation
-    window.addEventListener('speedBoostEnded', (event: Event) => {
-      const customEvent = event as CustomEvent;
+    this.events.on('speedBoostEnded', () => {
       this.speedBoostActive = false;
       if (this.speedBoostElement) {
         this.speedBoostElement.textContent = 'No';
@@ -463,28 +466,24 @@ export class DebugUI {
     if (!this.isDevelopment) return;
 
     // Listen for edit mode changes
-    window.addEventListener('dummyEditModeChanged', (event: Event) => {
-      const customEvent = event as CustomEvent;
+    this.events.on('dummyEditModeChanged', ({ enabled }) => {
       if (this.editModeElement) {
-        this.editModeElement.textContent = customEvent.detail.enabled ? 'ON' : 'OFF';
-        this.editModeElement.style.color = customEvent.detail.enabled ? '#0f0' : '#888';
+        this.editModeElement.textContent = enabled ? 'ON' : 'OFF';
+        this.editModeElement.style.color = enabled ? '#0f0' : '#888';
       }
     });
 
     // Listen for preview mode changes
-    window.addEventListener('dummyPreviewModeChanged', (event: Event) => {
-      const customEvent = event as CustomEvent;
+    this.events.on('dummyPreviewModeChanged', ({ enabled }) => {
       if (this.previewModeElement) {
-        this.previewModeElement.textContent = customEvent.detail.enabled ? 'ON' : 'OFF';
-        this.previewModeElement.style.color = customEvent.detail.enabled ? '#ff0' : '#888';
+        this.previewModeElement.textContent = enabled ? 'ON' : 'OFF';
+        this.previewModeElement.style.color = enabled ? '#ff0' : '#888';
       }
     });
 
     // Listen for dummy count changes
-    window.addEventListener('dummyCountChanged', (event: Event) => {
-      const customEvent = event as CustomEvent;
+    this.events.on('dummyCountChanged', ({ loaded, placed }) => {
       if (this.dummyCountElement) {
-        const { loaded, placed } = customEvent.detail;
         this.dummyCountElement.textContent = `${loaded} loaded + ${placed} placed`;
       }
     });
@@ -609,6 +608,7 @@ export class DebugUI {
   }
   
   destroy() {
+    this.events.dispose();
     if (this.container.parentNode) {
       this.container.parentNode.removeChild(this.container);
     }
@@ -0,0 +1,89 @@
+import type { Vec3 } from '../../shared/protocol';
+import type { DefenseStance } from '../../shared/combat';
+
+interface PositionSample {
+  time: number; // server time
+  position: Vec3;
+  stance: DefenseStance;
+}
+
+/**
+ * Short per-player position and defense stance history used to rewind targets for lag compensation
+ */
+export class PositionHistory {
+  private samples: PositionSample[] = [];
+  private duration: number;
+
+  constructor(duration: number) {
+    this.duration = duration;
+  }
+
+  record(time: number, position: Vec3, stance: DefenseStance): void {
+    this.samples.push({ time, position: { ...position }, stance });
+
+    const cutoff = time - this.duration;
+    while (this.samples.length > 2 && this.samples[0].time < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Position at the given server time, interpolated between recorded samples
+   */
+  sample(time: number): Vec3 | null {
+    if (this.samples.length === 0) return null;
+
+    const oldest = this.samples[0];
+    const newest = this.samples[this.samples.length - 1];
+    if (time <= oldest.time) return { ...oldest.position };
+    if (time >= newest.time) return { ...newest.position };
+
+    let index = this.samples.length - 2;
+    while (index > 0 && this.samples[index].time > time) {
+      index--;
+    }
+
+    const from = this.samples[index];
+    const to = this.samples[index + 1];
+    const t = (time - from.time) / (to.time - from.time);
+
+    return {
+      x: from.position.x + (to.position.x - from.position.x) * t,
+      y: from.position.y + (to.position.y - from.position.y) * t,
+      z: from.position.z + (to.position.z - from.position.z) * t
+    };
+  }
+
+  /**
+   * Horizontal speed (m/s) over the most recent `window` ms of recorded movement
+   */
+  horizontalSpeed(window: number): number {
+    if (this.samples.length < 2) return 0;
+
+    const newest = this.samples[this.samples.length - 1];
+    const from = Math.max(this.samples[0].time, newest.time - window);
+    const elapsed = (newest.time - from) / 1000;
+    const start = this.sample(from);
+    if (!start || elapsed <= 0) return 0;
+
+    const dx = newest.position.x - start.x;
+    const dz = newest.position.z - start.z;
+    return Math.sqrt(dx * dx + dz * dz) / elapsed;
+  }
+
+  /**
+   * Stance held at the given server time (the latest sample at or before it - stances don't interpolate)
+   */
+  sampleStance(time: number): DefenseStance | null {
+    if (this.samples.length === 0) return null;
+
+    for (let index = this.samples.length - 1; index >= 0; index--) {
+      if (this.samples[index].time <= time) return this.samples[index].stance;
+    }
+    return this.samples[0].stance;
+  }
+
+  clear(): void {
+    this.samples = [];
+  }
+}
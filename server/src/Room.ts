@@ -0,0 +1,687 @@
+import type { Server, Socket } from 'socket.io';
+import {
+  ABILITY_COOLDOWNS,
+  COMBAT_CONFIG,
+  LAG_COMPENSATION,
+  PARRY_CONFIG,
+  findMeleeHits,
+  resolveAttackParameters,
+  resolveDefense,
+  type AttackContext,
+  type DefenseStance
+} from '../../shared/combat';
+import {
+  MOVEMENT_LIMITS,
+  ROOM_CONFIG,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type JoinRoomRequest,
+  type JoinRoomResponse,
+  type MeleeAttackRequest,
+  type PlayerSnapshot,
+  type PlayerState,
+  type RaceResult,
+  type RoomInfo,
+  type RoomPhase,
+  type Vec3
+} from '../../shared/protocol';
+import { rankRacers } from '../../shared/race';
+import { PositionHistory } from './PositionHistory';
+
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+// Default spawn matches the first spawn point of the default track manifest
+const SPAWN_POSITION = { x: 0, y: 2, z: 0 };
+
+// Checkpoint crossings remembered per racer as places a respawn may return to
+const MAX_RESPAWN_ANCHORS = 32;
+
+// Float slack when comparing a progress step against one checkpoint stage
+const PROGRESS_EPSILON = 1e-6;
+
+/**
+ * A named race room hosting 2-8 players.
+ * The server owns the lifecycle: lobby → countdown → racing → results → lobby
+ */
+export class Room {
+  public readonly id: string;
+
+  private io: GameServer;
+  private lapCount: number;
+  private stageCount: number;
+  private players: Map<string, PlayerSnapshot> = new Map();
+  private lastStateTimes: Map<string, number> = new Map();
+  private positionHistories: Map<string, PositionHistory> = new Map();
+  private lastMeleeTimes: Map<string, number> = new Map();
+  private lastDamageTimes: Map<string, number> = new Map();
+  private staggeredUntil: Map<string, number> = new Map();
+  private parryStartTimes: Map<string, number> = new Map();
+  private swingStartTimes: Map<string, number> = new Map();
+  private grappleDetachTimes: Map<string, number> = new Map();
+  private blinkTimes: Map<string, number> = new Map();
+  private respawnAnchors: Map<string, Vec3[]> = new Map();
+  private lastRespawnTimes: Map<string, number> = new Map();
+  private pendingRespawns: Map<string, { position: Vec3; respawns: number }> = new Map();
+  private finishClaimTimes: Map<string, number> = new Map();
+  private phase: RoomPhase = 'lobby';
+  private phaseEndsAt: number | null = null;
+  private raceStartTime: number | null = null;
+  private isOvertime = false;
+  private results: RaceResult[] = [];
+  private tick = 0;
+  private tickInterval: NodeJS.Timeout;
+
+  constructor(io: GameServer, id: string, lapCount: number, stageCount: number) {
+    this.io = io;
+    this.id = id;
+    this.lapCount = lapCount;
+    this.stageCount = stageCount;
+
+    this.tickInterval = setInterval(() => this.update(), 1000 / ROOM_CONFIG.TICK_RATE);
+
+    console.log(`🏠 Room "${id}" created (${lapCount} laps of ${stageCount} stages)`);
+  }
+
+  /**
+   * Add a player to the room, rejecting when full or mid-race
+   */
+  addPlayer(socket: GameSocket, request: JoinRoomRequest): JoinRoomResponse {
+    if (this.players.size >= ROOM_CONFIG.MAX_PLAYERS) {
+      return { ok: false, reason: `Room "${this.id}" is full (${ROOM_CONFIG.MAX_PLAYERS} players)` };
+    }
+
+    if (this.phase !== 'lobby') {
+      return { ok: false, reason: `Room "${this.id}" is already ${this.phase}` };
+    }
+
+    if (request.stageCount !== this.stageCount) {
+      return { ok: false, reason: `Room "${this.id}" is racing a different track` };
+    }
+
+    const player: PlayerSnapshot = {
+      id: socket.id,
+      name: request.name.trim().slice(0, ROOM_CONFIG.MAX_NAME_LENGTH) || 'Racer',
+      playerClass: request.playerClass,
+      ready: false,
+      finishTime: null,
+      health: COMBAT_CONFIG.MAX_HEALTH,
+      position: { ...SPAWN_POSITION },
+      rotation: { x: 0, y: 0, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      progress: 0,
+      inputSeq: 0,
+      respawns: 0,
+      regenDisabled: false,
+      defenseStance: 'none',
+      isSwinging: false,
+      blinks: 0
+    };
+
+    // Send current players to the new player before announcing them
+    socket.emit('currentPlayers', Array.from(this.players.values()));
+
+    this.players.set(socket.id, player);
+    this.positionHistories.set(socket.id, new PositionHistory(LAG_COMPENSATION.HISTORY_DURATION));
+    this.respawnAnchors.set(socket.id, [{ ...SPAWN_POSITION }]);
+    socket.join(this.id);
+    socket.to(this.id).emit('playerJoined', player);
+
+    console.log(`👤 ${player.name} (${socket.id}) joined room "${this.id}" (${this.players.size}/${ROOM_CONFIG.MAX_PLAYERS})`);
+
+    this.broadcastRoomState();
+    return { ok: true, playerId: socket.id, room: this.getInfo() };
+  }
+
+  /**
+   * Remove a player and fall back to lobby if a countdown can no longer start
+   */
+  removePlayer(socket: GameSocket): void {
+    const player = this.players.get(socket.id);
+    if (!player) return;
+
+    this.players.delete(socket.id);
+    this.lastStateTimes.delete(socket.id);
+    this.positionHistories.delete(socket.id);
+    this.lastMeleeTimes.delete(socket.id);
+    this.lastDamageTimes.delete(socket.id);
+    this.staggeredUntil.delete(socket.id);
+    this.parryStartTimes.delete(socket.id);
+    this.swingStartTimes.delete(socket.id);
+    this.grappleDetachTimes.delete(socket.id);
+    this.blinkTimes.delete(socket.id);
+    this.respawnAnchors.delete(socket.id);
+    this.lastRespawnTimes.delete(socket.id);
+    this.pendingRespawns.delete(socket.id);
+    this.finishClaimTimes.delete(socket.id);
+    socket.leave(this.id);
+    this.io.to(this.id).emit('playerLeft', socket.id);
+
+    console.log(`👤 ${player.name} (${socket.id}) left room "${this.id}"`);
+
+    if (this.phase === 'countdown' && this.players.size < ROOM_CONFIG.MIN_PLAYERS) {
+      this.setPhase('lobby', null);
+    } else if (this.phase === 'racing') {
+      this.checkRaceComplete();
+    } else if (this.phase === 'lobby') {
+      this.checkCountdownStart();
+    }
+
+    this.broadcastRoomState();
+  }
+
+  setReady(playerId: string, ready: boolean): void {
+    const player = this.players.get(playerId);
+    if (!player || this.phase !== 'lobby') return;
+
+    player.ready = ready;
+    this.checkCountdownStart();
+    this.broadcastRoomState();
+  }
+
+  /**
+   * Store the latest movement state reported by a player.
+   * Displacement is clamped to what is physically reachable; the clamped position
+   * is echoed back with the input sequence so the client can reconcile.
+   * A respawn may only land on the spawn or a checkpoint the server saw the racer cross;
+   * one inside RESPAWN_COOLDOWN of the last is held (and the racer with it) until the cooldown passes.
+   * Progress may advance by at most one checkpoint stage per state.
+   */
+  updatePlayerState(playerId: string, state: PlayerState): void {
+    const player = this.players.get(playerId);
+    if (!player || !isValidPlayerState(state)) return;
+    if (state.inputSeq <= player.inputSeq && state.respawns === player.respawns) return;
+
+    // Racers are locked in place until the countdown ends
+    if (this.phase === 'countdown') return;
+
+    const now = Date.now();
+    const lastTime = this.lastStateTimes.get(playerId) ?? now;
+    const elapsed = Math.max((now - lastTime) / 1000, 1 / ROOM_CONFIG.SNAPSHOT_RATE);
+    const maxStep = MOVEMENT_LIMITS.MAX_SPEED * elapsed + MOVEMENT_LIMITS.TELEPORT_ALLOWANCE;
+
+    const history = this.positionHistories.get(playerId);
+
+    if (state.respawns > player.respawns) {
+      // Later states of a held respawn have moved on from the respawn point
+      const pending = this.pendingRespawns.get(playerId);
+      const respawnPoint = pending?.respawns === state.respawns ? pending.position : state.position;
+
+      // Rejected states are dropped whole and the counter stays, so the next valid respawn still counts
+      if (!this.isKnownRespawnPoint(playerId, respawnPoint)) {
+        console.warn(`⚠️ Rejected respawn from ${player.name}: not back to a known checkpoint`);
+        return;
+      }
+
+      const lastRespawn = this.lastRespawnTimes.get(playerId) ?? -Infinity;
+      if (now - lastRespawn < MOVEMENT_LIMITS.RESPAWN_COOLDOWN) {
+        this.pendingRespawns.set(playerId, { position: { ...respawnPoint }, respawns: state.respawns });
+        return;
+      }
+
+      // Respawn is a legitimate teleport back to a checkpoint - don't rewind across it.
+      // Several respawns between two states still teleport only once.
+      this.pendingRespawns.delete(playerId);
+      this.lastRespawnTimes.set(playerId, now);
+      player.health = COMBAT_CONFIG.MAX_HEALTH;
+      player.position = clampDisplacement(respawnPoint, state.position, maxStep);
+      history?.clear();
+    } else {
+      player.position = clampDisplacement(player.position, state.position, maxStep);
+    }
+    this.lastStateTimes.set(playerId, now);
+
+    // Anything past the next stage is dropped; two gates crossed between states catch up on the next one
+    const maxProgress = player.progress + 1 / this.stageCount;
+    if (state.progress > maxProgress + PROGRESS_EPSILON) {
+      console.warn(`⚠️ Capped progress from ${player.name}: ${player.progress.toFixed(2)} → ${state.progress.toFixed(2)} skips a checkpoint`);
+    }
+    const progress = Math.min(state.progress, maxProgress);
+    if (progress > player.progress) {
+      this.addRespawnAnchor(playerId, player.position);
+    }
+    player.progress = progress;
+
+    player.rotation = state.rotation;
+    player.velocity = state.velocity;
+    player.inputSeq = state.inputSeq;
+    player.respawns = state.respawns;
+    player.regenDisabled = state.regenDisabled;
+    player.defenseStance = this.updateDefenseStance(player, state.defenseStance !== 'none', now);
+    this.updateAbilityTimes(player, state, now);
+
+    history?.record(now, player.position, player.defenseStance === 'none' ? 'none' : 'block');
+    this.confirmFinish(player);
+  }
+
+  /**
+   * Authoritative melee check: rewind other racers to what the attacker saw,
+   * re-run the shared cone/360° sweep and apply damage server-side
+   */
+  handleMeleeAttack(playerId: string, request: MeleeAttackRequest): void {
+    const attacker = this.players.get(playerId);
+    if (!attacker || !isValidMeleeAttack(request)) return;
+    if (this.phase === 'countdown' || this.phase === 'results') return;
+
+    const now = Date.now();
+    if (now < (this.staggeredUntil.get(playerId) ?? 0)) return;
+
+    const lastMeleeTime = this.lastMeleeTimes.get(playerId) ?? 0;
+    if (now - lastMeleeTime < COMBAT_CONFIG.MELEE_COOLDOWN - LAG_COMPENSATION.COOLDOWN_TOLERANCE) return;
+
+    // The swing must start near where the server last saw the attacker
+    const dx = request.origin.x - attacker.position.x;
+    const dy = request.origin.y - attacker.position.y;
+    const dz = request.origin.z - attacker.position.z;
+    if (Math.sqrt(dx * dx + dy * dy + dz * dz) > LAG_COMPENSATION.ORIGIN_TOLERANCE) {
+      console.warn(`⚠️ Rejected melee from ${attacker.name}: origin too far from server position`);
+      return;
+    }
+
+    this.lastMeleeTimes.set(playerId, now);
+
+    // Speed comes from the attacker's clamped position history; the claimed swing and timing
+    // windows can only be less generous than what the server saw
+    const context: AttackContext = {
+      speed: this.positionHistories.get(playerId)?.horizontalSpeed(LAG_COMPENSATION.SPEED_WINDOW) ?? 0,
+      isSwinging: request.context.isSwinging && attacker.isSwinging,
+      msSinceGrappleDetach: Math.max(request.context.msSinceGrappleDetach, now - (this.grappleDetachTimes.get(playerId) ?? -Infinity)),
+      msSinceBlink: Math.max(request.context.msSinceBlink, now - (this.blinkTimes.get(playerId) ?? -Infinity))
+    };
+    const params = resolveAttackParameters(attacker.playerClass, context);
+
+    // Rewind targets to the attacker's view time (bounded so high ping can't reach far into the past)
+    const viewTime = Math.min(now, Math.max(request.viewTime, now - LAG_COMPENSATION.MAX_REWIND));
+    const targets = Array.from(this.players.values())
+      .filter(player => player.id !== playerId)
+      .map(player => ({
+        player,
+        position: this.positionHistories.get(player.id)?.sample(viewTime) ?? player.position,
+        stance: this.defenseStanceAt(player, viewTime)
+      }));
+
+    const hits = findMeleeHits(request.origin, request.direction, params, targets);
+
+    for (const { player: target, stance } of hits) {
+      const defense = resolveDefense(
+        params.damage,
+        params.damage * COMBAT_CONFIG.KNOCKBACK_MULTIPLIER,
+        stance
+      );
+
+      if (defense.parried) {
+        // Parry nullifies the hit and staggers the attacker
+        this.staggeredUntil.set(playerId, now + PARRY_CONFIG.STAGGER_DURATION);
+        this.io.to(this.id).emit('parry', {
+          attackerId: playerId,
+          defenderId: target.id,
+          staggerDuration: PARRY_CONFIG.STAGGER_DURATION
+        });
+        console.log(`🛡️ ${target.name} parried ${attacker.name}`);
+        continue;
+      }
+
+      target.health = Math.max(0, target.health - defense.damage);
+      this.lastDamageTimes.set(target.id, now);
+
+      this.io.to(this.id).emit('hit', {
+        attackerId: playerId,
+        targetId: target.id,
+        damage: defense.damage,
+        knockbackForce: defense.knockbackForce,
+        direction: request.direction,
+        isCrit: params.isCrit,
+        isBonus: params.isBonus,
+        isBlocked: defense.blocked,
+        health: target.health
+      });
+
+      console.log(`🗡️ ${attacker.name} hit ${target.name} for ${defense.damage} HP${defense.blocked ? ' (blocked)' : ''} (${target.health} left)`);
+
+      if (target.health <= 0) {
+        this.io.to(this.id).emit('ko', { attackerId: playerId, targetId: target.id });
+        console.log(`💀 ${target.name} KO'd by ${attacker.name}`);
+
+        // Full health again once KO'd; the client respawns at its last checkpoint
+        target.health = COMBAT_CONFIG.MAX_HEALTH;
+      }
+    }
+  }
+
+  /**
+   * Record a player crossing the finish line; the server stamps the time.
+   * The claim is held until the racer's reported progress completes the last lap
+   * (that state may arrive after the claim).
+   */
+  finishRace(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (!player || this.phase !== 'racing' || this.raceStartTime === null) return;
+    if (player.finishTime !== null || this.finishClaimTimes.has(playerId)) return;
+
+    this.finishClaimTimes.set(playerId, Date.now());
+    this.confirmFinish(player);
+  }
+
+  getInfo(): RoomInfo {
+    return {
+      id: this.id,
+      phase: this.phase,
+      players: Array.from(this.players.values()).map(({ id, name, playerClass, ready }) => ({
+        id, name, playerClass, ready
+      })),
+      phaseEndsAt: this.phaseEndsAt,
+      raceStartTime: this.raceStartTime,
+      lapCount: this.lapCount,
+      isOvertime: this.isOvertime,
+      results: this.results
+    };
+  }
+
+  isEmpty(): boolean {
+    return this.players.size === 0;
+  }
+
+  /**
+   * Server tick: advance phase timers and broadcast snapshots
+   */
+  private update(): void {
+    this.tick++;
+    const now = Date.now();
+
+    if (this.phaseEndsAt !== null && now >= this.phaseEndsAt) {
+      switch (this.phase) {
+        case 'countdown':
+          this.raceStartTime = now;
+          this.setPhase('racing', now + ROOM_CONFIG.ROUND_DURATION);
+          break;
+        case 'racing':
+          // Timer expired - overtime until the leader finishes
+          if (this.hasAnyFinisher()) {
+            this.endRace();
+          } else {
+            this.isOvertime = true;
+            this.setPhase('racing', null);
+            console.log(`⏱️ Room "${this.id}" entered overtime`);
+          }
+          break;
+        case 'results':
+          this.resetToLobby();
+          break;
+      }
+    }
+
+    this.regenerateHealth(now);
+
+    const snapshotInterval = Math.round(ROOM_CONFIG.TICK_RATE / ROOM_CONFIG.SNAPSHOT_RATE);
+    if (this.tick % snapshotInterval === 0 && this.players.size > 0) {
+      this.io.to(this.id).emit('stateUpdate', {
+        tick: this.tick,
+        serverTime: now,
+        players: Array.from(this.players.values())
+      });
+    }
+  }
+
+  /**
+   * Mirror of the client's regen: starts HEALTH_REGEN_DELAY after the last hit
+   */
+  private regenerateHealth(now: number): void {
+    const regenPerTick = COMBAT_CONFIG.HEALTH_REGEN_RATE / ROOM_CONFIG.TICK_RATE;
+
+    for (const player of this.players.values()) {
+      if (player.health >= COMBAT_CONFIG.MAX_HEALTH || player.regenDisabled) continue;
+
+      const lastDamageTime = this.lastDamageTimes.get(player.id) ?? 0;
+      if (now - lastDamageTime < COMBAT_CONFIG.HEALTH_REGEN_DELAY) continue;
+
+      player.health = Math.min(COMBAT_CONFIG.MAX_HEALTH, player.health + regenPerTick);
+    }
+  }
+
+  /**
+   * The client only says whether RMB is held; the parry window is timed here.
+   * A fresh press parries for PARRY_CONFIG.WINDOW ms unless the last parry started inside the cooldown.
+   */
+  private updateDefenseStance(player: PlayerSnapshot, holding: boolean, now: number): DefenseStance {
+    if (!holding) return 'none';
+
+    if (player.defenseStance === 'none') {
+      const lastParryStart = this.parryStartTimes.get(player.id) ?? -Infinity;
+      if (now - lastParryStart >= PARRY_CONFIG.COOLDOWN) {
+        this.parryStartTimes.set(player.id, now);
+      }
+    }
+    return this.isParryingAt(player.id, now) ? 'parry' : 'block';
+  }
+
+  /**
+   * The spawn or a recorded checkpoint crossing
+   */
+  private isKnownRespawnPoint(playerId: string, position: Vec3): boolean {
+    const anchors = this.respawnAnchors.get(playerId) ?? [];
+    return anchors.some(anchor => distance(anchor, position) <= MOVEMENT_LIMITS.RESPAWN_TOLERANCE);
+  }
+
+  /**
+   * Turn a held finish claim into a finish once the racer has run every lap,
+   * rejecting a time faster than MIN_LAP_TIME per lap
+   */
+  private confirmFinish(player: PlayerSnapshot): void {
+    const claimTime = this.finishClaimTimes.get(player.id);
+    if (claimTime === undefined || this.phase !== 'racing' || this.raceStartTime === null) return;
+    if (player.progress < this.lapCount) return;
+
+    this.finishClaimTimes.delete(player.id);
+    const finishTime = claimTime - this.raceStartTime;
+    if (finishTime < this.lapCount * MOVEMENT_LIMITS.MIN_LAP_TIME) {
+      console.warn(`⚠️ Rejected finish from ${player.name}: ${(finishTime / 1000).toFixed(2)}s for ${this.lapCount} laps`);
+      return;
+    }
+
+    player.finishTime = finishTime;
+    console.log(`🏁 ${player.name} finished in room "${this.id}" in ${(finishTime / 1000).toFixed(2)}s`);
+
+    this.checkRaceComplete();
+    this.broadcastRoomState();
+  }
+
+  /**
+   * Remember where a racer was when its progress advanced (it just crossed a checkpoint)
+   */
+  private addRespawnAnchor(playerId: string, position: Vec3): void {
+    const anchors = this.respawnAnchors.get(playerId);
+    if (!anchors) return;
+
+    anchors.push({ ...position });
+    // Keep the spawn plus the most recent crossings
+    if (anchors.length > MAX_RESPAWN_ANCHORS) {
+      anchors.splice(1, 1);
+    }
+  }
+
+  /**
+   * Time swing releases and blinks as the server sees them. A new swing or blink only
+   * counts once its class cooldown has passed, so toggling them can't keep a bonus window open.
+   */
+  private updateAbilityTimes(player: PlayerSnapshot, state: PlayerState, now: number): void {
+    const cooldownTolerance = LAG_COMPENSATION.COOLDOWN_TOLERANCE;
+
+    if (player.playerClass === 'grapple') {
+      if (state.isSwinging && !player.isSwinging) {
+        const lastSwingStart = this.swingStartTimes.get(player.id) ?? -Infinity;
+        if (now - lastSwingStart >= ABILITY_COOLDOWNS.grapple - cooldownTolerance) {
+          this.swingStartTimes.set(player.id, now);
+          player.isSwinging = true;
+        }
+      } else if (!state.isSwinging && player.isSwinging) {
+        this.grappleDetachTimes.set(player.id, now);
+        player.isSwinging = false;
+      }
+    }
+
+    if (player.playerClass === 'blink' && state.blinks > player.blinks) {
+      const lastBlink = this.blinkTimes.get(player.id) ?? -Infinity;
+      if (now - lastBlink >= ABILITY_COOLDOWNS.blink - cooldownTolerance) {
+        this.blinkTimes.set(player.id, now);
+      }
+    }
+    player.blinks = state.blinks;
+  }
+
+  private isParryingAt(playerId: string, time: number): boolean {
+    const parryStart = this.parryStartTimes.get(playerId);
+    return parryStart !== undefined && time >= parryStart && time - parryStart <= PARRY_CONFIG.WINDOW;
+  }
+
+  /**
+   * Defense stance a target had at a rewound server time
+   */
+  private defenseStanceAt(player: PlayerSnapshot, time: number): DefenseStance {
+    const held = this.positionHistories.get(player.id)?.sampleStance(time) ?? (player.defenseStance === 'none' ? 'none' : 'block');
+    if (held === 'none') return 'none';
+    return this.isParryingAt(player.id, time) ? 'parry' : 'block';
+  }
+
+  private checkCountdownStart(): void {
+    if (this.phase !== 'lobby') return;
+    if (this.players.size < ROOM_CONFIG.MIN_PLAYERS) return;
+
+    const allReady = Array.from(this.players.values()).every(player => player.ready);
+    if (allReady) {
+      this.setPhase('countdown', Date.now() + ROOM_CONFIG.COUNTDOWN_DURATION);
+    }
+  }
+
+  private checkRaceComplete(): void {
+    if (this.phase !== 'racing') return;
+
+    const players = Array.from(this.players.values());
+    const allFinished = players.length > 0 && players.every(player => player.finishTime !== null);
+
+    // In overtime the first finisher ends the race
+    if (allFinished || (this.isOvertime && this.hasAnyFinisher())) {
+      this.endRace();
+    }
+  }
+
+  private hasAnyFinisher(): boolean {
+    return Array.from(this.players.values()).some(player => player.finishTime !== null);
+  }
+
+  /**
+   * Rank finishers by time, then everyone else by farthest progress
+   */
+  private endRace(): void {
+    const ranked = rankRacers(Array.from(this.players.values()));
+
+    this.results = ranked.map((player, index) => ({
+      id: player.id,
+      name: player.name,
+      playerClass: player.playerClass,
+      placement: index + 1,
+      finishTime: player.finishTime,
+      progress: player.progress
+    }));
+
+    this.setPhase('results', Date.now() + ROOM_CONFIG.RESULTS_DURATION);
+  }
+
+  private resetToLobby(): void {
+    for (const player of this.players.values()) {
+      player.ready = false;
+      player.finishTime = null;
+      player.progress = 0;
+      player.health = COMBAT_CONFIG.MAX_HEALTH;
+      this.respawnAnchors.set(player.id, [{ ...SPAWN_POSITION }]);
+      this.pendingRespawns.delete(player.id);
+    }
+    this.finishClaimTimes.clear();
+
+    this.raceStartTime = null;
+    this.isOvertime = false;
+    this.results = [];
+    this.setPhase('lobby', null);
+  }
+
+  private setPhase(phase: RoomPhase, endsAt: number | null): void {
+    if (this.phase !== phase) {
+      console.log(`🔄 Room "${this.id}": ${this.phase} → ${phase}`);
+    }
+
+    this.phase = phase;
+    this.phaseEndsAt = endsAt;
+    this.broadcastRoomState();
+  }
+
+  private broadcastRoomState(): void {
+    this.io.to(this.id).emit('roomState', this.getInfo());
+  }
+
+  /**
+   * Stop ticking (called once the room is empty)
+   */
+  dispose(): void {
+    clearInterval(this.tickInterval);
+    console.log(`🏠 Room "${this.id}" closed`);
+  }
+}
+
+function isVec3(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const vec = value as Record<string, unknown>;
+  return ['x', 'y', 'z'].every(axis => typeof vec[axis] === 'number' && isFinite(vec[axis] as number));
+}
+
+/**
+ * Reject malformed state so one client cannot poison the snapshot
+ */
+function isValidPlayerState(state: PlayerState): boolean {
+  return !!state &&
+    isVec3(state.position) &&
+    isVec3(state.rotation) &&
+    isVec3(state.velocity) &&
+    typeof state.progress === 'number' &&
+    isFinite(state.progress) &&
+    Number.isInteger(state.inputSeq) &&
+    Number.isInteger(state.respawns) &&
+    typeof state.regenDisabled === 'boolean' &&
+    typeof state.isSwinging === 'boolean' &&
+    Number.isInteger(state.blinks) &&
+    ['none', 'block', 'parry'].includes(state.defenseStance);
+}
+
+function isValidMeleeAttack(request: MeleeAttackRequest): boolean {
+  const context = request?.context;
+  return !!request &&
+    typeof request.viewTime === 'number' &&
+    isFinite(request.viewTime) &&
+    isVec3(request.origin) &&
+    isVec3(request.direction) &&
+    !!context &&
+    typeof context.isSwinging === 'boolean' &&
+    typeof context.msSinceGrappleDetach === 'number' &&
+    context.msSinceGrappleDetach >= 0 &&
+    typeof context.msSinceBlink === 'number' &&
+    context.msSinceBlink >= 0;
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const dz = b.z - a.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+/**
+ * Limit how far a player can move from their last accepted position
+ */
+function clampDisplacement(from: Vec3, to: Vec3, maxDistance: number): Vec3 {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const dz = to.z - from.z;
+  const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (length <= maxDistance) return to;
+
+  const scale = maxDistance / length;
+  return { x: from.x + dx * scale, y: from.y + dy * scale, z: from.z + dz * scale };
+}
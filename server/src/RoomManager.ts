@@ -0,0 +1,105 @@
+import { ROOM_CONFIG, type JoinRoomRequest } from '../../shared/protocol';
+import { Room, type GameServer, type GameSocket } from './Room';
+
+/**
+ * Owns all named rooms and routes socket messages to the player's room
+ */
+export class RoomManager {
+  private io: GameServer;
+  private rooms: Map<string, Room> = new Map();
+  private roomByPlayer: Map<string, Room> = new Map();
+
+  constructor(io: GameServer) {
+    this.io = io;
+  }
+
+  /**
+   * Wire up message handlers for a newly connected socket
+   */
+  handleConnection(socket: GameSocket): void {
+    console.log('👤 Player connected:', socket.id);
+
+    socket.on('joinRoom', (request, ack) => {
+      if (typeof ack !== 'function') return;
+      ack(this.joinRoom(socket, request));
+    });
+
+    socket.on('leaveRoom', () => {
+      this.leaveRoom(socket);
+    });
+
+    socket.on('setReady', (ready) => {
+      this.roomByPlayer.get(socket.id)?.setReady(socket.id, ready === true);
+    });
+
+    socket.on('playerState', (state) => {
+      this.roomByPlayer.get(socket.id)?.updatePlayerState(socket.id, state);
+    });
+
+    socket.on('raceFinished', () => {
+      this.roomByPlayer.get(socket.id)?.finishRace(socket.id);
+    });
+
+    socket.on('meleeAttack', (request) => {
+      this.roomByPlayer.get(socket.id)?.handleMeleeAttack(socket.id, request);
+    });
+
+    socket.on('disconnect', () => {
+      console.log('👤 Player disconnected:', socket.id);
+      this.leaveRoom(socket);
+    });
+  }
+
+  private joinRoom(socket: GameSocket, request: JoinRoomRequest) {
+    if (!request || typeof request.roomId !== 'string' || !ROOM_CONFIG.ROOM_ID_PATTERN.test(request.roomId)) {
+      return { ok: false as const, reason: 'Invalid room name' };
+    }
+
+    if (!['blast', 'grapple', 'blink'].includes(request.playerClass)) {
+      return { ok: false as const, reason: 'Invalid player class' };
+    }
+
+    if (!isCountInRange(request.lapCount, ROOM_CONFIG.MAX_LAP_COUNT) || !isCountInRange(request.stageCount, ROOM_CONFIG.MAX_STAGE_COUNT)) {
+      return { ok: false as const, reason: 'Invalid race format' };
+    }
+
+    // Switching rooms leaves the previous one first
+    this.leaveRoom(socket);
+
+    const roomId = request.roomId.toLowerCase();
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = new Room(this.io, roomId, request.lapCount, request.stageCount);
+      this.rooms.set(roomId, room);
+    }
+
+    const response = room.addPlayer(socket, { ...request, name: String(request.name ?? '') });
+    if (response.ok) {
+      this.roomByPlayer.set(socket.id, room);
+    } else {
+      this.closeIfEmpty(room);
+    }
+
+    return response;
+  }
+
+  private leaveRoom(socket: GameSocket): void {
+    const room = this.roomByPlayer.get(socket.id);
+    if (!room) return;
+
+    this.roomByPlayer.delete(socket.id);
+    room.removePlayer(socket);
+    this.closeIfEmpty(room);
+  }
+
+  private closeIfEmpty(room: Room): void {
+    if (room.isEmpty()) {
+      room.dispose();
+      this.rooms.delete(room.id);
+    }
+  }
+}
+
+function isCountInRange(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max;
+}
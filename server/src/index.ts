@@ -0,0 +1,24 @@
+import { Server } from 'socket.io';
+import { createServer } from 'http';
+import type { ClientToServerEvents, ServerToClientEvents } from '../../shared/protocol';
+import { RoomManager } from './RoomManager';
+
+const httpServer = createServer();
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
+  cors: {
+    origin: '*',
+    methods: ['GET', 'POST']
+  }
+});
+
+// Rooms own all match state; the socket layer only routes messages
+const roomManager = new RoomManager(io);
+
+io.on('connection', (socket) => {
+  roomManager.handleConnection(socket);
+});
+
+const PORT = process.env.PORT || 3000;
+httpServer.listen(PORT, () => {
+  console.log(`🚀 Server running on port ${PORT}`);
+});
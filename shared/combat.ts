@@ -0,0 +1,302 @@
+/**
+ * Melee rules shared by the client (instant feedback) and the game server (authoritative hit check).
+ *
+ * Like `protocol.ts` this file must stay free of three.js, Rapier and DOM/Node
+ * specific imports - vector math is done on plain `Vec3` objects.
+ */
+import type { PlayerClass, Vec3 } from './protocol';
+
+// Combat constants from PRD
+export const COMBAT_CONFIG = {
+  BASE_RANGE: 3.6, // meters (doubled from 1.8m)
+  BASE_CONE_ANGLE: 120, // degrees - increased from 90° for more generous hits
+  MELEE_COOLDOWN: 500, // milliseconds (0.5s)
+
+  // Class damage values
+  DAMAGE: {
+    blast: 60,
+    grapple: 25, // Base damage (can crit to 70)
+    blink: 30    // Base damage (bonus +20 = 50 total) - reduced from 40
+  },
+
+  // Class modifiers
+  BLAST_RANGE_MULTIPLIER: 1.25,
+  GRAPPLE_CRIT_DAMAGE: 70, // Increased from 60
+  GRAPPLE_CRIT_WINDOW: 500, // 0.5s after grapple detach
+  BLINK_BONUS_DAMAGE: 20, // Increased from 15 (+20 = 50 total)
+  BLINK_BONUS_WINDOW: 800, // 0.8s after blink
+
+  // Knockback
+  KNOCKBACK_MULTIPLIER: 0.4,
+
+  // Player health (server authoritative in multiplayer)
+  MAX_HEALTH: 100,
+  HEALTH_REGEN_DELAY: 4000, // ms since last damage before regen starts
+  HEALTH_REGEN_RATE: 25     // HP per second
+} as const;
+
+// Hold-to-block (RMB)
+export const BLOCK_CONFIG = {
+  DAMAGE_MULTIPLIER: 0.25,    // blocked hits deal 25% damage
+  KNOCKBACK_MULTIPLIER: 0.5,  // and half knockback
+  RELEASE_LOCKOUT: 500,       // ms before blocking again after release
+  MOVE_SPEED_MULTIPLIER: 0.5  // movement slowed while holding block
+} as const;
+
+// Timed parry: the start of an RMB press
+export const PARRY_CONFIG = {
+  WINDOW: 150,            // ms after pressing RMB in which hits are parried
+  STAGGER_DURATION: 400,  // attacker can't melee for this long after being parried
+  COOLDOWN: 1000          // ms between parry attempts (presses inside it are plain blocks)
+} as const;
+
+// Class ability cooldowns (the server paces ability-timed damage bonuses with them)
+export const ABILITY_COOLDOWNS = {
+  blast: 3000,   // milliseconds
+  grapple: 1200,
+  blink: 2500
+} as const;
+
+/**
+ * What a defender is doing when a hit lands
+ */
+export type DefenseStance = 'none' | 'block' | 'parry';
+
+// Server-side lag compensation limits
+export const LAG_COMPENSATION = {
+  MAX_REWIND: 250,       // never rewind targets further than this (ms)
+  HISTORY_DURATION: 1000, // position history kept per player (ms)
+  ORIGIN_TOLERANCE: 5.0,  // max distance between claimed attack origin and the attacker's server position (m)
+  COOLDOWN_TOLERANCE: 50, // jitter allowance on MELEE_COOLDOWN and ABILITY_COOLDOWNS (ms)
+  SPEED_WINDOW: 200       // attacker speed is measured over this much of its position history (ms)
+} as const;
+
+/**
+ * Attacker state that modifies class damage/shape
+ */
+export interface AttackContext {
+  speed: number;                // horizontal speed in m/s
+  isSwinging: boolean;
+  msSinceGrappleDetach: number;
+  msSinceBlink: number;
+}
+
+/**
+ * Which class rule produced the final damage (used for combat log feedback)
+ */
+export type AttackBonus =
+  | 'velocityCrit'
+  | 'speedBonus'
+  | 'slowSwing'
+  | 'postSwingCrit'
+  | 'highVelocity'
+  | 'groundAttack'
+  | 'blinkBonus'
+  | null;
+
+export interface AttackParameters {
+  range: number;
+  coneAngle: number;
+  damage: number;
+  is360Sweep: boolean;
+  className: PlayerClass;
+  isCrit: boolean;
+  isBonus: boolean;
+  bonus: AttackBonus;
+}
+
+/**
+ * Calculate attack shape and damage for a class in the given attacker state
+ */
+export function resolveAttackParameters(className: PlayerClass, context: AttackContext): AttackParameters {
+  let range: number = COMBAT_CONFIG.BASE_RANGE;
+  let coneAngle: number = COMBAT_CONFIG.BASE_CONE_ANGLE;
+  let damage: number = COMBAT_CONFIG.DAMAGE[className];
+  let is360Sweep = false;
+  let bonus: AttackBonus = null;
+
+  switch (className) {
+    case 'blast':
+      // +25% range
+      range *= COMBAT_CONFIG.BLAST_RANGE_MULTIPLIER;
+      break;
+
+    case 'grapple':
+      if (context.isSwinging) {
+        // Always use 360° sweep while grappling, velocity-based damage
+        is360Sweep = true;
+        coneAngle = 360;
+
+        if (context.speed > 8.0) {
+          damage = COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE; // 70 HP
+          bonus = 'velocityCrit';
+        } else if (context.speed > 4.0) {
+          damage = COMBAT_CONFIG.DAMAGE.grapple + 20; // 25 + 20 = 45
+          bonus = 'speedBonus';
+        } else {
+          bonus = 'slowSwing';
+        }
+      } else if (context.msSinceGrappleDetach < COMBAT_CONFIG.GRAPPLE_CRIT_WINDOW) {
+        damage = COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE;
+        bonus = 'postSwingCrit';
+      } else if (context.speed > 6.0) {
+        // Even without swinging, reward high velocity
+        damage = COMBAT_CONFIG.GRAPPLE_CRIT_DAMAGE;
+        bonus = 'highVelocity';
+      } else {
+        bonus = 'groundAttack';
+      }
+      break;
+
+    case 'blink':
+      if (context.msSinceBlink < COMBAT_CONFIG.BLINK_BONUS_WINDOW) {
+        damage += COMBAT_CONFIG.BLINK_BONUS_DAMAGE;
+        bonus = 'blinkBonus';
+      }
+      break;
+  }
+
+  return {
+    range,
+    coneAngle,
+    damage,
+    is360Sweep,
+    className,
+    // Include speed bonus as crit
+    isCrit: className === 'grapple' && damage > COMBAT_CONFIG.DAMAGE.grapple + 15,
+    isBonus: className === 'blink' && damage > COMBAT_CONFIG.DAMAGE.blink,
+    bonus
+  };
+}
+
+/**
+ * Damage and knockback actually received by a defender.
+ * A parry nullifies the hit entirely; the caller staggers the attacker.
+ */
+export function resolveDefense(damage: number, knockbackForce: number, stance: DefenseStance) {
+  switch (stance) {
+    case 'parry':
+      return { damage: 0, knockbackForce: 0, blocked: true, parried: true };
+    case 'block':
+      return {
+        damage: damage * BLOCK_CONFIG.DAMAGE_MULTIPLIER,
+        knockbackForce: knockbackForce * BLOCK_CONFIG.KNOCKBACK_MULTIPLIER,
+        blocked: true,
+        parried: false
+      };
+    default:
+      return { damage, knockbackForce, blocked: false, parried: false };
+  }
+}
+
+/**
+ * Find targets inside the attack shape: a 360° radius check, or a cone of rays around `direction`
+ */
+export function findMeleeHits<T extends { position: Vec3 }>(
+  origin: Vec3,
+  direction: Vec3,
+  params: { range: number; coneAngle: number; is360Sweep: boolean },
+  targets: Iterable<T>
+): T[] {
+  const candidates = Array.from(targets);
+  const hitTargets: T[] = [];
+
+  if (params.is360Sweep) {
+    for (const target of candidates) {
+      if (distance(origin, target.position) <= params.range) {
+        hitTargets.push(target);
+      }
+    }
+    return hitTargets;
+  }
+
+  const forward = normalize(direction);
+  const up = { x: 0, y: 1, z: 0 };
+  const right = normalize(cross(forward, up));
+  const halfAngle = (params.coneAngle * Math.PI / 180) / 2;
+
+  // Fan of rays rotated around the world up axis
+  const numRays = 7;
+  for (let i = 0; i < numRays; i++) {
+    const angle = i === 0 ? 0 : ((i - 1) / (numRays - 2) - 0.5) * 2 * halfAngle;
+    castRay(origin, rotateAroundAxis(forward, up, angle), params.range, candidates, hitTargets);
+  }
+
+  // Additional vertical spread rays around the view's right axis
+  for (let i = 0; i < 5; i++) {
+    const angle = (i - 2) * halfAngle * 0.8;
+    castRay(origin, rotateAroundAxis(forward, right, angle), params.range, candidates, hitTargets);
+  }
+
+  return hitTargets;
+}
+
+/**
+ * Distance-based ray: a target counts if it is in range and within ~22.5° of the ray
+ */
+function castRay<T extends { position: Vec3 }>(
+  origin: Vec3,
+  rayDirection: Vec3,
+  maxDistance: number,
+  candidates: T[],
+  hitTargets: T[]
+): void {
+  const angleThreshold = Math.cos(Math.PI / 8);
+
+  for (const target of candidates) {
+    if (hitTargets.includes(target)) continue;
+
+    const toTarget = subtract(target.position, origin);
+    const targetDistance = length(toTarget);
+    if (targetDistance > maxDistance || targetDistance === 0) continue;
+
+    if (dot(normalize(toTarget), rayDirection) > angleThreshold) {
+      hitTargets.push(target);
+    }
+  }
+}
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+  };
+}
+
+function length(v: Vec3): number {
+  return Math.sqrt(dot(v, v));
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return length(subtract(a, b));
+}
+
+function normalize(v: Vec3): Vec3 {
+  const len = length(v);
+  return len > 0 ? { x: v.x / len, y: v.y / len, z: v.z / len } : { x: 0, y: 0, z: 0 };
+}
+
+/**
+ * Rodrigues rotation of `v` around unit `axis` by `angle` radians
+ */
+function rotateAroundAxis(v: Vec3, axis: Vec3, angle: number): Vec3 {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const axisCrossV = cross(axis, v);
+  const axisDotV = dot(axis, v);
+
+  return {
+    x: v.x * cos + axisCrossV.x * sin + axis.x * axisDotV * (1 - cos),
+    y: v.y * cos + axisCrossV.y * sin + axis.y * axisDotV * (1 - cos),
+    z: v.z * cos + axisCrossV.z * sin + axis.z * axisDotV * (1 - cos)
+  };
+}
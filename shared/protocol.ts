@@ -0,0 +1,173 @@
+/**
+ * Shared network protocol for the Wreckless client and game server.
+ *
+ * Both `client/src` and `server/src` import this file, so it must stay free of
+ * three.js, Rapier and DOM/Node specific imports - plain data only.
+ */
+
+import type { AttackContext, DefenseStance } from './combat';
+
+export type PlayerClass = 'blast' | 'grapple' | 'blink';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Room lifecycle owned by the server: lobby → countdown → racing → results → lobby
+ */
+export type RoomPhase = 'lobby' | 'countdown' | 'racing' | 'results';
+
+// Room and tick configuration (PRD: 2-8 players, 60 s round, 60 Hz tick)
+export const ROOM_CONFIG = {
+  MIN_PLAYERS: 2,
+  MAX_PLAYERS: 8,
+  COUNTDOWN_DURATION: 3000,   // milliseconds
+  ROUND_DURATION: 60000,      // 60 s round timer, overtime until the leader finishes
+  RESULTS_DURATION: 10000,    // time on the results screen before returning to lobby
+  TICK_RATE: 60,              // server simulation ticks per second
+  SNAPSHOT_RATE: 20,          // snapshots per second sent to clients (≤ 50 KB/s budget)
+  ROOM_ID_PATTERN: /^[a-z0-9_-]{1,24}$/i,
+  MAX_NAME_LENGTH: 16,
+  MAX_LAP_COUNT: 10,
+  MAX_STAGE_COUNT: 32         // checkpoint stages per lap, finish included
+} as const;
+
+/**
+ * Movement state a client reports for its own racer
+ */
+export interface PlayerState {
+  position: Vec3;
+  rotation: Vec3; // x = pitch, y = yaw (radians)
+  velocity: Vec3;
+  progress: number; // laps + fraction of checkpoints passed, used to rank unfinished racers
+  inputSeq: number; // last input command applied to this state (acknowledged back for reconciliation)
+  respawns: number; // bumped on every respawn so the server accepts the teleport
+  regenDisabled: boolean; // blink temporarily disables health regen
+  defenseStance: DefenseStance; // RMB held (visible to other players); the server times the parry window itself
+  isSwinging: boolean; // grapple attached - the server times the post-swing crit window from the release
+  blinks: number; // bumped on every blink so the server can time the blink damage bonus
+}
+
+// Server-side sanity limits on reported movement and race progress
+export const MOVEMENT_LIMITS = {
+  MAX_SPEED: 150,          // m/s, above any boost/rocket-jump/swing speed
+  TELEPORT_ALLOWANCE: 10.5, // m, one blink (10 m) plus slack
+  RESPAWN_TOLERANCE: 10,    // m between a checkpoint's respawn point and where the racer was seen crossing it
+  RESPAWN_COOLDOWN: 1000,   // ms between accepted respawns
+  MIN_LAP_TIME: 5000        // ms, below any legitimate lap - a faster finish is rejected
+} as const;
+
+/**
+ * Authoritative view of one racer as broadcast by the server
+ */
+export interface PlayerSnapshot extends PlayerState {
+  id: string;
+  name: string;
+  playerClass: PlayerClass;
+  ready: boolean;
+  finishTime: number | null; // milliseconds since race start
+  health: number;
+}
+
+/**
+ * Batched world state sent at SNAPSHOT_RATE
+ */
+export interface WorldSnapshot {
+  tick: number;
+  serverTime: number;
+  players: PlayerSnapshot[];
+}
+
+export interface RaceResult {
+  id: string;
+  name: string;
+  playerClass: PlayerClass;
+  placement: number;
+  finishTime: number | null; // null = did not finish, ranked by progress
+  progress: number;
+}
+
+export interface RoomInfo {
+  id: string;
+  phase: RoomPhase;
+  players: Array<Pick<PlayerSnapshot, 'id' | 'name' | 'playerClass' | 'ready'>>;
+  phaseEndsAt: number | null; // server timestamp, null while waiting or in overtime
+  raceStartTime: number | null;
+  lapCount: number; // laps every racer in the room runs
+  isOvertime: boolean;
+  results: RaceResult[];
+}
+
+export interface JoinRoomRequest {
+  roomId: string;
+  name: string;
+  playerClass: PlayerClass;
+  lapCount: number;   // laps to race - the room keeps its first player's
+  stageCount: number; // checkpoint stages per lap on the player's track (must match the room's)
+}
+
+export type JoinRoomResponse =
+  | { ok: true; playerId: string; room: RoomInfo }
+  | { ok: false; reason: string };
+
+/**
+ * A melee swing as seen by the attacker, re-checked by the server
+ */
+export interface MeleeAttackRequest {
+  viewTime: number;   // server time the attacker was rendering other players at
+  origin: Vec3;       // camera position
+  direction: Vec3;    // camera forward
+  context: AttackContext;
+}
+
+/**
+ * Authoritative melee hit
+ */
+export interface HitEvent {
+  attackerId: string;
+  targetId: string;
+  damage: number;
+  knockbackForce: number;
+  direction: Vec3;
+  isCrit: boolean;
+  isBonus: boolean;
+  isBlocked: boolean;
+  health: number; // target health after the hit
+}
+
+/**
+ * A hit that landed inside the defender's parry window; the attacker is staggered
+ */
+export interface ParryEvent {
+  attackerId: string;
+  defenderId: string;
+  staggerDuration: number;
+}
+
+export interface KOEvent {
+  attackerId: string;
+  targetId: string;
+}
+
+export interface ServerToClientEvents {
+  currentPlayers: (players: PlayerSnapshot[]) => void;
+  playerJoined: (player: PlayerSnapshot) => void;
+  stateUpdate: (snapshot: WorldSnapshot) => void;
+  playerLeft: (playerId: string) => void;
+  roomState: (room: RoomInfo) => void;
+  hit: (event: HitEvent) => void;
+  ko: (event: KOEvent) => void;
+  parry: (event: ParryEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  joinRoom: (request: JoinRoomRequest, ack: (response: JoinRoomResponse) => void) => void;
+  leaveRoom: () => void;
+  setReady: (ready: boolean) => void;
+  playerState: (state: PlayerState) => void;
+  raceFinished: () => void;
+  meleeAttack: (request: MeleeAttackRequest) => void;
+}
@@ -0,0 +1,20 @@
+/**
+ * Race ranking rules shared by the solo RaceSession and the game server's rooms.
+ */
+
+export interface RankableRacer {
+  finishTime: number | null; // milliseconds since race start, null = not finished
+  progress: number;          // laps + fraction of checkpoints passed
+}
+
+/**
+ * Rank finishers by time, then everyone else by farthest progress
+ */
+export function rankRacers<T extends RankableRacer>(racers: T[]): T[] {
+  return [...racers].sort((a, b) => {
+    if (a.finishTime !== null && b.finishTime !== null) return a.finishTime - b.finishTime;
+    if (a.finishTime !== null) return -1;
+    if (b.finishTime !== null) return 1;
+    return b.progress - a.progress;
+  });
+}